@@ -0,0 +1,2 @@
+export * from "./serializers";
+export * from "./server";
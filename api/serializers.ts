@@ -0,0 +1,121 @@
+import {Contract, formatUnits, ZeroAddress} from "ethers";
+
+import type {HelperToken, SuperHelper} from "../typechain-types";
+import {badgeName, jobStatusName, NATIVE_TOKEN} from "../sdk/types";
+import {formatHelp, HELP_DECIMALS} from "../sdk/units";
+
+export interface JobResponse {
+    id: string;
+    creator: string;
+    worker: string;
+    description: string;
+    stars: number;
+    creatorStars: number;
+    /** Payment token of the job: the HelperToken address, another ERC-20 address or NATIVE_TOKEN for ETH. */
+    token: string;
+    /** Amounts are formatted with the decimals of the payment token. */
+    reward: string;
+    rewardUnits: string;
+    status: string;
+    deliverable: string;
+    duration: string;
+    deadline: string;
+    submittedAt: string;
+    disputedAt: string;
+    released: string;
+    releasedUnits: string;
+    milestones: MilestoneResponse[];
+}
+
+export interface MilestoneResponse {
+    description: string;
+    amount: string;
+    amountUnits: string;
+    released: boolean;
+}
+
+export interface UserResponse {
+    address: string;
+    isRegistered: boolean;
+    lastActivity: string;
+    nbJobCompleted: string;
+    nbJobAbandoned: string;
+    badgeLevel: string;
+    averageWorkerRating: number;
+    averageCreatorRating: number;
+    balance: string;
+    balanceUnits: string;
+    pendingDepreciation: string;
+    pendingDepreciationUnits: string;
+}
+
+/**
+ * @dev Reads the payment token of a job and the number of decimals of its amounts.
+ */
+async function readJobToken(superHelper: SuperHelper, id: bigint): Promise<{ token: string, decimals: number }> {
+    const token = await superHelper.jobTokens(id);
+
+    if (token === ZeroAddress) {
+        return {token: await superHelper.helperToken(), decimals: HELP_DECIMALS};
+    }
+    if (token === NATIVE_TOKEN) {
+        return {token, decimals: 18};
+    }
+
+    const erc20 = new Contract(token, ["function decimals() view returns (uint8)"], superHelper.runner);
+    return {token, decimals: Number(await erc20.decimals())};
+}
+
+export async function readJob(superHelper: SuperHelper, id: bigint): Promise<JobResponse> {
+    const job = await superHelper.jobs(id);
+    const milestones = await superHelper.getMilestones(id);
+    const {token, decimals} = await readJobToken(superHelper, id);
+
+    return {
+        id: id.toString(),
+        creator: job.creator,
+        worker: job.worker,
+        description: job.description,
+        stars: Number(job.stars),
+        creatorStars: Number(await superHelper.creatorStars(id)),
+        token,
+        reward: formatUnits(job.reward, decimals),
+        rewardUnits: job.reward.toString(),
+        status: jobStatusName(job.status),
+        deliverable: job.deliverable,
+        duration: job.duration.toString(),
+        deadline: job.deadline.toString(),
+        submittedAt: job.submittedAt.toString(),
+        disputedAt: job.disputedAt.toString(),
+        released: formatUnits(job.released, decimals),
+        releasedUnits: job.released.toString(),
+        milestones: milestones.map((milestone) => ({
+            description: milestone.description,
+            amount: formatUnits(milestone.amount, decimals),
+            amountUnits: milestone.amount.toString(),
+            released: milestone.released,
+        })),
+    };
+}
+
+export async function readUser(superHelper: SuperHelper, helperToken: HelperToken, address: string): Promise<UserResponse> {
+    const user = await superHelper.users(address);
+    const balance = await helperToken.balanceOf(address);
+    const pendingDepreciation = await superHelper.pendingDepreciation(address);
+    const ratingPrecision = Number(await superHelper.RATING_PRECISION());
+
+    return {
+        address,
+        isRegistered: user.isRegistered,
+        lastActivity: user.lastActivity.toString(),
+        nbJobCompleted: user.nbJobCompleted.toString(),
+        nbJobAbandoned: user.nbJobAbandoned.toString(),
+        badgeLevel: badgeName(user.badgeLevel),
+        averageWorkerRating: Number(await superHelper.averageWorkerRating(address)) / ratingPrecision,
+        averageCreatorRating: Number(await superHelper.averageCreatorRating(address)) / ratingPrecision,
+        balance: formatHelp(balance),
+        balanceUnits: balance.toString(),
+        pendingDepreciation: formatHelp(pendingDepreciation),
+        pendingDepreciationUnits: pendingDepreciation.toString(),
+    };
+}
@@ -0,0 +1,157 @@
+import http from "http";
+import {isAddress} from "ethers";
+
+import type {HelperToken, SuperHelper} from "../typechain-types";
+import {Badge, JobStatus} from "../sdk/types";
+import {JobResponse, readJob, readUser, UserResponse} from "./serializers";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_LEADERBOARD_SIZE = 10;
+
+export interface ApiOptions {
+    superHelper: SuperHelper;
+    helperToken: HelperToken;
+}
+
+export interface JobPage {
+    items: JobResponse[];
+    offset: number;
+    limit: number;
+    total: number;
+    next: number | null;
+}
+
+/**
+ * @notice Error converted to a JSON response with the given HTTP status.
+ */
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function parseInteger(params: URLSearchParams, name: string, defaultValue: number, max = Number.MAX_SAFE_INTEGER): number {
+    const raw = params.get(name);
+    if (raw === null) {
+        return defaultValue;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0 || value > max) {
+        throw new HttpError(400, `Invalid ${name}: ${raw}`);
+    }
+
+    return value;
+}
+
+/**
+ * @notice Pages over job ids [offset, offset + limit[ and keeps the jobs matching the optional status.
+ * The next cursor is null once jobCount is reached.
+ */
+async function listJobs({superHelper}: ApiOptions, params: URLSearchParams): Promise<JobPage> {
+    const statusName = params.get("status")?.toUpperCase();
+    const status = statusName === undefined ? undefined : JobStatus[statusName as keyof typeof JobStatus];
+    if (statusName !== undefined && typeof status !== "number") {
+        throw new HttpError(400, `Unknown status: ${statusName}`);
+    }
+
+    const offset = parseInteger(params, "offset", 0);
+    const limit = parseInteger(params, "limit", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const total = Number(await superHelper.jobCount());
+    const end = Math.min(total, offset + limit);
+
+    const items: JobResponse[] = [];
+    for (let id = offset; id < end; id++) {
+        const job = await readJob(superHelper, BigInt(id));
+        if (status === undefined || job.status === statusName) {
+            items.push(job);
+        }
+    }
+
+    return {items, offset, limit, total, next: end < total ? end : null};
+}
+
+async function getJob({superHelper}: ApiOptions, rawId: string): Promise<JobResponse> {
+    if (!/^\d+$/.test(rawId)) {
+        throw new HttpError(400, `Invalid job id: ${rawId}`);
+    }
+
+    const id = BigInt(rawId);
+    if (id >= await superHelper.jobCount()) {
+        throw new HttpError(404, `Job ${rawId} not found`);
+    }
+
+    return readJob(superHelper, id);
+}
+
+async function getUser({superHelper, helperToken}: ApiOptions, address: string): Promise<UserResponse> {
+    if (!isAddress(address)) {
+        throw new HttpError(400, `Invalid address: ${address}`);
+    }
+
+    return readUser(superHelper, helperToken, address);
+}
+
+function badgeRank(user: UserResponse): number {
+    return Badge[user.badgeLevel as keyof typeof Badge];
+}
+
+/**
+ * @notice Registered users (found through FirstRegistration events) ranked by completed jobs, then badge.
+ */
+async function getLeaderboard({superHelper, helperToken}: ApiOptions, params: URLSearchParams): Promise<UserResponse[]> {
+    const limit = parseInteger(params, "limit", DEFAULT_LEADERBOARD_SIZE, MAX_PAGE_SIZE);
+    const registrations = await superHelper.queryFilter(superHelper.filters.FirstRegistration);
+
+    const users = await Promise.all(registrations.map((event) => readUser(superHelper, helperToken, event.args.newUser)));
+
+    return users
+        .sort((a, b) => Number(BigInt(b.nbJobCompleted) - BigInt(a.nbJobCompleted)) || badgeRank(b) - badgeRank(a))
+        .slice(0, limit);
+}
+
+async function route(options: ApiOptions, method: string, url: URL): Promise<unknown> {
+    if (method !== "GET") {
+        throw new HttpError(405, `Method ${method} not allowed`);
+    }
+
+    const segments = url.pathname.split("/").filter((segment) => segment.length > 0);
+
+    if (segments.length === 1 && segments[0] === "jobs") {
+        return listJobs(options, url.searchParams);
+    }
+    if (segments.length === 2 && segments[0] === "jobs") {
+        return getJob(options, segments[1]);
+    }
+    if (segments.length === 2 && segments[0] === "users") {
+        return getUser(options, segments[1]);
+    }
+    if (segments.length === 1 && segments[0] === "leaderboard") {
+        return getLeaderboard(options, url.searchParams);
+    }
+
+    throw new HttpError(404, `Route ${url.pathname} not found`);
+}
+
+/**
+ * @title JSON API serving jobs, users and badges
+ * @notice GET /jobs?status=&offset=&limit=, GET /jobs/:id, GET /users/:address and GET /leaderboard?limit=,
+ * all read directly from the SuperHelper contract.
+ */
+export function createApiServer(options: ApiOptions): http.Server {
+    return http.createServer(async (request, response) => {
+        let status = 200;
+        let body: unknown;
+
+        try {
+            body = await route(options, request.method ?? "GET", new URL(request.url ?? "/", "http://localhost"));
+        } catch (error) {
+            status = error instanceof HttpError ? error.status : 500;
+            body = {error: error instanceof Error ? error.message : String(error)};
+        }
+
+        response.writeHead(status, {"Content-Type": "application/json"});
+        response.end(JSON.stringify(body));
+    });
+}
@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {SuperHelper} from "./SuperHelper.sol";
+
+/**
+ * @title Applications
+ * @notice Storage of the requirements of SuperHelper jobs and of the applications they receive.
+ * @dev Linked library, deployed separately to keep SuperHelper under the contract size limit.
+ */
+library Applications {
+    uint256 internal constant MAX_RATING = 500;
+
+    /**
+     * @notice Sets the requirements a worker must meet to take or apply for a job.
+     * @param _requirements Requirements of the job.
+     * @param _minBadge Minimum badge of the worker.
+     * @param _minAverageRating Minimum average rating of the worker, up to MAX_RATING (5 stars).
+     * @param _applicationsOnly Whether the job only accepts workers through applications.
+     */
+    function setRequirements(
+        SuperHelper.JobRequirements storage _requirements,
+        SuperHelper.Badge _minBadge,
+        uint256 _minAverageRating,
+        bool _applicationsOnly
+    ) public {
+        require(_minAverageRating <= MAX_RATING, "The minimum rating can't exceed 5 stars");
+
+        _requirements.minBadge = _minBadge;
+        _requirements.minAverageRating = _minAverageRating;
+        _requirements.applicationsOnly = _applicationsOnly;
+    }
+
+    /**
+     * @notice Records the application of a worker, who can apply once per job.
+     * @param _applications Applications of the job, by worker.
+     * @param _applicants Workers who applied for the job, in application order.
+     * @param _worker Address of the applicant.
+     * @param _messageHash Hash of an off-chain message to the creator, zero if none.
+     * @param _proposedPrice Price asked by the worker, zero to accept the job reward.
+     */
+    function add(
+        mapping(address => SuperHelper.Application) storage _applications,
+        address[] storage _applicants,
+        address _worker,
+        bytes32 _messageHash,
+        uint256 _proposedPrice
+    ) public {
+        require(!_applications[_worker].hasApplied, "Already applied");
+
+        _applications[_worker] = SuperHelper.Application({
+            messageHash: _messageHash,
+            proposedPrice: _proposedPrice,
+            hasApplied: true
+        });
+        _applicants.push(_worker);
+    }
+
+    /**
+     * @notice Returns the price agreed with an applicant: its proposed price, or the job reward if none.
+     * @param _application Application of the accepted worker.
+     * @param _reward Current reward of the job.
+     */
+    function price(SuperHelper.Application storage _application, uint256 _reward) public view returns (uint256) {
+        require(_application.hasApplied, "This user did not apply");
+
+        return _application.proposedPrice == 0 ? _reward : _application.proposedPrice;
+    }
+}
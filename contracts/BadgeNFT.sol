@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/interfaces/IERC4906.sol";
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+
+import "./SuperHelper.sol";
+
+/**
+ * @title BadgeNFT
+ * @notice Soulbound token showing the SuperHelper badge of a user in wallets and marketplaces.
+ * Each user holds at most one token, whose id is their address, minted with their first badge and upgraded
+ * in place afterwards. The badge level is always read from SuperHelper, so anyone can sync a token.
+ */
+contract BadgeNFT is ERC721, IERC4906 {
+    SuperHelper public immutable superHelper;
+
+    mapping(uint256 => SuperHelper.Badge) public levels;
+
+    event BadgeSynced(address indexed user, SuperHelper.Badge level);
+
+    error Soulbound(uint256 tokenId);
+    error NoBadge(address user);
+
+    /**
+     * @param _superHelper Marketplace awarding the badges.
+     */
+    constructor(SuperHelper _superHelper) ERC721("SuperHelper Badge", "SHBADGE") {
+        superHelper = _superHelper;
+    }
+
+    /**
+     * @notice Mints or upgrades the badge token of a user to their current SuperHelper badge.
+     * Called by SuperHelper on each badge upgrade, callable by anyone for users who earned a badge before.
+     * @param _user Address of the badge holder.
+     */
+    function sync(address _user) external {
+        (,,, SuperHelper.Badge badgeLevel,) = superHelper.users(_user);
+        require(badgeLevel != SuperHelper.Badge.NONE, NoBadge(_user));
+
+        uint256 tokenId = tokenIdOf(_user);
+        if (levels[tokenId] == badgeLevel) {
+            return;
+        }
+
+        if (_ownerOf(tokenId) == address(0)) {
+            _mint(_user, tokenId);
+        } else {
+            emit MetadataUpdate(tokenId);
+        }
+        levels[tokenId] = badgeLevel;
+
+        emit BadgeSynced(_user, badgeLevel);
+    }
+
+    /**
+     * @notice Returns the id of the badge token of a user, minted or not.
+     */
+    function tokenIdOf(address _user) public pure returns (uint256) {
+        return uint256(uint160(_user));
+    }
+
+    /**
+     * @notice Returns the JSON metadata of a badge, with its SVG image, as a base64 data URI.
+     */
+    function tokenURI(uint256 _tokenId) public view override returns (string memory) {
+        _requireOwned(_tokenId);
+
+        (string memory name, string memory color) = _style(levels[_tokenId]);
+        string memory image = Base64.encode(abi.encodePacked(
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 200">',
+            '<circle cx="100" cy="100" r="90" fill="', color, '"/>',
+            '<text x="100" y="108" font-family="sans-serif" font-size="24" text-anchor="middle">', name, '</text>',
+            '</svg>'
+        ));
+
+        return string.concat("data:application/json;base64,", Base64.encode(abi.encodePacked(
+            '{"name":"SuperHelper ', name, ' Badge",',
+            '"description":"Soulbound badge earned by completing SuperHelper jobs.",',
+            '"attributes":[{"trait_type":"Level","value":"', name, '"}],',
+            '"image":"data:image/svg+xml;base64,', image, '"}'
+        )));
+    }
+
+    /**
+     * @dev Advertises the ERC-4906 metadata update events emitted on upgrades.
+     */
+    function supportsInterface(bytes4 _interfaceId) public view override(ERC721, IERC165) returns (bool) {
+        return _interfaceId == bytes4(0x49064906) || super.supportsInterface(_interfaceId);
+    }
+
+    /**
+     * @dev Only mints go through, badges can't be transferred or burned.
+     */
+    function _update(address _to, uint256 _tokenId, address _auth) internal override returns (address) {
+        require(_ownerOf(_tokenId) == address(0), Soulbound(_tokenId));
+        return super._update(_to, _tokenId, _auth);
+    }
+
+    /**
+     * @dev Name and color of a badge level.
+     */
+    function _style(SuperHelper.Badge _level) private pure returns (string memory name, string memory color) {
+        if (_level == SuperHelper.Badge.GOLD) {
+            return ("Gold", "#FFD700");
+        }
+        if (_level == SuperHelper.Badge.SILVER) {
+            return ("Silver", "#C0C0C0");
+        }
+        return ("Bronze", "#CD7F32");
+    }
+}
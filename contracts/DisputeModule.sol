@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "./SuperHelper.sol";
+
+/**
+ * @title DisputeModule
+ * @notice Lets a pool of experienced users arbitrate the disputes of SuperHelper.
+ * Arbiters vote on the share of the reward the worker deserves during a voting window,
+ * the average of the votes is applied once a quorum is reached and the voters share a fee taken from the reward.
+ */
+contract DisputeModule {
+    uint256 public constant VOTING_PERIOD = 3 days;
+    uint256 public constant QUORUM = 3;
+    uint256 public constant ARBITERS_FEE_BPS = 200;
+
+    SuperHelper public immutable superHelper;
+    SuperHelper.Badge public immutable minArbiterBadge;
+
+    mapping(address => bool) public isArbiter;
+    uint256 public arbiterCount;
+
+    mapping(uint256 => address[]) private voters;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    mapping(uint256 => uint256) public workerShareSum;
+    mapping(uint256 => bool) public isFinalized;
+
+    event ArbiterRegistered(address indexed arbiter);
+    event ArbiterResigned(address indexed arbiter);
+    event DisputeVoted(address indexed arbiter, uint256 indexed jobId, uint256 workerShareBps);
+    event DisputeFinalized(uint256 indexed jobId, uint256 workerShareBps, uint256 votes);
+
+    error BadgeTooLow(SuperHelper.Badge current, SuperHelper.Badge required);
+    error VotingClosed(uint256 votingEnd);
+    error VotingNotOver(uint256 votingEnd);
+    error QuorumNotReached(uint256 votes, uint256 quorum);
+
+    /**
+     * @param _superHelper Marketplace whose disputes are arbitrated.
+     * @param _minArbiterBadge Minimum badge required to join the arbiter pool.
+     */
+    constructor(SuperHelper _superHelper, SuperHelper.Badge _minArbiterBadge) {
+        superHelper = _superHelper;
+        minArbiterBadge = _minArbiterBadge;
+    }
+
+    /**
+     * @notice Joins the arbiter pool. The caller must be registered with at least the minimum badge.
+     */
+    function registerAsArbiter() external {
+        require(!isArbiter[msg.sender], "Already an arbiter");
+
+        (,,, SuperHelper.Badge badgeLevel, bool isRegistered) = superHelper.users(msg.sender);
+        require(isRegistered, "You're not registered");
+        require(badgeLevel >= minArbiterBadge, BadgeTooLow(badgeLevel, minArbiterBadge));
+
+        isArbiter[msg.sender] = true;
+        arbiterCount++;
+
+        emit ArbiterRegistered(msg.sender);
+    }
+
+    /**
+     * @notice Leaves the arbiter pool. Votes already cast are kept.
+     */
+    function resignAsArbiter() external {
+        require(isArbiter[msg.sender], "Not an arbiter");
+
+        isArbiter[msg.sender] = false;
+        arbiterCount--;
+
+        emit ArbiterResigned(msg.sender);
+    }
+
+    /**
+     * @notice Votes on a disputed job during its voting window.
+     * @param _jobId ID of the disputed job.
+     * @param _workerShareBps Share of the reward the worker deserves, in basis points (10000 = everything).
+     */
+    function vote(uint256 _jobId, uint256 _workerShareBps) external {
+        require(isArbiter[msg.sender], "Not an arbiter");
+        require(!hasVoted[_jobId][msg.sender], "Already voted");
+        require(_workerShareBps <= superHelper.MAX_BPS(), "Worker share can't exceed 100%");
+
+        (address creator, address worker, uint256 votingEnd) = _getDispute(_jobId);
+        require(msg.sender != creator && msg.sender != worker, "Parties can't arbitrate their own dispute");
+        require(block.timestamp <= votingEnd, VotingClosed(votingEnd));
+
+        hasVoted[_jobId][msg.sender] = true;
+        voters[_jobId].push(msg.sender);
+        workerShareSum[_jobId] += _workerShareBps;
+
+        emit DisputeVoted(msg.sender, _jobId, _workerShareBps);
+    }
+
+    /**
+     * @notice Applies the average vote once the voting window is over and the quorum is reached.
+     * Callable by anyone, once: the dispute is marked as finalized before the arbiters are paid.
+     * @param _jobId ID of the disputed job.
+     */
+    function finalize(uint256 _jobId) external {
+        (,, uint256 votingEnd) = _getDispute(_jobId);
+        require(block.timestamp > votingEnd, VotingNotOver(votingEnd));
+        require(!isFinalized[_jobId], "Dispute already finalized");
+
+        address[] memory jobVoters = voters[_jobId];
+        require(jobVoters.length >= QUORUM, QuorumNotReached(jobVoters.length, QUORUM));
+
+        uint256 workerShareBps = workerShareSum[_jobId] / jobVoters.length;
+        isFinalized[_jobId] = true;
+        superHelper.resolveDispute(_jobId, workerShareBps, jobVoters, ARBITERS_FEE_BPS);
+
+        emit DisputeFinalized(_jobId, workerShareBps, jobVoters.length);
+    }
+
+    /**
+     * @notice Returns the arbiters who voted on a job.
+     */
+    function getVoters(uint256 _jobId) external view returns (address[] memory) {
+        return voters[_jobId];
+    }
+
+    /**
+     * @dev Reads the parties and the end of the voting window of a disputed job.
+     */
+    function _getDispute(uint256 _jobId) private view returns (address creator, address worker, uint256 votingEnd) {
+        SuperHelper.JobStatus status;
+        uint256 disputedAt;
+        (creator, worker,,,, status,,,,, disputedAt,) = superHelper.jobs(_jobId);
+
+        require(status == SuperHelper.JobStatus.DISPUTED, SuperHelper.JobStatusIncorrect(status, SuperHelper.JobStatus.DISPUTED));
+        votingEnd = disputedAt + VOTING_PERIOD;
+    }
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {HelperToken} from "./HelperToken.sol";
+
+/**
+ * @title Economics
+ * @notice Bounds of the economic parameters the owner sets on SuperHelper.
+ * @dev Linked library, deployed separately to keep SuperHelper under the contract size limit.
+ */
+library Economics {
+    uint256 internal constant MAX_BADGE_THRESHOLD = 1_000;
+    uint256 internal constant MAX_DEPRECIATION_RATE = 20;
+    uint256 internal constant MIN_INACTIVITY_PERIOD = 7 days;
+    uint256 internal constant MAX_INACTIVITY_PERIOD = 365 days;
+    uint256 internal constant MAX_WELCOME_GRANT = 1_000;
+
+    /**
+     * @notice Reverts unless the badge thresholds are increasing and below MAX_BADGE_THRESHOLD.
+     */
+    function checkBadgeThresholds(uint256 _bronze, uint256 _silver, uint256 _gold) public pure {
+        require(_bronze > 0 && _bronze < _silver && _silver < _gold, "Badge thresholds must be increasing");
+        require(_gold <= MAX_BADGE_THRESHOLD, "Badge threshold too high");
+    }
+
+    /**
+     * @notice Reverts unless the inactivity period and the depreciation rates are within bounds,
+     * the rates not increasing with the badge.
+     */
+    function checkDepreciation(uint256 _inactivityPeriod, uint256[4] memory _rates) public pure {
+        require(
+            _inactivityPeriod >= MIN_INACTIVITY_PERIOD && _inactivityPeriod <= MAX_INACTIVITY_PERIOD,
+            "Inactivity period out of bounds"
+        );
+        require(_rates[0] <= MAX_DEPRECIATION_RATE, "Depreciation rate too high");
+        require(
+            _rates[0] >= _rates[1] && _rates[1] >= _rates[2] && _rates[2] >= _rates[3],
+            "Depreciation rates can't increase with the badge"
+        );
+    }
+
+    /**
+     * @notice Reverts unless the welcome grant is between 1 unit and MAX_WELCOME_GRANT tokens.
+     */
+    function checkWelcomeGrant(uint256 _amount, address _helperToken) public view {
+        require(
+            _amount > 0 && _amount <= MAX_WELCOME_GRANT * HelperToken(_helperToken).ONE_TOKEN(),
+            "Welcome grant out of bounds"
+        );
+    }
+}
@@ -3,12 +3,13 @@ pragma solidity 0.8.28;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
-contract HelperToken is ERC20, Ownable {
+contract HelperToken is ERC20, ERC20Permit, Ownable {
     uint8 public constant DECIMALS = 2;
     uint256 public constant ONE_TOKEN = 10 ** DECIMALS;
 
-    constructor() ERC20("HELPER", "HELP") Ownable(msg.sender) {
+    constructor() ERC20("HELPER", "HELP") ERC20Permit("HELPER") Ownable(msg.sender) {
         _mint(msg.sender, 1_000_000_000 * ONE_TOKEN);
     }
 
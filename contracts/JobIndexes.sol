@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {SuperHelper} from "./SuperHelper.sol";
+
+/**
+ * @title JobIndexes
+ * @notice Lists of the jobs of each creator and of each worker of SuperHelper.
+ * @dev Linked library, deployed separately to keep SuperHelper under the contract size limit.
+ */
+library JobIndexes {
+    /**
+     * @notice Adds a batch of the jobs created before the indexes to the jobs of their creators and workers.
+     * @param _backfill Progress of the backfill, up to the jobCount of the upgrade introducing the indexes.
+     * @param _jobs Jobs of the marketplace, by ID.
+     * @param _creatorJobIds Jobs of each creator.
+     * @param _workerJobIds Jobs of each worker.
+     * @param _to ID after the last job of the batch.
+     */
+    function backfill(
+        SuperHelper.JobIdsBackfill storage _backfill,
+        mapping(uint256 => SuperHelper.Job) storage _jobs,
+        mapping(address => uint256[]) storage _creatorJobIds,
+        mapping(address => uint256[]) storage _workerJobIds,
+        uint256 _to
+    ) public {
+        require(_to >= _backfill.next && _to <= _backfill.end, "Invalid job range");
+
+        for (uint256 id = _backfill.next; id < _to; id++) {
+            SuperHelper.Job storage job = _jobs[id];
+            _creatorJobIds[job.creator].push(id);
+            if (job.worker != address(0)) {
+                _workerJobIds[job.worker].push(id);
+            }
+        }
+        _backfill.next = _to;
+    }
+
+    /**
+     * @notice Removes an abandoned job from the jobs of its worker, searching from the most recent one.
+     * The last job takes its place, so the order of the worker's jobs is not kept.
+     * @param _ids Jobs of the worker.
+     * @param _jobId ID of the abandoned job.
+     */
+    function removeWorkerJob(uint256[] storage _ids, uint256 _jobId) public {
+        for (uint256 i = _ids.length; i > 0; i--) {
+            if (_ids[i - 1] == _jobId) {
+                _ids[i - 1] = _ids[_ids.length - 1];
+                _ids.pop();
+                return;
+            }
+        }
+    }
+}
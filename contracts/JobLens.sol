@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "./SuperHelper.sol";
+
+/**
+ * @title JobLens
+ * @notice Read-only views returning pages of SuperHelper jobs, filtered by status, creator or worker, so that
+ * clients query the marketplace in a few calls instead of reading the jobs one at a time.
+ * The views live outside of SuperHelper to keep its code under the contract size limit and are meant
+ * for off-chain calls: the status filter reads every job.
+ */
+contract JobLens {
+    SuperHelper public immutable superHelper;
+
+    /**
+     * @param _superHelper Marketplace whose jobs are read.
+     */
+    constructor(SuperHelper _superHelper) {
+        superHelper = _superHelper;
+    }
+
+    /**
+     * @notice Returns several jobs in one call. Reverts if one of the jobs does not exist.
+     * @param _ids IDs of the jobs.
+     */
+    function getJobs(uint256[] memory _ids) public view returns (SuperHelper.Job[] memory jobs) {
+        uint256 jobCount = superHelper.jobCount();
+
+        jobs = new SuperHelper.Job[](_ids.length);
+        for (uint256 i = 0; i < _ids.length; i++) {
+            require(_ids[i] < jobCount, "Job does not exist");
+            jobs[i] = _getJob(_ids[i]);
+        }
+    }
+
+    /**
+     * @notice Returns a page of the jobs in a status, by increasing ID.
+     * @param _status Status of the jobs.
+     * @param _offset Number of matching jobs skipped.
+     * @param _limit Maximum number of jobs returned, fewer are returned on the last page.
+     * @return ids IDs of the returned jobs.
+     * @return jobs Jobs, in the same order as the IDs.
+     */
+    function getJobsByStatus(
+        SuperHelper.JobStatus _status,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory ids, SuperHelper.Job[] memory jobs) {
+        uint256 jobCount = superHelper.jobCount();
+        SuperHelper.Job[] memory page = new SuperHelper.Job[](jobCount < _limit ? jobCount : _limit);
+        uint256[] memory pageIds = new uint256[](page.length);
+
+        uint256 found;
+        for (uint256 id = 0; id < jobCount && found < page.length; id++) {
+            SuperHelper.Job memory job = _getJob(id);
+            if (job.status != _status) {
+                continue;
+            }
+            if (_offset > 0) {
+                _offset--;
+            } else {
+                pageIds[found] = id;
+                page[found] = job;
+                found++;
+            }
+        }
+
+        ids = new uint256[](found);
+        jobs = new SuperHelper.Job[](found);
+        for (uint256 i = 0; i < found; i++) {
+            ids[i] = pageIds[i];
+            jobs[i] = page[i];
+        }
+    }
+
+    /**
+     * @notice Returns a page of the jobs created by a user, by creation order.
+     * @param _creator Address of the creator.
+     * @param _offset Number of jobs skipped.
+     * @param _limit Maximum number of jobs returned, fewer are returned on the last page.
+     * @return ids IDs of the returned jobs.
+     * @return jobs Jobs, in the same order as the IDs.
+     */
+    function getJobsByCreator(
+        address _creator,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory ids, SuperHelper.Job[] memory jobs) {
+        ids = _page(superHelper.getCreatorJobIds(_creator), _offset, _limit);
+        jobs = getJobs(ids);
+    }
+
+    /**
+     * @notice Returns a page of the jobs assigned to a worker, abandoned ones excepted.
+     * The jobs are listed by assignment order, except that an abandoned job is replaced by the last one.
+     * @param _worker Address of the worker.
+     * @param _offset Number of jobs skipped.
+     * @param _limit Maximum number of jobs returned, fewer are returned on the last page.
+     * @return ids IDs of the returned jobs.
+     * @return jobs Jobs, in the same order as the IDs.
+     */
+    function getJobsByWorker(
+        address _worker,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory ids, SuperHelper.Job[] memory jobs) {
+        ids = _page(superHelper.getWorkerJobIds(_worker), _offset, _limit);
+        jobs = getJobs(ids);
+    }
+
+    /**
+     * @dev Copies the page [_offset, _offset + _limit[ of a list of job IDs, shorter at the end of the list.
+     */
+    function _page(uint256[] memory _ids, uint256 _offset, uint256 _limit) private pure returns (uint256[] memory page) {
+        uint256 count = _offset < _ids.length ? _ids.length - _offset : 0;
+
+        page = new uint256[](count < _limit ? count : _limit);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _ids[_offset + i];
+        }
+    }
+
+    /**
+     * @dev Reads a job through the public getter of SuperHelper.
+     */
+    function _getJob(uint256 _id) private view returns (SuperHelper.Job memory job) {
+        (
+            job.creator,
+            job.worker,
+            job.description,
+            job.stars,
+            job.reward,
+            job.status,
+            job.deliverable,
+            job.duration,
+            job.deadline,
+            job.submittedAt,
+            job.disputedAt,
+            job.released
+        ) = superHelper.jobs(_id);
+    }
+}
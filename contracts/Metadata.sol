@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {SuperHelper} from "./SuperHelper.sol";
+
+/**
+ * @title Metadata
+ * @notice Storage of the descriptions and deliverables of SuperHelper jobs, and of the category, content hash and tags
+ * of the jobs described off-chain.
+ * @dev Linked library, deployed separately to keep SuperHelper under the contract size limit.
+ */
+library Metadata {
+    uint256 internal constant MAX_TAGS = 5;
+
+    /**
+     * @notice Stores the metadata of a new job and emits JobMetadataSet from SuperHelper.
+     * @param _jobMetadata Metadata of the jobs, by job ID.
+     * @param _jobId ID of the job.
+     * @param _metadata Category, keccak256 hash of the description and up to MAX_TAGS tags of the job.
+     */
+    function set(
+        mapping(uint256 => SuperHelper.JobMetadata) storage _jobMetadata,
+        uint256 _jobId,
+        SuperHelper.JobMetadata calldata _metadata
+    ) public {
+        require(_metadata.contentHash != bytes32(0), "The content hash is required");
+        require(_metadata.tags.length <= MAX_TAGS, "Too many tags");
+
+        _jobMetadata[_jobId] = _metadata;
+        emit SuperHelper.JobMetadataSet(_jobId, _metadata.category, _metadata.contentHash, _metadata.tags);
+    }
+
+    /**
+     * @notice Replaces the description of a job, or the URI of its off-chain description.
+     * @param _job Updated job.
+     * @param _description New job details, or URI of the off-chain description.
+     */
+    function setDescription(SuperHelper.Job storage _job, string calldata _description) public {
+        _job.description = _description;
+    }
+
+    /**
+     * @notice Stores the deliverable of a job submitted by its worker and emits JobSubmitted from SuperHelper.
+     * @param _job Submitted job.
+     * @param _jobId ID of the job.
+     * @param _deliverable Reference to the delivered work (URI or content hash).
+     */
+    function submit(SuperHelper.Job storage _job, uint256 _jobId, string calldata _deliverable) public {
+        _job.deliverable = _deliverable;
+        _job.status = SuperHelper.JobStatus.SUBMITTED;
+        _job.submittedAt = block.timestamp;
+
+        emit SuperHelper.JobSubmitted(_job.worker, _jobId, _deliverable);
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {SuperHelper} from "./SuperHelper.sol";
+
+/**
+ * @title Milestones
+ * @notice Storage of the milestones of SuperHelper jobs paid in stages.
+ * @dev Linked library, deployed separately to keep SuperHelper under the contract size limit.
+ */
+library Milestones {
+    /**
+     * @notice Appends the milestones of a new job.
+     * @param _milestones Milestones of the job, empty before the call.
+     * @param _descriptions Details of each milestone.
+     * @param _amounts Amount released for each milestone, in the same order as the descriptions.
+     * @return total Sum of the milestone amounts, escrowed as the job reward.
+     */
+    function add(
+        SuperHelper.Milestone[] storage _milestones,
+        string[] calldata _descriptions,
+        uint256[] calldata _amounts
+    ) public returns (uint256 total) {
+        require(_descriptions.length > 0, "At least one milestone is required");
+        require(_descriptions.length == _amounts.length, "Milestones length mismatch");
+
+        for (uint256 i = 0; i < _amounts.length; i++) {
+            require(_amounts[i] > 0, "Milestone amount must be greater than 0");
+            total += _amounts[i];
+            _milestones.push(SuperHelper.Milestone({description: _descriptions[i], amount: _amounts[i], released: false}));
+        }
+    }
+
+    /**
+     * @notice Marks a milestone of a taken or submitted job as released, once, and adds it to the released reward.
+     * @param _job Job of the milestone.
+     * @param _milestones Milestones of the job.
+     * @param _index Index of the released milestone.
+     * @return amount Amount of the milestone, to pay to the worker.
+     */
+    function release(
+        SuperHelper.Job storage _job,
+        SuperHelper.Milestone[] storage _milestones,
+        uint256 _index
+    ) public returns (uint256 amount) {
+        require(
+            _job.status == SuperHelper.JobStatus.TAKEN || _job.status == SuperHelper.JobStatus.SUBMITTED,
+            SuperHelper.JobStatusIncorrect(_job.status, SuperHelper.JobStatus.TAKEN)
+        );
+        require(_index < _milestones.length, "Milestone does not exist");
+
+        SuperHelper.Milestone storage milestone = _milestones[_index];
+        require(!milestone.released, "Milestone already released");
+
+        milestone.released = true;
+        amount = milestone.amount;
+        _job.released += amount;
+    }
+}
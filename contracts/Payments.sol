@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+import {SuperHelper} from "./SuperHelper.sol";
+
+/**
+ * @title Payments
+ * @notice Token and ETH transfers in and out of SuperHelper. The functions run in the context of SuperHelper,
+ * which is the holder of the escrowed tokens.
+ * @dev Linked library, deployed separately to keep SuperHelper under the contract size limit: every token call
+ * of SuperHelper goes through it instead of being repeated in its code. Tokens are passed as addresses,
+ * contract types not being valid in the ABI of a public library function. ETH is designated by NATIVE_TOKEN.
+ */
+library Payments {
+    using SafeERC20 for IERC20;
+
+    address internal constant NATIVE_TOKEN = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
+    /**
+     * @notice Transfers tokens from an account to SuperHelper after checking balance and allowance.
+     * ETH is not pulled but must be the value sent with the call, which must be empty for a token. Pulling
+     * nothing checks that no ETH was sent by mistake.
+     */
+    function pull(address _token, address _from, uint256 _amount) public {
+        uint256 value = _token == NATIVE_TOKEN ? _amount : 0;
+        require(msg.value == value, SuperHelper.IncorrectValue(msg.value, value));
+        if (_token == NATIVE_TOKEN || _amount == 0) {
+            return;
+        }
+
+        IERC20 token = IERC20(_token);
+        require(token.balanceOf(_from) >= _amount, SuperHelper.InsufficientFunds(_amount));
+        require(token.allowance(_from, address(this)) >= _amount, SuperHelper.InsufficientAllowance(_amount));
+        token.safeTransferFrom(_from, address(this), _amount);
+    }
+
+    /**
+     * @notice Transfers tokens from an account to SuperHelper if its allowance covers them along with another
+     * expense pulled afterwards, after checking that its balance covers both.
+     * @param _deferrable Whether the tokens can be left uncollected when the allowance is short, instead of reverting.
+     * @return collected Whether the tokens were transferred.
+     */
+    function collect(
+        address _token,
+        address _from,
+        uint256 _amount,
+        uint256 _otherExpense,
+        bool _deferrable
+    ) public returns (bool collected) {
+        IERC20 token = IERC20(_token);
+        uint256 required = _amount + _otherExpense;
+        require(token.balanceOf(_from) >= required, SuperHelper.InsufficientFunds(required));
+
+        collected = token.allowance(_from, address(this)) >= required;
+        require(collected || _deferrable, SuperHelper.InsufficientAllowance(required));
+        if (collected) {
+            token.safeTransferFrom(_from, address(this), _amount);
+        }
+    }
+
+    /**
+     * @notice Transfers tokens or ETH of SuperHelper.
+     */
+    function send(address _token, address _to, uint256 _amount) public {
+        if (_token == NATIVE_TOKEN) {
+            (bool success,) = _to.call{value: _amount}("");
+            require(success, "ETH transfer failed");
+        } else {
+            IERC20(_token).safeTransfer(_to, _amount);
+        }
+    }
+
+    /**
+     * @notice Transfers tokens or ETH of SuperHelper that are not escrowed for jobs.
+     * @param _escrowed Amounts escrowed for jobs, by token.
+     */
+    function withdraw(mapping(address => uint256) storage _escrowed, address _token, address _to, uint256 _amount) public {
+        require(_amount <= balanceOf(_token, address(this)) - _escrowed[_token], SuperHelper.InsufficientFunds(_amount));
+        send(_token, _to, _amount);
+    }
+
+    /**
+     * @notice Pays the same amount of tokens of SuperHelper to each of a list of registered users.
+     * @param _users Users of SuperHelper.
+     */
+    function redistribute(
+        mapping(address => SuperHelper.User) storage _users,
+        address _token,
+        address[] calldata _recipients,
+        uint256 _amount
+    ) public {
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            require(_users[_recipients[i]].isRegistered, "Recipient is not registered");
+            send(_token, _recipients[i], _amount);
+            emit SuperHelper.DepreciationRedistributed(_recipients[i], _amount);
+        }
+    }
+
+    /**
+     * @notice Token or ETH balance of an account.
+     */
+    function balanceOf(address _token, address _account) public view returns (uint256) {
+        return _token == NATIVE_TOKEN ? _account.balance : IERC20(_token).balanceOf(_account);
+    }
+}
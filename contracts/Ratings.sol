@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {SuperHelper} from "./SuperHelper.sol";
+
+/**
+ * @title Ratings
+ * @notice Ratings given to each other by the creators and the workers of SuperHelper jobs.
+ * @dev Linked library, deployed separately to keep SuperHelper under the contract size limit.
+ */
+library Ratings {
+    /**
+     * @notice Records the rating given to the worker of a submitted job by its creator, when reviewing it.
+     * The rating of a disputed job is kept on the job only, out of the rating of the worker.
+     * @param _job Job reviewed.
+     * @param _workerRatings Rating aggregates of the workers.
+     * @param _rating Rating from 1 to 5 inclusive, 0 being only accepted to dispute the job.
+     * @param _isDisputed Whether the review opens a dispute.
+     * @param _tip Tip paid with the review, only accepted with a 5-star review.
+     */
+    function rateWorker(
+        SuperHelper.Job storage _job,
+        mapping(address => SuperHelper.Rating) storage _workerRatings,
+        uint8 _rating,
+        bool _isDisputed,
+        uint256 _tip
+    ) public {
+        require(_rating >= 0 && _rating <= 5, "The rate has to be between 0 and 5");
+        require(_rating > 0 || _isDisputed, "A completed job must be rated at least 1 star");
+        require(_tip == 0 || (_rating == 5 && !_isDisputed), "Only a 5-star review can come with a tip");
+
+        _job.stars = _rating;
+        if (!_isDisputed) {
+            _workerRatings[_job.worker].totalStars += _rating;
+            _workerRatings[_job.worker].count++;
+        }
+    }
+
+    /**
+     * @notice Records the rating of the creator of a finished job, which its worker can give once.
+     * @param _job Job rated, which must be COMPLETED, REFUNDED or SETTLED.
+     * @param _creatorStars Ratings given to the creators, by job ID.
+     * @param _creatorRatings Rating aggregates of the creators.
+     * @param _jobId ID of the job.
+     * @param _worker Address of the rater, who must be the worker of the job.
+     * @param _rating Rating from 1 to 5 inclusive.
+     */
+    function rateCreator(
+        SuperHelper.Job storage _job,
+        mapping(uint256 => uint8) storage _creatorStars,
+        mapping(address => SuperHelper.Rating) storage _creatorRatings,
+        uint256 _jobId,
+        address _worker,
+        uint8 _rating
+    ) public {
+        require(_worker == _job.worker, "Only the worker can rate the creator");
+        require(
+            _job.status == SuperHelper.JobStatus.COMPLETED
+                || _job.status == SuperHelper.JobStatus.REFUNDED
+                || _job.status == SuperHelper.JobStatus.SETTLED,
+            SuperHelper.JobStatusIncorrect(_job.status, SuperHelper.JobStatus.COMPLETED)
+        );
+        require(_rating >= 1 && _rating <= 5, "The rate has to be between 1 and 5");
+        require(_creatorStars[_jobId] == 0, "The creator is already rated");
+
+        _creatorStars[_jobId] = _rating;
+        _creatorRatings[_job.creator].totalStars += _rating;
+        _creatorRatings[_job.creator].count++;
+    }
+}
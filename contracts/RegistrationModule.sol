@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+import "./SuperHelper.sol";
+
+/**
+ * @title RegistrationModule
+ * @notice Keeps fresh addresses from farming the SuperHelper welcome grant. Depending on the registration mode
+ * of SuperHelper, new users register with a proof that they belong to a Merkle allowlist, or with an EIP-712
+ * invitation signed by the owner or by a user holding at least the BRONZE badge, each user inviting up to a quota.
+ * Relayed registrations are supported through the forwarder trusted by SuperHelper.
+ */
+contract RegistrationModule is ERC2771Context, EIP712 {
+    bytes32 public constant INVITATION_TYPEHASH =
+        keccak256("Invitation(address invitee,address inviter,uint256 deadline)");
+
+    SuperHelper public immutable superHelper;
+
+    bytes32 public allowlistRoot;
+    uint256 public invitationQuota;
+    mapping(address => uint256) public invitationsSent;
+
+    event AllowlistRootUpdated(bytes32 root);
+    event InvitationQuotaUpdated(uint256 quota);
+    event InvitationUsed(address indexed inviter, address indexed invitee);
+
+    error BadgeTooLow(SuperHelper.Badge current, SuperHelper.Badge required);
+    error DeadlinePassed(uint256 deadline);
+    error InvitationQuotaReached(uint256 quota);
+
+    /**
+     * @param _superHelper Marketplace whose users register through the module.
+     * @param _invitationQuota Number of users each BRONZE+ user can invite.
+     */
+    constructor(SuperHelper _superHelper, uint256 _invitationQuota)
+        ERC2771Context(address(0))
+        EIP712("SuperHelperRegistration", "1")
+    {
+        superHelper = _superHelper;
+        invitationQuota = _invitationQuota;
+    }
+
+    /**
+     * @dev Modifier to ensure only the owner of SuperHelper configures the module.
+     */
+    modifier onlySuperHelperOwner() {
+        require(_msgSender() == superHelper.owner(), Ownable.OwnableUnauthorizedAccount(_msgSender()));
+        _;
+    }
+
+    /**
+     * @notice Registers the sender if the allowlist contains their address.
+     * @param _proof Merkle proof of the sender, the leaves being the double hash of the ABI-encoded addresses.
+     */
+    function registerWithProof(bytes32[] calldata _proof) external {
+        _requireRegistrationMode(SuperHelper.RegistrationMode.ALLOWLIST);
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(_msgSender()))));
+        require(MerkleProof.verifyCalldata(_proof, allowlistRoot, leaf), "Address not in the allowlist");
+
+        superHelper.registerUser(_msgSender());
+    }
+
+    /**
+     * @notice Registers the sender with an invitation. Invitations of the SuperHelper owner are unlimited,
+     * other inviters need at least the BRONZE badge and use one invitation of their quota.
+     * @param _inviter Address that signed the invitation.
+     * @param _deadline Timestamp after which the invitation can't be used.
+     * @param _signature EIP-712 signature of the invitation by the inviter.
+     */
+    function registerWithInvitation(address _inviter, uint256 _deadline, bytes calldata _signature) external {
+        _requireRegistrationMode(SuperHelper.RegistrationMode.INVITATION);
+        require(block.timestamp <= _deadline, DeadlinePassed(_deadline));
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(INVITATION_TYPEHASH, _msgSender(), _inviter, _deadline)));
+        require(ECDSA.recover(digest, _signature) == _inviter, "Invalid invitation signature");
+
+        if (_inviter != superHelper.owner()) {
+            (,,, SuperHelper.Badge badgeLevel,) = superHelper.users(_inviter);
+            require(badgeLevel >= SuperHelper.Badge.BRONZE, BadgeTooLow(badgeLevel, SuperHelper.Badge.BRONZE));
+            require(invitationsSent[_inviter] < invitationQuota, InvitationQuotaReached(invitationQuota));
+
+            invitationsSent[_inviter]++;
+        }
+
+        superHelper.registerUser(_msgSender());
+        emit InvitationUsed(_inviter, _msgSender());
+    }
+
+    /**
+     * @notice Sets the root of the Merkle tree of the allowlisted addresses.
+     * Only callable by the owner of SuperHelper.
+     */
+    function setAllowlistRoot(bytes32 _root) external onlySuperHelperOwner {
+        allowlistRoot = _root;
+        emit AllowlistRootUpdated(_root);
+    }
+
+    /**
+     * @notice Sets the number of users each BRONZE+ user can invite. Invitations already sent are kept.
+     * Only callable by the owner of SuperHelper.
+     */
+    function setInvitationQuota(uint256 _quota) external onlySuperHelperOwner {
+        invitationQuota = _quota;
+        emit InvitationQuotaUpdated(_quota);
+    }
+
+    /**
+     * @notice Returns the number of invitations an inviter can still sign.
+     */
+    function remainingInvitations(address _inviter) external view returns (uint256) {
+        uint256 sent = invitationsSent[_inviter];
+        return sent < invitationQuota ? invitationQuota - sent : 0;
+    }
+
+    /**
+     * @notice Relays are accepted from the forwarder trusted by SuperHelper.
+     */
+    function trustedForwarder() public view override returns (address) {
+        return superHelper.trustedForwarder();
+    }
+
+    /**
+     * @dev Reverts unless SuperHelper registers its users in the given mode.
+     */
+    function _requireRegistrationMode(SuperHelper.RegistrationMode _mode) private view {
+        SuperHelper.RegistrationMode mode = superHelper.registrationMode();
+        require(mode == _mode, SuperHelper.RegistrationModeIncorrect(mode, _mode));
+    }
+}
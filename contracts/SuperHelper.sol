@@ -2,23 +2,80 @@
 pragma solidity 0.8.28;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 
+import {BadgeNFT} from "./BadgeNFT.sol";
 import {HelperToken} from "./HelperToken.sol";
+import {Applications} from "./Applications.sol";
+import {Economics} from "./Economics.sol";
+import {JobIndexes} from "./JobIndexes.sol";
+import {Metadata} from "./Metadata.sol";
+import {Milestones} from "./Milestones.sol";
+import {Payments} from "./Payments.sol";
+import {Ratings} from "./Ratings.sol";
 
 /*
  * @title Contract for managing jobs and user rewards with HelperToken
  * @notice Allows registered users to create, accept, complete, and rate paid jobs
- * @dev The contract uses OpenZeppelin's Ownable for access control functionality.
+ * @dev The contract uses OpenZeppelin's Ownable for access control functionality, Pausable as circuit breaker
+ * and ERC2771Context so that a trusted forwarder can relay actions signed by users.
+ * It is deployed behind a transparent proxy whose ProxyAdmin is owned by the marketplace owner, who upgrades it:
+ * the state lives in the proxy, so new state variables must be appended after the existing ones.
  */
-contract SuperHelper is Ownable {
+contract SuperHelper is Initializable, Ownable, Pausable, ERC2771Context {
+    uint256 public constant REVIEW_PERIOD = 7 days;
+    uint256 public constant ABANDONMENT_PENALTY = 2;
+    uint256 public constant DISPUTE_TIMEOUT = 7 days;
+    uint256 public constant MAX_BPS = 10_000;
+    uint256 public constant MAX_ARBITERS_FEE_BPS = 1_000;
+    uint256 public constant RATING_PRECISION = 100;
+    uint256 public constant BRONZE_MIN_RATING = 300;
+    uint256 public constant SILVER_MIN_RATING = 350;
+    uint256 public constant GOLD_MIN_RATING = 400;
+    uint256 public constant MAX_BADGE_THRESHOLD = Economics.MAX_BADGE_THRESHOLD;
+    uint256 public constant MAX_DEPRECIATION_RATE = Economics.MAX_DEPRECIATION_RATE;
+    uint256 public constant MIN_INACTIVITY_PERIOD = Economics.MIN_INACTIVITY_PERIOD;
+    uint256 public constant MAX_INACTIVITY_PERIOD = Economics.MAX_INACTIVITY_PERIOD;
+    uint256 public constant MAX_WELCOME_GRANT = Economics.MAX_WELCOME_GRANT;
+    uint256 public constant MAX_DEPRECIATION_PERIODS = 60;
+    uint256 public constant MAX_TAGS = Metadata.MAX_TAGS;
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 1_000;
+    uint256 public constant FEE_DISCOUNT_PER_BADGE_BPS = 2_500;
+
     HelperToken public helperToken;
+    address public disputeModule;
+    address public registrationModule;
+    BadgeNFT public badgeNFT;
+    address private forwarder;
+
+    uint256 public bronzeThreshold;
+    uint256 public silverThreshold;
+    uint256 public goldThreshold;
+    uint256 public inactivityPeriod;
+    uint256[4] public depreciationRates;
+    uint256 public welcomeGrant;
+    uint256 public depreciationPool;
+    uint256 public totalEscrowed;
+    RegistrationMode public registrationMode;
+    bool public emergencyMode;
 
     enum JobStatus {
         CREATED,
         TAKEN,
         COMPLETED,
         CANCELLED,
-        DISPUTED
+        DISPUTED,
+        SUBMITTED,
+        REFUNDED,
+        SETTLED
+    }
+
+    enum RegistrationMode {
+        OPEN,
+        ALLOWLIST,
+        INVITATION
     }
 
     enum Badge {
@@ -35,56 +92,271 @@ contract SuperHelper is Ownable {
         uint8 stars;
         uint256 reward;
         JobStatus status;
+        string deliverable;
+        uint256 duration;
+        uint256 deadline;
+        uint256 submittedAt;
+        uint256 disputedAt;
+        uint256 released;
+    }
+
+    struct JobMetadata {
+        uint256 category;
+        bytes32 contentHash;
+        bytes32[] tags;
+    }
+
+    struct Milestone {
+        string description;
+        uint256 amount;
+        bool released;
+    }
+
+    struct JobRequirements {
+        Badge minBadge;
+        uint256 minAverageRating;
+        bool applicationsOnly;
+    }
+
+    struct Application {
+        bytes32 messageHash;
+        uint256 proposedPrice;
+        bool hasApplied;
+    }
+
+    struct Permit {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    struct Rating {
+        uint256 totalStars;
+        uint256 count;
+    }
+
+    struct JobIdsBackfill {
+        uint256 next;
+        uint256 end;
     }
 
     struct User {
         uint256 lastActivity;
         uint256 nbJobCompleted;
+        uint256 nbJobAbandoned;
         Badge badgeLevel;
         bool isRegistered;
     }
 
     mapping(address => User) public users;
     mapping(uint256 => Job) public jobs;
+    mapping(uint256 => Milestone[]) private milestones;
+    mapping(uint256 => JobRequirements) public jobRequirements;
+    mapping(uint256 => mapping(address => Application)) public applications;
+    mapping(uint256 => address[]) private applicants;
+    mapping(address => Rating) public workerRatings;
+    mapping(address => Rating) public creatorRatings;
+    mapping(uint256 => uint8) public creatorStars;
     uint256 public jobCount;
+    mapping(address => uint256[]) private creatorJobIds;
+    mapping(address => uint256[]) private workerJobIds;
+    mapping(uint256 => JobMetadata) private jobMetadata;
+    uint256 public platformFeeBps;
+    mapping(uint256 => address) public jobTokens;
+    mapping(address => bool) public paymentTokens;
+    mapping(address => uint256) public escrowedTokens;
+    bool private locked;
+    mapping(address => uint256) public deferredDepreciation;
+    JobIdsBackfill public jobIdsBackfill;
 
     event FirstRegistration(address indexed newUser);
     event JobAdded(address indexed creator, string description, uint256 price, uint256 id);
+    event JobTokenSet(uint256 id, address indexed token);
+    event JobUpdated(address indexed creator, uint256 id, string description, uint256 reward);
     event JobTaken(address indexed worker, uint256 id);
+    event JobAbandoned(address indexed worker, uint256 id);
+    event JobSubmitted(address indexed worker, uint256 id, string deliverable);
     event JobCompletedAndPaid(address indexed creator, address indexed worker, uint256 id, uint256 pricePaid, uint8 stars);
     event JobCompletedButNotPaid(address indexed creator, address indexed worker, uint256 id, uint256 pricePaid, uint8 stars);
     event JobCanceled(address indexed creator, uint256 id);
     event JobDisputed(address indexed creator, address indexed worker, uint256 id);
+    event JobPaymentClaimed(address indexed creator, address indexed worker, uint256 id, uint256 pricePaid);
+    event JobPaid(address indexed worker, uint256 indexed id, uint256 gross, uint256 fee, uint256 tip, uint256 net);
+    event JobExpired(address indexed creator, address indexed worker, uint256 id);
+    event JobMetadataSet(uint256 id, uint256 indexed category, bytes32 contentHash, bytes32[] tags);
+    event MilestoneReleased(address indexed creator, address indexed worker, uint256 id, uint256 index, uint256 amount);
+    event CreatorRated(address indexed worker, address indexed creator, uint256 id, uint8 stars);
+    event JobRequirementsUpdated(uint256 id, Badge minBadge, uint256 minAverageRating, bool applicationsOnly);
+    event JobApplied(address indexed worker, uint256 id, bytes32 messageHash, uint256 proposedPrice);
+    event ApplicationAccepted(address indexed creator, address indexed worker, uint256 id, uint256 price);
+    event DisputeModuleUpdated(address disputeModule);
+    event RegistrationModuleUpdated(address registrationModule);
+    event RegistrationModeUpdated(RegistrationMode mode);
+    event EmergencyModeUpdated(bool enabled);
+    event EmergencyWithdrawal(address indexed creator, uint256 indexed id, uint256 amount);
+    event BadgeNFTUpdated(address badgeNFT);
+    event TrustedForwarderUpdated(address forwarder);
+    event BadgeThresholdsUpdated(uint256 bronze, uint256 silver, uint256 gold);
+    event DepreciationUpdated(uint256 inactivityPeriod, uint256[4] rates);
+    event WelcomeGrantUpdated(uint256 amount);
+    event PlatformFeeUpdated(uint256 feeBps);
+    event PaymentTokenUpdated(address indexed token, bool allowed);
+    event DepreciationCharged(address indexed user, uint256 amount, uint256 periods);
+    event DepreciationDeferred(address indexed user, uint256 amount);
+    event TreasuryFunded(address indexed from, uint256 amount);
+    event TreasuryWithdrawn(address indexed to, uint256 amount);
+    event TokenTreasuryWithdrawn(address indexed token, address indexed to, uint256 amount);
+    event DepreciationPoolReleased(uint256 amount);
+    event DepreciationRedistributed(address indexed user, uint256 amount);
+    event DepreciationPoolGranted(address indexed user, uint256 amount);
+    event JobSettled(
+        address indexed creator,
+        address indexed worker,
+        uint256 id,
+        uint256 workerAmount,
+        uint256 creatorAmount,
+        uint256 arbitersFee
+    );
 
     error InsufficientAllowance(uint256 required);
     error InsufficientFunds(uint256 required);
+    error IncorrectValue(uint256 sent, uint256 required);
     error JobStatusIncorrect(JobStatus current, JobStatus expected);
+    error DeadlinePassed(uint256 deadline);
+    error DeadlineNotReached(uint256 deadline);
+    error ReviewPeriodNotOver(uint256 reviewEnd);
+    error DisputeTimeoutNotReached(uint256 timeoutEnd);
+    error BadgeTooLow(Badge current, Badge required);
+    error RatingTooLow(uint256 current, uint256 required);
+    error RegistrationModeIncorrect(RegistrationMode current, RegistrationMode expected);
+
+    /**
+     * @dev Locks the implementation, only proxies are initialized.
+     */
+    constructor() Ownable(msg.sender) ERC2771Context(address(0)) {
+        _disableInitializers();
+    }
+
+    /**
+    * @notice Initializes the proxy with the default economics.
+    * The token supply used for the welcome grants is transferred to the proxy afterwards.
+    * @param _helperToken Token used for the rewards, deployed separately.
+    * @param _owner Owner of the marketplace, allowed to configure it.
+    */
+    function initialize(HelperToken _helperToken, address _owner) external reinitializer(2) {
+        _transferOwnership(_owner);
+
+        helperToken = _helperToken;
+        bronzeThreshold = 10;
+        silverThreshold = 30;
+        goldThreshold = 50;
+        inactivityPeriod = 30 days;
+        depreciationRates = [uint256(5), 3, 2, 1];
+        welcomeGrant = 100 * _helperToken.ONE_TOKEN();
+    }
+
+    /**
+     * @dev Modifier to ensure only registered users perform certain actions, and only while not paused.
+     */
+    modifier onlyRegisteredUserWhenNotPaused() {
+        _checkRegistered();
+        _;
+    }
+
+    /**
+     * @dev Modifier to ensure only the dispute module resolves disputes through votes.
+     */
+    modifier onlyDisputeModule() {
+        require(_msgSender() == disputeModule, "Only the dispute module can resolve disputes");
+        _;
+    }
 
-    constructor() Ownable(msg.sender) {
-        helperToken = new HelperToken();
+    /**
+     * @dev Modifier to ensure only the registration module registers users outside of the open mode.
+     */
+    modifier onlyRegistrationModule() {
+        require(_msgSender() == registrationModule, "Only the registration module can register users");
+        _;
     }
 
     /**
-     * @dev Modifier to ensure only registered users perform certain actions.
+     * @dev Modifier to prevent reentrant calls to the functions paying jobs, an ETH payment handing over the execution.
+     * The lock is appended to the proxy storage, inheriting OpenZeppelin's ReentrancyGuard would shift the state.
      */
-    modifier onlyRegisteredUser() {
-        require(users[msg.sender].isRegistered, "You're not registered");
+    modifier nonReentrant() {
+        _lock(true);
         _;
+        _lock(false);
+    }
+
+    /**
+    * @notice Registers a new user and transfers initial tokens from the contract, while the registration is open.
+    * In the other registration modes, users register through the registration module.
+    */
+    function distributeToNewUser() external whenNotPaused {
+        require(
+            registrationMode == RegistrationMode.OPEN,
+            RegistrationModeIncorrect(registrationMode, RegistrationMode.OPEN)
+        );
+        _register(_msgSender());
+    }
+
+    /**
+    * @notice Registers a user whose allowlist proof or invitation was checked by the registration module.
+    * @param _user Address of the new user.
+    */
+    function registerUser(address _user) external whenNotPaused onlyRegistrationModule {
+        _register(_user);
+    }
+
+    /**
+    * @dev Registers a new user and transfers initial tokens from the contract.
+    * Checks if the user is not already registered and if the free funds of the contract cover the grant,
+    * job escrows being never spent. The grant is paid from the depreciation pool first, then from the treasury.
+    * Emits an event upon successful first registration, and DepreciationPoolGranted for the share taken from the pool.
+    */
+    function _register(address _user) private {
+        require(freeFunds() >= welcomeGrant, "Not enough funds in the contract");
+        require(!users[_user].isRegistered, "This user is already registered");
+
+        users[_user] = User({
+            lastActivity: block.timestamp,
+            nbJobCompleted: 0,
+            nbJobAbandoned: 0,
+            badgeLevel: Badge.NONE,
+            isRegistered: true
+        });
+        uint256 fromPool = depreciationPool < welcomeGrant ? depreciationPool : welcomeGrant;
+        depreciationPool -= fromPool;
+        _send(_user, welcomeGrant);
+
+        emit FirstRegistration(_user);
+        if (fromPool > 0) {
+            emit DepreciationPoolGranted(_user, fromPool);
+        }
     }
 
     /**
-    * @notice Registers a new user and transfers initial tokens from the contract.
-    * Checks if the user is not already registered and if the contract has sufficient funds.
-    * Emits an event upon successful first registration.
+    * @notice Returns the depreciation charged on the next action of a user, deferred depreciation included.
+    * The balance loses the rate of the user's badge for each full inactivity period, compounded,
+    * up to MAX_DEPRECIATION_PERIODS periods.
+    * @param _user Address of the user.
     */
-    function distributeToNewUser() external {
-        require(helperToken.balanceOf(address(this)) >= 100 * helperToken.ONE_TOKEN(), "Not enough funds in the contract");
-        require(!users[msg.sender].isRegistered, "This user is already registered");
+    function pendingDepreciation(address _user) public view returns (uint256 amount) {
+        (amount,) = _depreciation(_user);
+    }
 
-        users[msg.sender] = User(block.timestamp, 0, Badge.NONE, true);
-        helperToken.transfer(msg.sender, 100 * helperToken.ONE_TOKEN());
+    /**
+    * @notice Pays the pending depreciation of the sender without performing any other action,
+    * after checking balance and allowance. The inactivity left after the last full period keeps counting.
+    */
+    function settleDepreciation() external onlyRegisteredUserWhenNotPaused {
+        _applyDepreciationIfNeeded(0);
 
-        emit FirstRegistration(msg.sender);
+        uint256 deferred = deferredDepreciation[_msgSender()];
+        require(deferred == 0, InsufficientAllowance(deferred));
     }
 
     /**
@@ -93,163 +365,1175 @@ contract SuperHelper is Ownable {
     * Updates creator's activity timestamp.
     * @param _description Job details provided by creator.
     * @param _reward Amount offered as reward for job completion.
+    * @param _duration Time (in seconds) given to the worker to submit the job, counted from takeJob.
     */
-    function createJob(string memory _description, uint256 _reward) external onlyRegisteredUser {
+    function createJob(string memory _description, uint256 _reward, uint256 _duration) external onlyRegisteredUserWhenNotPaused {
+        _createJob(_description, _reward, _duration);
+    }
+
+    /**
+    * @notice Same as createJob, the reward being approved by an EIP-2612 permit
+    * signed by the creator instead of a prior approve transaction.
+    * @param _description Job details provided by creator.
+    * @param _reward Amount offered as reward for job completion.
+    * @param _duration Time (in seconds) given to the worker to submit the job, counted from takeJob.
+    * @param _permit Permit of the creator for this contract.
+    */
+    function createJobWithPermit(
+        string memory _description,
+        uint256 _reward,
+        uint256 _duration,
+        Permit calldata _permit
+    ) external onlyRegisteredUserWhenNotPaused {
+        _usePermit(_permit);
+        _createJob(_description, _reward, _duration);
+    }
+
+    /**
+    * @notice Same as createJob for a job described off-chain: the job stores the URI of its JSON description
+    * instead of the full text, with the hash of the description, a category and up to MAX_TAGS tags.
+    * @param _contentURI URI of the JSON description, stored and emitted as the job description.
+    * @param _metadata Category, keccak256 hash of the description and tags of the job.
+    * @param _reward Amount offered as reward for job completion.
+    * @param _duration Time (in seconds) given to the worker to submit the job, counted from takeJob.
+    */
+    function createJobWithMetadata(
+        string memory _contentURI,
+        JobMetadata calldata _metadata,
+        uint256 _reward,
+        uint256 _duration
+    ) external onlyRegisteredUserWhenNotPaused {
+        Metadata.set(jobMetadata, _createJob(_contentURI, _reward, _duration), _metadata);
+    }
+
+    /**
+    * @notice Returns the category, content hash and tags of a job, empty for a job with a plain description.
+    * @param _jobId ID of the job.
+    */
+    function getJobMetadata(uint256 _jobId) external view returns (JobMetadata memory) {
+        return jobMetadata[_jobId];
+    }
+
+    /**
+    * @notice Same as createJob for a job paid in another token allowed by the owner, or in ETH with
+    * Payments.NATIVE_TOKEN. An ETH reward is sent with the call instead of being approved. The escrow, the
+    * refunds, the payments and the platform fee of the job are in its token, registration, badges and
+    * depreciation staying in HELP.
+    * @param _description Job details provided by creator.
+    * @param _token Payment token of the job, among the paymentTokens.
+    * @param _reward Amount of the token offered as reward for job completion.
+    * @param _duration Time (in seconds) given to the worker to submit the job, counted from takeJob.
+    */
+    function createJobWithToken(
+        string memory _description,
+        address _token,
+        uint256 _reward,
+        uint256 _duration
+    ) external payable onlyRegisteredUserWhenNotPaused {
+        require(paymentTokens[_token], "Payment token not allowed");
+
+        jobTokens[jobCount] = _token;
+        uint256 jobId = _createJob(_description, _reward, _duration);
+
+        emit JobTokenSet(jobId, _token);
+    }
+
+    /**
+    * @notice Creates a job whose reward is paid in stages. The total of the milestones is escrowed at creation
+    * and each milestone is released to the worker when the creator approves it.
+    * @param _description Job details provided by creator.
+    * @param _milestoneDescriptions Details of each milestone.
+    * @param _milestoneAmounts Amount released for each milestone, in the same order as the descriptions.
+    * @param _duration Time (in seconds) given to the worker to submit the job, counted from takeJob.
+    */
+    function createJobWithMilestones(
+        string memory _description,
+        string[] calldata _milestoneDescriptions,
+        uint256[] calldata _milestoneAmounts,
+        uint256 _duration
+    ) external onlyRegisteredUserWhenNotPaused {
+        _createJob(_description, Milestones.add(milestones[jobCount], _milestoneDescriptions, _milestoneAmounts), _duration);
+    }
+
+    /**
+    * @notice Releases a milestone of a taken or submitted job to its worker, minus the platform fee.
+    * Only the creator of the job can approve its milestones.
+    * @param _jobId ID of the job.
+    * @param _index Index of the milestone to release.
+    */
+    function approveMilestone(uint256 _jobId, uint256 _index) external onlyRegisteredUserWhenNotPaused nonReentrant {
+        Job storage job = jobs[_jobId];
+        _requireCreator(job, "Only the creator can approve a milestone");
+        uint256 amount = Milestones.release(job, milestones[_jobId], _index);
         _applyDepreciationIfNeeded(0);
-        require(helperToken.balanceOf(msg.sender) >= _reward, InsufficientFunds(_reward));
-        require(helperToken.allowance(msg.sender, address(this)) >= _reward, InsufficientAllowance(_reward));
-        helperToken.transferFrom(msg.sender, address(this), _reward);
 
-        uint256 jobId = jobCount;
+        _pay(_jobId, job, amount, 0);
+        _updateActivity();
 
-        jobs[jobId] = Job({
-            creator: msg.sender,
-            worker: address(0),
-            description: _description,
-            stars: 0,
-            reward: _reward,
-            status: JobStatus.CREATED
-        });
+        emit MilestoneReleased(job.creator, job.worker, _jobId, _index, amount);
+    }
 
-        jobCount++;
+    /**
+    * @notice Returns the milestones of a job, empty for a job created with a single reward.
+    * @param _jobId ID of the job.
+    */
+    function getMilestones(uint256 _jobId) external view returns (Milestone[] memory) {
+        return milestones[_jobId];
+    }
+
+    /**
+    * @notice Sets the requirements a worker must meet to take or apply for a job.
+    * Only the creator of the job can set them, while the job is CREATED.
+    * @param _jobId ID of the job.
+    * @param _minBadge Minimum badge of the worker.
+    * @param _minAverageRating Minimum average rating of the worker, scaled by RATING_PRECISION (450 = 4.5 stars).
+    * @param _applicationsOnly If true, the job can't be taken directly and the creator picks a worker among the applicants.
+    */
+    function setJobRequirements(
+        uint256 _jobId,
+        Badge _minBadge,
+        uint256 _minAverageRating,
+        bool _applicationsOnly
+    ) external onlyRegisteredUserWhenNotPaused {
+        Job storage job = jobs[_jobId];
+        _requireCreator(job, "Only the creator can set the job requirements");
+        _requireStatus(job, JobStatus.CREATED);
+        Applications.setRequirements(jobRequirements[_jobId], _minBadge, _minAverageRating, _applicationsOnly);
+        _applyDepreciationIfNeeded(0);
         _updateActivity();
-        emit JobAdded(msg.sender, _description, _reward, jobId);
+
+        emit JobRequirementsUpdated(_jobId, _minBadge, _minAverageRating, _applicationsOnly);
     }
 
     /**
     * @notice Assigns sender as worker for a job if available, marks job as TAKEN, and updates activity.
-    * Job must be in CREATED status and creator cannot be the worker.
+    * Job must be in CREATED status, open to direct takes and creator cannot be the worker.
+    * The worker must meet the job requirements. Starts the job deadline.
     * @param _jobId ID of the job to take.
     */
-    function takeJob(uint256 _jobId) external onlyRegisteredUser {
+    function takeJob(uint256 _jobId) external onlyRegisteredUserWhenNotPaused {
+        _takeJob(_jobId);
+    }
+
+    /**
+    * @notice Same as takeJob, the pending depreciation being approved by an EIP-2612 permit
+    * signed by the worker instead of a prior approve transaction.
+    * @param _jobId ID of the job to take.
+    * @param _permit Permit of the worker for this contract.
+    */
+    function takeJobWithPermit(uint256 _jobId, Permit calldata _permit) external onlyRegisteredUserWhenNotPaused {
+        _usePermit(_permit);
+        _takeJob(_jobId);
+    }
+
+    /**
+    * @notice Applies for a CREATED job. The worker must meet the job requirements.
+    * @param _jobId ID of the job.
+    * @param _messageHash Hash of an off-chain message to the creator, zero if none.
+    * @param _proposedPrice Price asked by the worker, zero to accept the job reward.
+    */
+    function applyForJob(uint256 _jobId, bytes32 _messageHash, uint256 _proposedPrice) external onlyRegisteredUserWhenNotPaused {
+        address worker = _msgSender();
+        Job storage job = jobs[_jobId];
+        _requireStatus(job, JobStatus.CREATED);
+        require(job.creator != worker, "Worker can't be the creator");
+        require(_proposedPrice == 0 || milestones[_jobId].length == 0, "Milestone jobs have a fixed price");
+        _checkRequirements(_jobId, worker);
+        _applyDepreciationIfNeeded(0);
+
+        Applications.add(applications[_jobId], applicants[_jobId], worker, _messageHash, _proposedPrice);
+        _updateActivity();
+
+        emit JobApplied(worker, _jobId, _messageHash, _proposedPrice);
+    }
+
+    /**
+    * @notice Assigns an applicant as worker of a CREATED job. Only the creator of the job can accept an applicant.
+    * If the applicant proposed another price, the escrow is adjusted: the difference is refunded to the creator
+    * or pulled from the creator, who must have approved it or send it along for an ETH job.
+    * @param _jobId ID of the job.
+    * @param _applicant Address of the accepted applicant.
+    */
+    function acceptApplicant(uint256 _jobId, address _applicant) external payable onlyRegisteredUserWhenNotPaused nonReentrant {
+        Job storage job = jobs[_jobId];
+        _requireCreator(job, "Only the creator can accept an applicant");
+        _requireStatus(job, JobStatus.CREATED);
+
+        uint256 price = Applications.price(applications[_jobId][_applicant], job.reward);
+        _checkRequirements(_jobId, _applicant);
+        _reprice(_jobId, job, price);
+        _assignWorker(_jobId, job, _applicant);
+        _updateActivity();
+
+        emit ApplicationAccepted(_msgSender(), _applicant, _jobId, price);
+        emit JobTaken(_applicant, _jobId);
+    }
+
+    /**
+    * @notice Updates the description and the reward of a CREATED job. Only the creator of the job can update it.
+    * A higher reward is escrowed from the creator with the same balance and allowance checks as createJob,
+    * the increase of an ETH reward being sent with the call, the difference of a lower reward is refunded.
+    * For a job described off-chain, the description is the URI of the content and the content hash does not change.
+    * @param _jobId ID of the job.
+    * @param _description New job details, or URI of the off-chain description.
+    * @param _reward New reward. Milestone jobs keep the total of their milestones.
+    */
+    function updateJob(uint256 _jobId, string calldata _description, uint256 _reward) external payable onlyRegisteredUserWhenNotPaused nonReentrant {
+        Job storage job = jobs[_jobId];
+        _requireCreator(job, "Only the creator can update the job");
+        _requireStatus(job, JobStatus.CREATED);
+        require(_reward == job.reward || milestones[_jobId].length == 0, "Milestone jobs have a fixed price");
+
+        Metadata.setDescription(job, _description);
+        _reprice(_jobId, job, _reward);
+        _updateActivity();
+
+        emit JobUpdated(_msgSender(), _jobId, _description, _reward);
+    }
+
+    /**
+    * @notice Returns the addresses that applied for a job.
+    * @param _jobId ID of the job.
+    */
+    function getApplicants(uint256 _jobId) external view returns (address[] memory) {
+        return applicants[_jobId];
+    }
+
+    /**
+    * @notice Returns the IDs of the jobs created by a user, by creation order.
+    * @param _creator Address of the creator.
+    */
+    function getCreatorJobIds(address _creator) external view returns (uint256[] memory) {
+        return creatorJobIds[_creator];
+    }
+
+    /**
+    * @notice Returns the IDs of the jobs assigned to a worker, abandoned ones excepted.
+    * They are listed by assignment order, except that an abandoned job is replaced by the last one.
+    * @param _worker Address of the worker.
+    */
+    function getWorkerJobIds(address _worker) external view returns (uint256[] memory) {
+        return workerJobIds[_worker];
+    }
+
+    /**
+    * @notice Returns the average rating received by a worker, scaled by RATING_PRECISION (450 = 4.5 stars).
+    * Zero if the worker was never rated.
+    * @param _worker Address of the worker.
+    */
+    function averageWorkerRating(address _worker) public view returns (uint256) {
+        return _average(workerRatings[_worker]);
+    }
+
+    /**
+    * @notice Returns the average rating received by a creator from its workers, scaled by RATING_PRECISION.
+    * Zero if the creator was never rated.
+    * @param _creator Address of the creator.
+    */
+    function averageCreatorRating(address _creator) external view returns (uint256) {
+        return _average(creatorRatings[_creator]);
+    }
+
+    /**
+    * @notice Releases a taken job so that another user can take it, the job goes back to CREATED.
+    * Only the worker of the job can abandon it, which counts against its badge progression.
+    * The job leaves the jobs listed for the worker.
+    * @param _jobId ID of the job to abandon.
+    */
+    function abandonJob(uint256 _jobId) external onlyRegisteredUserWhenNotPaused {
+        address worker = _msgSender();
         Job storage job = jobs[_jobId];
-        require(job.status == JobStatus.CREATED, JobStatusIncorrect(job.status, JobStatus.CREATED));
-        require(job.creator != msg.sender, "Worker can't be the creator");
+        _requireWorker(job, "Only the worker can abandon the job");
+        _requireStatus(job, JobStatus.TAKEN);
         _applyDepreciationIfNeeded(0);
 
-        job.worker = msg.sender;
-        job.status = JobStatus.TAKEN;
+        job.worker = address(0);
+        job.status = JobStatus.CREATED;
+        job.deadline = 0;
+        JobIndexes.removeWorkerJob(workerJobIds[worker], _jobId);
+        users[worker].nbJobAbandoned++;
         _updateActivity();
 
-        emit JobTaken(msg.sender, _jobId);
+        emit JobAbandoned(worker, _jobId);
+    }
+
+    /**
+    * @notice Submits the work done on a taken job, marks it as SUBMITTED so the creator can review it.
+    * Only the worker of the job can submit it, before the job deadline. Starts the review period.
+    * @param _jobId ID of the job to submit.
+    * @param _deliverable Reference to the delivered work (URI or content hash).
+    */
+    function submitJob(uint256 _jobId, string calldata _deliverable) external onlyRegisteredUserWhenNotPaused {
+        Job storage job = jobs[_jobId];
+        _requireWorker(job, "Only the worker can submit the job");
+        _requireStatus(job, JobStatus.TAKEN);
+        require(block.timestamp <= job.deadline, DeadlinePassed(job.deadline));
+        _applyDepreciationIfNeeded(0);
+
+        Metadata.submit(job, _jobId, _deliverable);
+        _updateActivity();
     }
 
     /**
-    * @notice Marks a job as completed, sets the rating from creator, and manages reward payment.
+    * @notice Marks a submitted job as completed, sets the rating from creator, and manages reward payment.
+    * The platform fee is deducted from the reward paid to the worker and kept in the treasury.
+    * A 5-star review can come with a tip, transferred from the creator to the worker on top of the reward,
+    * in the token of the job.
     * If the job is disputed, changes status to DISPUTED and do not pay the worker.
     * @param _jobId ID of the job to complete and review.
-    * @param _rating Rating (from 0 to 5 inclusive) provided by the job creator to the worker.
+    * @param _rating Rating provided by the job creator to the worker, from 1 to 5 inclusive.
+    * 0 is only accepted to dispute the job.
     * @param _isDisputed Boolean flag indicating if the job is disputed. If true, sets job status to DISPUTED.
+    * @param _tip Tip paid to the worker, not subject to the platform fee. Must be 0 unless the rating is 5 stars.
+    * The tip of an ETH job is sent with the call.
     */
-    function completeAndReviewJob(uint256 _jobId, uint8 _rating, bool _isDisputed) external onlyRegisteredUser {
+    function completeAndReviewJob(
+        uint256 _jobId,
+        uint8 _rating,
+        bool _isDisputed,
+        uint256 _tip
+    ) external payable onlyRegisteredUserWhenNotPaused nonReentrant {
         Job storage job = jobs[_jobId];
-        require(msg.sender == job.creator, "Only the creator can mark the job as complete and review it");
-        require(job.status == JobStatus.TAKEN, JobStatusIncorrect(job.status, JobStatus.TAKEN));
-        require(_rating >= 0 && _rating <= 5, "The rate has to be between 0 and 5");
-        _applyDepreciationIfNeeded(0);
-
-        job.stars = _rating;
+        _requireCreator(job, "Only the creator can mark the job as complete and review it");
+        _requireStatus(job, JobStatus.SUBMITTED);
+        Ratings.rateWorker(job, workerRatings, _rating, _isDisputed, _tip);
+        _applyDepreciationIfNeeded(_helpExpense(_jobId, _tip));
+        _escrow(_jobToken(_jobId), _tip);
         _updateActivity();
 
         if (_isDisputed) {
             job.status = JobStatus.DISPUTED;
+            job.disputedAt = block.timestamp;
             emit JobDisputed(job.creator, job.worker, _jobId);
         } else {
-            job.status = JobStatus.COMPLETED;
-            _updateBadgeActivity(job.worker);
-            helperToken.transfer(job.worker, job.reward);
-            emit JobCompletedAndPaid(job.creator, job.worker, _jobId, job.reward, _rating);
+            emit JobCompletedAndPaid(job.creator, job.worker, _jobId, _payWorker(_jobId, job, _tip), _rating);
         }
     }
 
+    /**
+    * @notice Rates the creator of a job once it is over. Only the worker of the job can rate its creator, once.
+    * @param _jobId ID of the job, which must be COMPLETED, REFUNDED or SETTLED.
+    * @param _rating Rating (from 1 to 5 inclusive) provided by the worker to the job creator.
+    */
+    function rateCreator(uint256 _jobId, uint8 _rating) external onlyRegisteredUserWhenNotPaused {
+        address worker = _msgSender();
+        Job storage job = jobs[_jobId];
+        Ratings.rateCreator(job, creatorStars, creatorRatings, _jobId, worker, _rating);
+        _applyDepreciationIfNeeded(0);
+        _updateActivity();
+
+        emit CreatorRated(worker, job.creator, _jobId, _rating);
+    }
+
     /**
     * @notice Cancels job if called by creator and if status is CREATED.
     * Refunds job reward, applies depreciation if needed, updates user activity.
     * @param _jobId ID of the job to cancel.
     */
-    function cancelJob(uint256 _jobId) external onlyRegisteredUser {
+    function cancelJob(uint256 _jobId) external onlyRegisteredUserWhenNotPaused nonReentrant {
         Job storage job = jobs[_jobId];
 
-        require(msg.sender == job.creator, "Only the creator can cancel the job");
-        require(job.status == JobStatus.CREATED, JobStatusIncorrect(job.status, JobStatus.CREATED));
+        _requireCreator(job, "Only the creator can cancel the job");
+        _requireStatus(job, JobStatus.CREATED);
         _applyDepreciationIfNeeded(0);
 
         job.status = JobStatus.CANCELLED;
-        helperToken.transfer(job.creator, job.reward);
+        _releaseEscrow(_jobToken(_jobId), job.creator, _remainingReward(job));
         _updateActivity();
-        emit JobCanceled(msg.sender, _jobId);
+        emit JobCanceled(_msgSender(), _jobId);
+    }
+
+    /**
+    * @notice Pays the worker of a submitted job the creator did not review within the review period.
+    * @param _jobId ID of the submitted job.
+    */
+    function claimPayment(uint256 _jobId) external onlyRegisteredUserWhenNotPaused nonReentrant {
+        Job storage job = jobs[_jobId];
+
+        _requireWorker(job, "Only the worker can claim the payment");
+        _requireStatus(job, JobStatus.SUBMITTED);
+        require(block.timestamp >= job.submittedAt + REVIEW_PERIOD, ReviewPeriodNotOver(job.submittedAt + REVIEW_PERIOD));
+        _applyDepreciationIfNeeded(0);
+
+        uint256 gross = _payWorker(_jobId, job, 0);
+        _updateActivity();
+        emit JobPaymentClaimed(job.creator, job.worker, _jobId, gross);
+    }
+
+    /**
+    * @notice Cancels a taken job whose worker missed the deadline and refunds the reward to the creator.
+    * @param _jobId ID of the expired job.
+    */
+    function reclaimExpiredJob(uint256 _jobId) external onlyRegisteredUserWhenNotPaused nonReentrant {
+        Job storage job = jobs[_jobId];
+
+        _requireCreator(job, "Only the creator can reclaim the job");
+        _requireStatus(job, JobStatus.TAKEN);
+        require(block.timestamp > job.deadline, DeadlineNotReached(job.deadline));
+        _applyDepreciationIfNeeded(0);
+
+        job.status = JobStatus.CANCELLED;
+        _releaseEscrow(_jobToken(_jobId), job.creator, _remainingReward(job));
+        _updateActivity();
+        emit JobExpired(job.creator, job.worker, _jobId);
+    }
+
+    /**
+    * @notice Stops every action of the users, job payments and treasury movements, until unpause.
+    * The configuration stays available to the owner. Only callable by the contract owner.
+    */
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    /**
+    * @notice Resumes the marketplace once the emergency mode is disabled. Only callable by the contract owner.
+    */
+    function unpause() external onlyOwner {
+        require(!emergencyMode, "Emergency mode is active");
+        _unpause();
+    }
+
+    /**
+    * @notice Enables or disables the emergency mode, which can only be enabled while paused.
+    * In emergency mode the creators of CREATED and TAKEN jobs withdraw their escrow with emergencyWithdraw,
+    * the other jobs, disputed ones included, staying frozen. Only callable by the contract owner.
+    * @param _enabled Whether the emergency mode is enabled.
+    */
+    function setEmergencyMode(bool _enabled) external onlyOwner {
+        if (_enabled) {
+            _requirePaused();
+        }
+
+        emergencyMode = _enabled;
+        emit EmergencyModeUpdated(_enabled);
+    }
+
+    /**
+    * @notice Refunds the escrow of a CREATED or TAKEN job to its creator and cancels the job, in emergency mode only.
+    * @param _jobId ID of the job.
+    */
+    function emergencyWithdraw(uint256 _jobId) external nonReentrant {
+        require(emergencyMode, "Emergency mode is not active");
+
+        Job storage job = jobs[_jobId];
+        _requireCreator(job, "Only the creator can withdraw the escrow");
+        require(
+            job.status == JobStatus.CREATED || job.status == JobStatus.TAKEN,
+            JobStatusIncorrect(job.status, JobStatus.CREATED)
+        );
+
+        uint256 amount = _remainingReward(job);
+        job.status = JobStatus.CANCELLED;
+        _releaseEscrow(_jobToken(_jobId), job.creator, amount);
+
+        emit EmergencyWithdrawal(job.creator, _jobId, amount);
+    }
+
+    /**
+    * @notice Sets the contract allowed to resolve disputes with the votes of its arbiters.
+    * Only callable by the contract owner.
+    * @param _disputeModule Address of the dispute module, address(0) to disable it.
+    */
+    function setDisputeModule(address _disputeModule) external onlyOwner {
+        disputeModule = _disputeModule;
+        emit DisputeModuleUpdated(_disputeModule);
+    }
+
+    /**
+    * @notice Sets the contract checking allowlist proofs and invitations before registering users.
+    * Only callable by the contract owner.
+    * @param _registrationModule Address of the registration module, address(0) to disable it.
+    */
+    function setRegistrationModule(address _registrationModule) external onlyOwner {
+        registrationModule = _registrationModule;
+        emit RegistrationModuleUpdated(_registrationModule);
+    }
+
+    /**
+    * @notice Sets how new users register: freely with distributeToNewUser, or through the registration module
+    * with a proof of the allowlist or a signed invitation. Only callable by the contract owner.
+    * @param _mode Registration mode.
+    */
+    function setRegistrationMode(RegistrationMode _mode) external onlyOwner {
+        registrationMode = _mode;
+        emit RegistrationModeUpdated(_mode);
+    }
+
+    /**
+    * @notice Sets the soulbound token minted and upgraded along with the badges.
+    * Only callable by the contract owner.
+    * @param _badgeNFT Address of the badge token, address(0) to stop minting.
+    */
+    function setBadgeNFT(BadgeNFT _badgeNFT) external onlyOwner {
+        badgeNFT = _badgeNFT;
+        emit BadgeNFTUpdated(address(_badgeNFT));
+    }
+
+    /**
+    * @notice Sets the forwarder allowed to relay actions signed by users (ERC-2771).
+    * Only callable by the contract owner.
+    * @param _forwarder Address of the forwarder, address(0) to disable meta-transactions.
+    */
+    function setTrustedForwarder(address _forwarder) external onlyOwner {
+        forwarder = _forwarder;
+        emit TrustedForwarderUpdated(_forwarder);
+    }
+
+    /**
+    * @notice Returns the forwarder allowed to relay actions signed by users.
+    */
+    function trustedForwarder() public view override returns (address) {
+        return forwarder;
+    }
+
+    /**
+    * @notice Sets the number of completed jobs required for each badge.
+    * Only callable by the contract owner. Badges already earned are kept.
+    * @param _bronze Jobs required for the BRONZE badge.
+    * @param _silver Jobs required for the SILVER badge.
+    * @param _gold Jobs required for the GOLD badge.
+    */
+    function setBadgeThresholds(uint256 _bronze, uint256 _silver, uint256 _gold) external onlyOwner {
+        Economics.checkBadgeThresholds(_bronze, _silver, _gold);
+
+        bronzeThreshold = _bronze;
+        silverThreshold = _silver;
+        goldThreshold = _gold;
+
+        emit BadgeThresholdsUpdated(_bronze, _silver, _gold);
+    }
+
+    /**
+    * @notice Sets the inactivity period after which balances depreciate and the rate applied for each badge.
+    * Only callable by the contract owner.
+    * @param _inactivityPeriod Inactivity (in seconds) triggering the depreciation.
+    * @param _rates Depreciation rates in percent, indexed by badge (NONE, BRONZE, SILVER, GOLD).
+    */
+    function setDepreciation(uint256 _inactivityPeriod, uint256[4] calldata _rates) external onlyOwner {
+        Economics.checkDepreciation(_inactivityPeriod, _rates);
+
+        inactivityPeriod = _inactivityPeriod;
+        depreciationRates = _rates;
+
+        emit DepreciationUpdated(_inactivityPeriod, _rates);
+    }
+
+    /**
+    * @notice Sets the amount of tokens sent to each new user.
+    * Only callable by the contract owner.
+    * @param _amount Welcome grant, between 1 unit and MAX_WELCOME_GRANT tokens.
+    */
+    function setWelcomeGrant(uint256 _amount) external onlyOwner {
+        Economics.checkWelcomeGrant(_amount, address(helperToken));
+
+        welcomeGrant = _amount;
+        emit WelcomeGrantUpdated(_amount);
+    }
+
+    /**
+    * @notice Sets the fee deducted from the rewards paid to workers, which stays in the treasury.
+    * Each badge level of the worker waives FEE_DISCOUNT_PER_BADGE_BPS of the fee. Only callable by the contract owner.
+    * @param _feeBps Platform fee in basis points, up to MAX_PLATFORM_FEE_BPS.
+    */
+    function setPlatformFee(uint256 _feeBps) external onlyOwner {
+        require(_feeBps <= MAX_PLATFORM_FEE_BPS, "Platform fee too high");
+
+        platformFeeBps = _feeBps;
+        emit PlatformFeeUpdated(_feeBps);
+    }
+
+    /**
+    * @notice Allows or disallows a token, or ETH with Payments.NATIVE_TOKEN, as payment token of new jobs.
+    * Jobs already created keep their token. Only callable by the contract owner.
+    * @param _token Address of the ERC-20 token, or Payments.NATIVE_TOKEN.
+    * @param _allowed Whether new jobs can be paid with it.
+    */
+    function setPaymentToken(address _token, bool _allowed) external onlyOwner {
+        paymentTokens[_token] = _allowed;
+        emit PaymentTokenUpdated(_token, _allowed);
+    }
+
+    /**
+    * @notice Runs the migrations of the upgrades not applied yet to the proxy, called by the ProxyAdmin through
+    * upgradeAndCall. Version 2 bounds backfillJobIds to the jobs created before it. New proxies start at version 2.
+    */
+    function migrate() external {
+        if (_getInitializedVersion() < 2) {
+            _migrateToJobIndexes();
+        }
+    }
+
+    /**
+    * @notice Adds the jobs created before the upgrade introducing getCreatorJobIds and getWorkerJobIds to the jobs
+    * of their creators and workers, up to _to, so that a large marketplace runs it in batches. Only callable by the
+    * contract owner while paused: pause the marketplace before the upgrade and unpause it once jobIdsBackfill.next
+    * reaches jobIdsBackfill.end, so that the indexes keep the creation order.
+    * @param _to ID after the last job of the batch, at most jobIdsBackfill.end.
+    */
+    function backfillJobIds(uint256 _to) external onlyOwner whenPaused {
+        JobIndexes.backfill(jobIdsBackfill, jobs, creatorJobIds, workerJobIds, _to);
+    }
+
+    /**
+    * @notice Returns the platform fee deducted from a payment to a worker, after the discount of the worker's badge.
+    * @param _worker Address of the worker.
+    * @param _amount Reward paid to the worker.
+    */
+    function platformFee(address _worker, uint256 _amount) public view returns (uint256) {
+        uint256 discount = uint256(users[_worker].badgeLevel) * FEE_DISCOUNT_PER_BADGE_BPS;
+        return (_amount * platformFeeBps * (MAX_BPS - discount)) / MAX_BPS / MAX_BPS;
+    }
+
+    /**
+    * @notice Returns the tokens of the contract that are not escrowed for jobs, depreciation pool included.
+    */
+    function freeFunds() public view returns (uint256) {
+        return _balanceOf(address(this)) - totalEscrowed;
+    }
+
+    /**
+    * @notice Returns the free funds outside of the depreciation pool, which the owner can withdraw.
+    */
+    function treasuryBalance() public view returns (uint256) {
+        return freeFunds() - depreciationPool;
+    }
+
+    /**
+    * @notice Returns how many welcome grants the free funds can still pay.
+    */
+    function remainingWelcomeGrants() external view returns (uint256) {
+        return freeFunds() / welcomeGrant;
+    }
+
+    /**
+    * @notice Tops up the treasury with tokens of the sender, after checking balance and allowance.
+    * @param _amount Amount of tokens added to the treasury.
+    */
+    function fundTreasury(uint256 _amount) external whenNotPaused {
+        Payments.pull(address(helperToken), _msgSender(), _amount);
+
+        emit TreasuryFunded(_msgSender(), _amount);
+    }
+
+    /**
+    * @notice Withdraws tokens from the treasury. Escrowed rewards and the depreciation pool can't be withdrawn.
+    * Only callable by the contract owner.
+    * @param _to Recipient of the tokens.
+    * @param _amount Amount of tokens withdrawn.
+    */
+    function withdrawTreasury(address _to, uint256 _amount) external whenNotPaused onlyOwner {
+        require(_amount <= treasuryBalance(), InsufficientFunds(_amount));
+
+        _send(_to, _amount);
+        emit TreasuryWithdrawn(_to, _amount);
+    }
+
+    /**
+    * @notice Withdraws the platform fees collected in another payment token than HELP, or in ETH.
+    * Escrowed rewards can't be withdrawn. Only callable by the contract owner.
+    * @param _token Address of the payment token, or Payments.NATIVE_TOKEN.
+    * @param _to Recipient of the tokens.
+    * @param _amount Amount of tokens withdrawn.
+    */
+    function withdrawTokenTreasury(address _token, address _to, uint256 _amount) external whenNotPaused onlyOwner nonReentrant {
+        require(_token != address(helperToken), "Use withdrawTreasury for HELP");
+
+        Payments.withdraw(escrowedTokens, _token, _to, _amount);
+        emit TokenTreasuryWithdrawn(_token, _to, _amount);
+    }
+
+    /**
+    * @notice Moves collected depreciation from the depreciation pool to the treasury.
+    * Only callable by the contract owner.
+    * @param _amount Amount released from the pool.
+    */
+    function releaseDepreciationPool(uint256 _amount) external whenNotPaused onlyOwner {
+        require(_amount <= depreciationPool, "Amount exceeds the depreciation pool");
+
+        depreciationPool -= _amount;
+        emit DepreciationPoolReleased(_amount);
+    }
+
+    /**
+    * @notice Pays collected depreciation back to registered users, the same amount to each.
+    * Only callable by the contract owner.
+    * @param _users Registered users receiving tokens.
+    * @param _amount Amount paid to each user.
+    */
+    function redistributeDepreciation(address[] calldata _users, uint256 _amount) external whenNotPaused onlyOwner {
+        require(_amount * _users.length <= depreciationPool, "Amount exceeds the depreciation pool");
+
+        depreciationPool -= _amount * _users.length;
+        Payments.redistribute(users, address(helperToken), _users, _amount);
+    }
+
+    /**
+    * @notice Resolves a disputed job with the outcome voted by the arbiters of the dispute module.
+    * The arbiters fee is taken from the job reward and shared equally between the arbiters,
+    * the rest is split between the worker and the creator. All of them are paid in the token of the job,
+    * the job being settled before the arbiters are paid.
+    * @param _jobId ID of the disputed job.
+    * @param _workerShareBps Share of the remaining reward paid to the worker, in basis points.
+    * @param _arbiters Arbiters who voted on the dispute.
+    * @param _arbitersFeeBps Share of the reward paid to the arbiters, in basis points.
+    */
+    function resolveDispute(
+        uint256 _jobId,
+        uint256 _workerShareBps,
+        address[] calldata _arbiters,
+        uint256 _arbitersFeeBps
+    ) external whenNotPaused onlyDisputeModule nonReentrant {
+        Job storage job = jobs[_jobId];
+
+        _requireStatus(job, JobStatus.DISPUTED);
+        require(_workerShareBps <= MAX_BPS, "Worker share can't exceed 100%");
+        require(_arbitersFeeBps <= MAX_ARBITERS_FEE_BPS, "Arbiters fee too high");
+
+        uint256 arbiterFee = _arbiters.length == 0
+            ? 0
+            : (_remainingReward(job) * _arbitersFeeBps) / MAX_BPS / _arbiters.length;
+        _settle(_jobId, _workerShareBps, arbiterFee * _arbiters.length);
+
+        address token = _jobToken(_jobId);
+        for (uint256 i = 0; i < _arbiters.length; i++) {
+            _releaseEscrow(token, _arbiters[i], arbiterFee);
+        }
+    }
+
+    /**
+    * @notice Settles a disputed job by splitting its reward between the worker and the creator.
+    * Only callable by the contract owner, as a fallback once DISPUTE_TIMEOUT has passed without resolution by the arbiters.
+    * @param _jobId ID of the disputed job.
+    * @param _workerShareBps Share of the reward paid to the worker, in basis points. The creator is refunded the rest.
+    */
+    function settleDisputedJob(uint256 _jobId, uint256 _workerShareBps) external whenNotPaused onlyOwner nonReentrant {
+        Job storage job = jobs[_jobId];
+
+        _requireDisputeTimedOut(job);
+        require(_workerShareBps <= MAX_BPS, "Worker share can't exceed 100%");
+
+        _settle(_jobId, _workerShareBps, 0);
     }
 
     /**
     * @notice Handles a disputed job by resolving its status and managing the reward transfer accordingly.
-    * Only callable by the contract owner
+    * Only callable by the contract owner, as a fallback once DISPUTE_TIMEOUT has passed without resolution by the arbiters.
     * @param _jobId ID of the disputed job to handle.
     * @param _isResolved Boolean flag indicating the resolution outcome. If true, rewards the worker; if false, refunds the creator.
     */
-    function handleDisputedJob(uint256 _jobId, bool _isResolved) external onlyOwner {
+    function handleDisputedJob(uint256 _jobId, bool _isResolved) external whenNotPaused onlyOwner nonReentrant {
         Job storage job = jobs[_jobId];
 
-        require(job.status == JobStatus.DISPUTED, JobStatusIncorrect(job.status, JobStatus.DISPUTED));
+        _requireDisputeTimedOut(job);
 
         if (_isResolved) {
-            job.status = JobStatus.COMPLETED;
-            _updateBadgeActivity(job.worker);
-            helperToken.transfer(job.worker, job.reward);
-            emit JobCompletedAndPaid(job.creator, job.worker, _jobId, job.reward, job.stars);
+            emit JobCompletedAndPaid(job.creator, job.worker, _jobId, _payWorker(_jobId, job, 0), job.stars);
         } else {
+            job.status = JobStatus.REFUNDED;
+            _releaseEscrow(_jobToken(_jobId), job.creator, _remainingReward(job));
+            emit JobCompletedButNotPaid(job.creator, job.worker, _jobId, _remainingReward(job), job.stars);
+        }
+    }
+
+
+    /**
+    * @dev Approves this contract with a permit. A failing permit is ignored as it may have been front-run,
+    * the allowance checks of the action revert if the approval is missing.
+    */
+    function _usePermit(Permit calldata _permit) private {
+        try helperToken.permit(_msgSender(), address(this), _permit.value, _permit.deadline, _permit.v, _permit.r, _permit.s) {
+        } catch {
+        }
+    }
+
+    /**
+    * @dev Assigns the sender as worker of a CREATED job open to direct takes.
+    */
+    function _takeJob(uint256 _jobId) private {
+        address worker = _msgSender();
+        Job storage job = jobs[_jobId];
+        _requireStatus(job, JobStatus.CREATED);
+        require(job.creator != worker, "Worker can't be the creator");
+        require(!jobRequirements[_jobId].applicationsOnly, "This job only accepts applications");
+        _checkRequirements(_jobId, worker);
+        _applyDepreciationIfNeeded(0);
+
+        _assignWorker(_jobId, job, worker);
+        _updateActivity();
+
+        emit JobTaken(worker, _jobId);
+    }
+
+    /**
+    * @dev Escrows the reward of a new job and stores it with the CREATED status.
+    * @return jobId ID of the created job.
+    */
+    function _createJob(string memory _description, uint256 _reward, uint256 _duration) private returns (uint256 jobId) {
+        address creator = _msgSender();
+        require(_duration > 0, "Duration must be greater than 0");
+        jobId = jobCount;
+        _applyDepreciationIfNeeded(_helpExpense(jobId, _reward));
+        _escrow(_jobToken(jobId), _reward);
+
+        jobs[jobId] = Job({
+            creator: creator,
+            worker: address(0),
+            description: _description,
+            stars: 0,
+            reward: _reward,
+            status: JobStatus.CREATED,
+            deliverable: "",
+            duration: _duration,
+            deadline: 0,
+            submittedAt: 0,
+            disputedAt: 0,
+            released: 0
+        });
+
+        creatorJobIds[creator].push(jobId);
+        jobCount++;
+        _updateActivity();
+        emit JobAdded(creator, _description, _reward, jobId);
+    }
+
+    /**
+    * @dev Reverts if a worker does not meet the requirements of a job.
+    */
+    function _checkRequirements(uint256 _jobId, address _worker) private view {
+        JobRequirements storage requirements = jobRequirements[_jobId];
+
+        Badge badge = users[_worker].badgeLevel;
+        require(badge >= requirements.minBadge, BadgeTooLow(badge, requirements.minBadge));
+
+        uint256 rating = averageWorkerRating(_worker);
+        require(rating >= requirements.minAverageRating, RatingTooLow(rating, requirements.minAverageRating));
+    }
+
+    /**
+    * @dev Completes a job and pays what is left of its reward to the worker, plus a tip escrowed from the sender.
+    * @return gross Part of the reward paid before the platform fee.
+    */
+    function _payWorker(uint256 _jobId, Job storage _job, uint256 _tip) private returns (uint256 gross) {
+        gross = _remainingReward(_job);
+
+        _job.status = JobStatus.COMPLETED;
+        _pay(_jobId, _job, gross, _tip);
+        _updateBadgeActivity(_job.worker);
+    }
+
+    /**
+    * @dev Pays part of a job reward to its worker, minus the platform fee which stays in the treasury, plus a tip
+    * escrowed from the sender and paid with the reward, all in the token of the job. The fee is computed with
+    * the badge held by the worker before the payment.
+    * @param _gross Part of the reward paid before the platform fee.
+    */
+    function _pay(uint256 _jobId, Job storage _job, uint256 _gross, uint256 _tip) private {
+        address token = _jobToken(_jobId);
+        uint256 fee = platformFee(_job.worker, _gross);
+
+        _unescrow(token, fee);
+        _releaseEscrow(token, _job.worker, _gross - fee + _tip);
+
+        emit JobPaid(_job.worker, _jobId, _gross, fee, _tip, _gross - fee + _tip);
+    }
+
+    /**
+    * @dev Sets the reward of a job after charging the sender's depreciation, escrowing the increase
+    * from the sender or refunding the decrease to the sender. The reward is set before any transfer,
+    * an ETH refund handing over the execution.
+    */
+    function _reprice(uint256 _jobId, Job storage _job, uint256 _reward) private {
+        address token = _jobToken(_jobId);
+        uint256 previous = _job.reward;
+        uint256 increase = _reward > previous ? _reward - previous : 0;
+        _job.reward = _reward;
+
+        _applyDepreciationIfNeeded(_helpExpense(_jobId, increase));
+        _escrow(token, increase);
+        if (_reward < previous) {
+            _releaseEscrow(token, _msgSender(), previous - _reward);
+        }
+    }
+
+    /**
+    * @dev Marks a job as TAKEN by a worker, starts its deadline and adds it to the jobs of the worker.
+    */
+    function _assignWorker(uint256 _jobId, Job storage _job, address _worker) private {
+        _job.worker = _worker;
+        _job.status = JobStatus.TAKEN;
+        _job.deadline = block.timestamp + _job.duration;
+        workerJobIds[_worker].push(_jobId);
+    }
+
+    /**
+    * @dev Migration to version 2, which leaves the jobs created before the job indexes to backfillJobIds.
+    */
+    function _migrateToJobIndexes() private reinitializer(2) {
+        jobIdsBackfill.end = jobCount;
+    }
+
+    /**
+    * @dev Reverts with the given reason unless the sender created the job.
+    */
+    function _requireCreator(Job storage _job, string memory _reason) private view {
+        require(_msgSender() == _job.creator, _reason);
+    }
+
+    /**
+    * @dev Reverts with the given reason unless the sender is the worker of the job.
+    */
+    function _requireWorker(Job storage _job, string memory _reason) private view {
+        require(_msgSender() == _job.worker, _reason);
+    }
+
+    /**
+    * @dev Reverts unless the job is disputed since DISPUTE_TIMEOUT at least.
+    */
+    function _requireDisputeTimedOut(Job storage _job) private view {
+        _requireStatus(_job, JobStatus.DISPUTED);
+        require(
+            block.timestamp >= _job.disputedAt + DISPUTE_TIMEOUT,
+            DisputeTimeoutNotReached(_job.disputedAt + DISPUTE_TIMEOUT)
+        );
+    }
+
+    /**
+    * @dev Reverts unless the job is in the expected status.
+    */
+    function _requireStatus(Job storage _job, JobStatus _expected) private view {
+        require(_job.status == _expected, JobStatusIncorrect(_job.status, _expected));
+    }
+
+    /**
+    * @dev Reverts when paused or unless the sender is registered. Kept out of the modifier so its code is not
+    * repeated, the two checks being merged for the same reason.
+    */
+    function _checkRegistered() private view {
+        _requireNotPaused();
+        require(users[_msgSender()].isRegistered, "You're not registered");
+    }
+
+    /**
+    * @dev Takes or releases the reentrancy lock, reverting if it is already taken.
+    */
+    function _lock(bool _locked) private {
+        require(!_locked || !locked, "Reentrant call");
+        locked = _locked;
+    }
+
+    /**
+    * @dev Payment token of a job, HELP unless the job was created with another token.
+    */
+    function _jobToken(uint256 _jobId) private view returns (address token) {
+        token = jobTokens[_jobId];
+        if (token == address(0)) {
+            token = address(helperToken);
+        }
+    }
+
+    /**
+    * @dev Part of a job payment to count with the depreciation in the HELP balance of the sender.
+    */
+    function _helpExpense(uint256 _jobId, uint256 _amount) private view returns (uint256) {
+        return _jobToken(_jobId) == address(helperToken) ? _amount : 0;
+    }
+
+    /**
+    * @dev Transfers a job payment from the sender to the escrow. HELP is counted in totalEscrowed,
+    * the other tokens in escrowedTokens.
+    */
+    function _escrow(address _token, uint256 _amount) private {
+        Payments.pull(_token, _msgSender(), _amount);
+        if (_token == address(helperToken)) {
+            totalEscrowed += _amount;
+        } else {
+            escrowedTokens[_token] += _amount;
+        }
+    }
+
+    /**
+    * @dev Removes tokens from the escrow without transferring them, they stay in the treasury.
+    */
+    function _unescrow(address _token, uint256 _amount) private {
+        if (_token == address(helperToken)) {
+            totalEscrowed -= _amount;
+        } else {
+            escrowedTokens[_token] -= _amount;
+        }
+    }
+
+    /**
+    * @dev Pays escrowed tokens of a job out of the contract.
+    */
+    function _releaseEscrow(address _token, address _to, uint256 _amount) private {
+        _unescrow(_token, _amount);
+        Payments.send(_token, _to, _amount);
+    }
+
+    /**
+    * @dev Token balance of an account.
+    */
+    function _balanceOf(address _account) private view returns (uint256) {
+        return Payments.balanceOf(address(helperToken), _account);
+    }
+
+    /**
+    * @dev Transfers tokens of the contract.
+    */
+    function _send(address _to, uint256 _amount) private {
+        Payments.send(address(helperToken), _to, _amount);
+    }
+
+    /**
+    * @dev Part of the reward still escrowed, i.e. not released through milestones.
+    */
+    function _remainingReward(Job storage _job) private view returns (uint256) {
+        return _job.reward - _job.released;
+    }
+
+    /**
+    * @dev Splits what is left of a disputed job reward once the arbiters fee is deducted, the platform fee being
+    * deducted from the worker share. The job is COMPLETED if the worker gets everything, REFUNDED if the creator
+    * does and SETTLED otherwise. It counts for the worker's badge when the worker gets at least half of the split.
+    * @param _jobId ID of the disputed job.
+    * @param _workerShareBps Share of the remaining reward paid to the worker, in basis points.
+    * @param _arbitersFee Part of the reward paid to the arbiters.
+    */
+    function _settle(uint256 _jobId, uint256 _workerShareBps, uint256 _arbitersFee) private {
+        Job storage job = jobs[_jobId];
+
+        uint256 remaining = _remainingReward(job) - _arbitersFee;
+        uint256 workerAmount = (remaining * _workerShareBps) / MAX_BPS;
+        uint256 creatorAmount = remaining - workerAmount;
+
+        if (creatorAmount == 0) {
             job.status = JobStatus.COMPLETED;
-            helperToken.transfer(job.creator, job.reward);
-            emit JobCompletedButNotPaid(job.creator, job.worker, _jobId, job.reward, job.stars);
+        } else if (workerAmount == 0) {
+            job.status = JobStatus.REFUNDED;
+        } else {
+            job.status = JobStatus.SETTLED;
         }
+
+        if (workerAmount > 0) {
+            _pay(_jobId, job, workerAmount, 0);
+        }
+        if (creatorAmount > 0) {
+            _releaseEscrow(_jobToken(_jobId), job.creator, creatorAmount);
+        }
+        if (workerAmount >= creatorAmount) {
+            _updateBadgeActivity(job.worker);
+        }
+
+        emit JobSettled(job.creator, job.worker, _jobId, workerAmount, creatorAmount, _arbitersFee);
+    }
+
+    /**
+    * @dev Context overrides resolving the signer of relayed calls.
+    */
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
     }
 
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 
     /**
     * @dev Updates msg sender's last activity timestamp to current block time.
     */
     function _updateActivity() private {
-        users[msg.sender].lastActivity = block.timestamp;
+        users[_msgSender()].lastActivity = block.timestamp;
     }
 
 
     /**
-    * @dev Updates user's badge based on completed jobs count.
-    * Badge upgrades occur at 10 (BRONZE), 30 (SILVER), and 50 (GOLD) jobs.
+    * @dev Updates user's badge based on completed jobs count and average rating as worker.
+    * Badge upgrades occur at bronzeThreshold, silverThreshold and goldThreshold jobs with an average rating
+    * of at least 3 (BRONZE), 3.5 (SILVER) and 4 (GOLD) stars,
+    * each abandoned job removing ABANDONMENT_PENALTY jobs from the count. Badges are never downgraded.
+    * Upgrades are mirrored on the badge token when one is set.
     * @param _user Address of user whose badge to update.
     */
     function _updateBadgeActivity(address _user) private {
         User storage user = users[_user];
         user.nbJobCompleted++;
 
-        if (user.nbJobCompleted == 10) {
-            user.badgeLevel = Badge.BRONZE;
-        } else if (user.nbJobCompleted == 30) {
-            user.badgeLevel = Badge.SILVER;
-        } else if (user.nbJobCompleted == 50) {
-            user.badgeLevel = Badge.GOLD;
+        uint256 penalty = user.nbJobAbandoned * ABANDONMENT_PENALTY;
+        uint256 score = user.nbJobCompleted > penalty ? user.nbJobCompleted - penalty : 0;
+        uint256 rating = averageWorkerRating(_user);
+        Badge badge = score >= goldThreshold && rating >= GOLD_MIN_RATING ? Badge.GOLD
+            : score >= silverThreshold && rating >= SILVER_MIN_RATING ? Badge.SILVER
+            : score >= bronzeThreshold && rating >= BRONZE_MIN_RATING ? Badge.BRONZE
+            : Badge.NONE;
+
+        if (badge > user.badgeLevel) {
+            user.badgeLevel = badge;
+
+            if (address(badgeNFT) != address(0)) {
+                badgeNFT.sync(_user);
+            }
         }
     }
 
     /**
-    * @dev Applies token depreciation if user inactive ≥ 30 days.
-    * Depreciation rate based on user's badge (1-5%).
+    * @dev Average of a rating aggregate, scaled by RATING_PRECISION. Zero if there is no rating.
+    */
+    function _average(Rating storage _rating) private view returns (uint256) {
+        return _rating.count == 0 ? 0 : (_rating.totalStars * RATING_PRECISION) / _rating.count;
+    }
+
+    /**
+    * @dev Computes the pending depreciation of a user and the number of full inactivity periods it covers.
+    */
+    function _depreciation(address _user) private view returns (uint256 amount, uint256 periods) {
+        User storage user = users[_user];
+        if (!user.isRegistered) {
+            return (0, 0);
+        }
+
+        periods = (block.timestamp - user.lastActivity) / inactivityPeriod;
+        amount = deferredDepreciation[_user];
+        uint256 balance = _balanceOf(_user);
+        uint256 depreciable = balance > amount ? balance - amount : 0;
+        uint256 remaining = depreciable;
+        uint256 rate = depreciationRates[uint256(user.badgeLevel)];
+        for (uint256 i = 0; i < periods && i < MAX_DEPRECIATION_PERIODS; i++) {
+            remaining -= (remaining * rate) / 100;
+        }
+
+        amount += depreciable - remaining;
+    }
+
+    /**
+    * @dev Applies token depreciation if user inactive ≥ inactivityPeriod, compounded per full period.
+    * Depreciation rate based on user's badge (depreciationRates, 5/3/2/1% by default).
+    * The depreciated tokens are transferred with the allowance of the user and added to the depreciation pool.
+    * When the allowance does not cover them along with the other expense, the charge is deferred to a later action
+    * instead of blocking this one. A charge is deferred once: the next action reverts until it is approved.
     * @param _otherExpense Additional token expense required alongside depreciation.
     */
     function _applyDepreciationIfNeeded(uint256 _otherExpense) private {
-        uint256 inactiveTime = block.timestamp - users[msg.sender].lastActivity;
-        if (inactiveTime >= 30 days) {
-            Badge badge = users[msg.sender].badgeLevel;
-            uint256 rate = badge == Badge.NONE ? 5 : badge == Badge.BRONZE ? 3 : badge == Badge.SILVER ? 2 : 1;
-            uint256 depreciationAmount = (helperToken.balanceOf(msg.sender) * rate) / 100;
-            uint256 totalRequired = depreciationAmount + _otherExpense;
-
-            require(helperToken.balanceOf(msg.sender) >= totalRequired, InsufficientFunds(totalRequired));
-            require(
-                helperToken.allowance(msg.sender, address(this)) >= depreciationAmount,
-                InsufficientAllowance(totalRequired)
-            );
-            helperToken.transferFrom(msg.sender, address(this), depreciationAmount);
-            _updateActivity();
+        address user = _msgSender();
+        (uint256 depreciationAmount, uint256 periods) = _depreciation(user);
+        if (depreciationAmount == 0 && periods == 0) {
+            return;
         }
+
+        users[user].lastActivity += periods * inactivityPeriod;
+        if (!Payments.collect(address(helperToken), user, depreciationAmount, _otherExpense, deferredDepreciation[user] == 0)) {
+            deferredDepreciation[user] = depreciationAmount;
+            emit DepreciationDeferred(user, depreciationAmount);
+            return;
+        }
+
+        deferredDepreciation[user] = 0;
+        depreciationPool += depreciationAmount;
+
+        emit DepreciationCharged(user, depreciationAmount, periods);
     }
 }
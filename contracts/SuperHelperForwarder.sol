@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title SuperHelperForwarder
+ * @notice ERC-2771 forwarder trusted by SuperHelper. Relayers submit the requests signed by users
+ * and pay the gas, SuperHelper then acts on behalf of the signer.
+ */
+contract SuperHelperForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("SuperHelperForwarder") {
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+/**
+ * @title ReentrantReceiver
+ * @notice Account replaying a call when it receives ETH, used by the tests to attempt reentrant payments.
+ */
+contract ReentrantReceiver {
+    address public reentryTarget;
+    bytes public reentryData;
+    bool public reentrySucceeded;
+    bytes public reentryResult;
+
+    /**
+     * @notice Calls a contract as this account, bubbling up its revert.
+     */
+    function execute(address _target, bytes calldata _data) external payable {
+        (bool success, bytes memory result) = _target.call{value: msg.value}(_data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    /**
+     * @notice Sets the call replayed once on the next ETH received.
+     */
+    function setReentry(address _target, bytes calldata _data) external {
+        reentryTarget = _target;
+        reentryData = _data;
+    }
+
+    receive() external payable {
+        address target = reentryTarget;
+        if (target == address(0)) {
+            return;
+        }
+
+        reentryTarget = address(0);
+        (reentrySucceeded, reentryResult) = target.call(reentryData);
+    }
+}
@@ -3,6 +3,8 @@ import "@nomicfoundation/hardhat-toolbox";
 import "hardhat-docgen";
 import * as dotenv from "dotenv";
 
+import "./tasks";
+
 dotenv.config();
 
 const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
@@ -10,12 +12,25 @@ const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || "";
 const RPC_URL_SEPOLIA = process.env.RPC_URL_SEPOLIA || "";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    version: "0.8.28",
+    settings: {
+      optimizer: {
+        enabled: true,
+        runs: 200
+      },
+      viaIR: true
+    }
+  },
   docgen: {
     path: './docs',
     clear: true,
     runOnCompile: true,
   },
+  gasReporter: {
+    enabled: process.env.REPORT_GAS !== undefined,
+    currency: "USD",
+  },
   defaultNetwork: "hardhat",
   networks: {
     localhost: {
@@ -1,11 +1,70 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 
+import { SuperHelperLibrariesModule } from "./SuperHelperLibraries";
 
+const GOLD_BADGE = 3;
+const OPEN_REGISTRATION = 0;
+const ZERO_ROOT = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+/**
+ * Deploys the token, the SuperHelper implementation and the transparent proxy initialized with the token.
+ * The proxy deploys its own ProxyAdmin, owned by the deployer, which is the only account able to upgrade it.
+ * The whole token supply is handed to the proxy, which pays the welcome grants.
+ */
+export const SuperHelperProxyModule = buildModule("SuperHelperProxyModule", (m) => {
+    const owner = m.getAccount(0);
+
+    const helperToken = m.contract("HelperToken");
+    const libraries = m.useModule(SuperHelperLibrariesModule);
+    const implementation = m.contract("SuperHelper", [], { id: "SuperHelperImplementation", libraries });
+    const initialize = m.encodeFunctionCall(implementation, "initialize", [helperToken, owner]);
+    const proxy = m.contract("TransparentUpgradeableProxy", [implementation, owner, initialize]);
+
+    const proxyAdminAddress = m.readEventArgument(proxy, "AdminChanged", "newAdmin");
+    const proxyAdmin = m.contractAt("ProxyAdmin", proxyAdminAddress);
+
+    const totalSupply = m.staticCall(helperToken, "totalSupply");
+    m.call(helperToken, "transfer", [proxy, totalSupply]);
+
+    return { helperToken, implementation, proxy, proxyAdmin };
+});
+
+/**
+ * Economics default to the values the contract is deployed with,
+ * override them per network with a file from ignition/parameters.
+ */
 const SuperHelperModule = buildModule("SuperHelperModule", (m) => {
 
-    const superHelper = m.contract("SuperHelper");
+    const bronzeThreshold = m.getParameter("bronzeThreshold", 10);
+    const silverThreshold = m.getParameter("silverThreshold", 30);
+    const goldThreshold = m.getParameter("goldThreshold", 50);
+    const inactivityPeriod = m.getParameter("inactivityPeriod", 30 * 24 * 60 * 60);
+    const depreciationRates = m.getParameter("depreciationRates", [5, 3, 2, 1]);
+    const welcomeGrant = m.getParameter("welcomeGrant", 100_00);
+    const minArbiterBadge = m.getParameter("minArbiterBadge", GOLD_BADGE);
+    const registrationMode = m.getParameter("registrationMode", OPEN_REGISTRATION);
+    const allowlistRoot = m.getParameter("allowlistRoot", ZERO_ROOT);
+    const invitationQuota = m.getParameter("invitationQuota", 3);
+
+    const { helperToken, proxy, proxyAdmin } = m.useModule(SuperHelperProxyModule);
+    const superHelper = m.contractAt("SuperHelper", proxy);
+    const disputeModule = m.contract("DisputeModule", [superHelper, minArbiterBadge]);
+    const badgeNFT = m.contract("BadgeNFT", [superHelper]);
+    const forwarder = m.contract("SuperHelperForwarder");
+    const registrationModule = m.contract("RegistrationModule", [superHelper, invitationQuota]);
+    const jobLens = m.contract("JobLens", [superHelper]);
+
+    m.call(superHelper, "setDisputeModule", [disputeModule]);
+    m.call(superHelper, "setBadgeNFT", [badgeNFT]);
+    m.call(superHelper, "setTrustedForwarder", [forwarder]);
+    m.call(superHelper, "setRegistrationModule", [registrationModule]);
+    m.call(registrationModule, "setAllowlistRoot", [allowlistRoot]);
+    m.call(superHelper, "setBadgeThresholds", [bronzeThreshold, silverThreshold, goldThreshold]);
+    m.call(superHelper, "setDepreciation", [inactivityPeriod, depreciationRates]);
+    m.call(superHelper, "setWelcomeGrant", [welcomeGrant]);
+    m.call(superHelper, "setRegistrationMode", [registrationMode]);
 
-    return { superHelper };
+    return { superHelper, helperToken, proxyAdmin, disputeModule, badgeNFT, forwarder, registrationModule, jobLens };
 });
 
 export default SuperHelperModule;
@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deploys the libraries linked to the SuperHelper implementation, which keep its code under the contract size limit.
+ * Pass the returned futures as the `libraries` of every SuperHelper deployment.
+ */
+export const SuperHelperLibrariesModule = buildModule("SuperHelperLibrariesModule", (m) => {
+    const Applications = m.library("Applications");
+    const Economics = m.library("Economics");
+    const JobIndexes = m.library("JobIndexes");
+    const Metadata = m.library("Metadata");
+    const Milestones = m.library("Milestones");
+    const Payments = m.library("Payments");
+    const Ratings = m.library("Ratings");
+
+    return { Applications, Economics, JobIndexes, Metadata, Milestones, Payments, Ratings };
+});
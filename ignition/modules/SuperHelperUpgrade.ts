@@ -0,0 +1,25 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import { SuperHelperLibrariesModule } from "./SuperHelperLibraries";
+
+/**
+ * Deploys the current SuperHelper code and points the proxy to it, keeping the state of the marketplace,
+ * then runs the migrations the proxy has not gone through yet.
+ * The proxy and ProxyAdmin addresses come from the initial deployment (SuperHelperProxyModule#TransparentUpgradeableProxy
+ * and SuperHelperProxyModule#ProxyAdmin in deployed_addresses.json). Run it with a new deployment id for each upgrade,
+ * from the account owning the ProxyAdmin.
+ */
+const SuperHelperUpgradeModule = buildModule("SuperHelperUpgradeModule", (m) => {
+
+    const proxy = m.getParameter<string>("proxy");
+    const proxyAdmin = m.contractAt("ProxyAdmin", m.getParameter<string>("proxyAdmin"));
+
+    const libraries = m.useModule(SuperHelperLibrariesModule);
+    const implementation = m.contract("SuperHelper", [], { libraries });
+    const migrate = m.encodeFunctionCall(implementation, "migrate", []);
+    m.call(proxyAdmin, "upgradeAndCall", [proxy, implementation, migrate]);
+
+    return { implementation, proxyAdmin };
+});
+
+export default SuperHelperUpgradeModule;
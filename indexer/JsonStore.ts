@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+
+import {IndexerState, IndexerStore} from "./types";
+
+/**
+ * @title JSON file store of the indexer
+ * @notice Persists the indexer state in a single JSON file, written atomically through a temporary file.
+ */
+export class JsonStore implements IndexerStore {
+    constructor(readonly filePath: string) {
+    }
+
+    async load(): Promise<IndexerState | undefined> {
+        if (!fs.existsSync(this.filePath)) {
+            return undefined;
+        }
+
+        return JSON.parse(await fs.promises.readFile(this.filePath, "utf8"));
+    }
+
+    async save(state: IndexerState): Promise<void> {
+        const temporaryPath = `${this.filePath}.tmp`;
+
+        await fs.promises.mkdir(path.dirname(this.filePath), {recursive: true});
+        await fs.promises.writeFile(temporaryPath, JSON.stringify(state, null, 2));
+        await fs.promises.rename(temporaryPath, this.filePath);
+    }
+}
+
+/**
+ * @notice Store keeping the state in memory only, useful for tests and one-shot scripts.
+ */
+export class MemoryStore implements IndexerStore {
+    private state?: string;
+
+    async load(): Promise<IndexerState | undefined> {
+        return this.state === undefined ? undefined : JSON.parse(this.state);
+    }
+
+    async save(state: IndexerState): Promise<void> {
+        this.state = JSON.stringify(state);
+    }
+}
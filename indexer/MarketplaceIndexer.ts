@@ -0,0 +1,328 @@
+import {getAddress, Log, Provider, ZeroAddress} from "ethers";
+
+import type {SuperHelper} from "../typechain-types";
+import {decodeTag} from "../sdk/descriptions";
+import {JobStatus} from "../sdk/types";
+import {
+    BlockRef,
+    INDEXED_EVENTS,
+    IndexedEvent,
+    IndexedEventName,
+    IndexedJob,
+    IndexedUser,
+    IndexerState,
+    IndexerStore,
+    JobFilter
+} from "./types";
+
+export interface MarketplaceIndexerOptions {
+    superHelper: SuperHelper;
+    store: IndexerStore;
+    /** First block to scan, usually the deployment block of SuperHelper. */
+    fromBlock?: number;
+    /** Maximum number of blocks requested in a single getLogs call. */
+    batchSize?: number;
+    /** Number of block hashes remembered to find the common ancestor after a reorg. */
+    trackedBlocks?: number;
+}
+
+/**
+ * @title Indexer of the SuperHelper marketplace
+ * @notice Rebuilds jobs and users from the contract logs so they can be queried by creator, worker,
+ * status, reward range, category or tag without looping over jobCount.
+ * @dev Decoded events are persisted in the store together with the last indexed block (checkpoint).
+ * Before each sync the remembered block hashes are compared with the chain; on a mismatch the events
+ * after the common ancestor are dropped and the state is replayed from the remaining ones.
+ */
+export class MarketplaceIndexer {
+    private readonly superHelper: SuperHelper;
+    private readonly provider: Provider;
+    private readonly store: IndexerStore;
+    private readonly fromBlock: number;
+    private readonly batchSize: number;
+    private readonly trackedBlocks: number;
+
+    private state: IndexerState = {blocks: [], events: []};
+    private jobs = new Map<bigint, IndexedJob>();
+    private users = new Map<string, IndexedUser>();
+    private loaded = false;
+
+    constructor(options: MarketplaceIndexerOptions) {
+        this.superHelper = options.superHelper;
+        this.provider = options.superHelper.runner!.provider!;
+        this.store = options.store;
+        this.fromBlock = options.fromBlock ?? 0;
+        this.batchSize = options.batchSize ?? 2000;
+        this.trackedBlocks = options.trackedBlocks ?? 128;
+    }
+
+    get checkpoint(): BlockRef | undefined {
+        return this.state.checkpoint;
+    }
+
+    /**
+     * @notice Indexes every block up to the current head, rolling back reorganized blocks first.
+     * @return The number of the last indexed block.
+     */
+    async sync(): Promise<number> {
+        await this.load();
+
+        const head = await this.provider.getBlockNumber();
+        await this.handleReorg(head);
+
+        const address = await this.superHelper.getAddress();
+        const topics = INDEXED_EVENTS.map((name) => this.superHelper.interface.getEvent(name)!.topicHash);
+        let start = this.state.checkpoint ? this.state.checkpoint.number + 1 : this.fromBlock;
+
+        while (start <= head) {
+            const end = Math.min(head, start + this.batchSize - 1);
+            const logs = await this.provider.getLogs({address, fromBlock: start, toBlock: end, topics: [topics]});
+
+            for (const log of logs) {
+                const event = await this.decode(log);
+                this.state.events.push(event);
+                this.trackBlock({number: event.blockNumber, hash: event.blockHash});
+                this.apply(event);
+            }
+
+            const block = await this.provider.getBlock(end);
+            this.state.checkpoint = {number: end, hash: block!.hash!};
+            this.trackBlock(this.state.checkpoint);
+            start = end + 1;
+        }
+
+        await this.store.save(this.state);
+        return this.state.checkpoint?.number ?? this.fromBlock - 1;
+    }
+
+    getJob(id: bigint): IndexedJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    /**
+     * @notice Returns the indexed jobs matching every criterion of the filter, ordered by id.
+     */
+    getJobs(filter: JobFilter = {}): IndexedJob[] {
+        const creator = filter.creator && getAddress(filter.creator);
+        const worker = filter.worker && getAddress(filter.worker);
+
+        return [...this.jobs.values()]
+            .filter((job) => creator === undefined || job.creator === creator)
+            .filter((job) => worker === undefined || job.worker === worker)
+            .filter((job) => filter.status === undefined || job.status === filter.status)
+            .filter((job) => filter.minReward === undefined || job.reward >= filter.minReward)
+            .filter((job) => filter.maxReward === undefined || job.reward <= filter.maxReward)
+            .filter((job) => filter.category === undefined || job.category === filter.category)
+            .filter((job) => filter.tag === undefined || job.tags.includes(filter.tag))
+            .sort((a, b) => (a.id < b.id ? -1 : 1));
+    }
+
+    getUser(address: string): IndexedUser | undefined {
+        return this.users.get(getAddress(address));
+    }
+
+    getUsers(): IndexedUser[] {
+        return [...this.users.values()];
+    }
+
+    private async load(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+
+        this.state = await this.store.load() ?? {blocks: [], events: []};
+        this.rebuild();
+        this.loaded = true;
+    }
+
+    /**
+     * @dev Walks the remembered blocks from the newest one and rolls back to the first one still on chain.
+     */
+    private async handleReorg(head: number): Promise<void> {
+        const checkpoint = this.state.checkpoint;
+        if (checkpoint === undefined) {
+            return;
+        }
+
+        for (const ref of [...this.state.blocks].reverse()) {
+            if (ref.number > head) {
+                continue;
+            }
+
+            const block = await this.provider.getBlock(ref.number);
+            if (block?.hash === ref.hash) {
+                if (ref.number !== checkpoint.number) {
+                    this.rollback(ref);
+                }
+                return;
+            }
+        }
+
+        this.rollback(undefined);
+    }
+
+    private rollback(ancestor: BlockRef | undefined): void {
+        const lastKept = ancestor?.number ?? this.fromBlock - 1;
+
+        this.state = {
+            checkpoint: ancestor,
+            blocks: this.state.blocks.filter((block) => block.number <= lastKept),
+            events: this.state.events.filter((event) => event.blockNumber <= lastKept),
+        };
+        this.rebuild();
+    }
+
+    private trackBlock(ref: BlockRef): void {
+        const blocks = this.state.blocks;
+        if (blocks.length > 0 && blocks[blocks.length - 1].number === ref.number) {
+            return;
+        }
+
+        blocks.push(ref);
+        if (blocks.length > this.trackedBlocks) {
+            blocks.splice(0, blocks.length - this.trackedBlocks);
+        }
+    }
+
+    private async decode(log: Log): Promise<IndexedEvent> {
+        const parsed = this.superHelper.interface.parseLog(log)!;
+        const args: Record<string, string> = {};
+        parsed.fragment.inputs.forEach((input, index) => {
+            args[input.name] = parsed.args[index].toString();
+        });
+
+        // JobDisputed does not carry the rating given by the creator, it is read at the block of the event.
+        if (parsed.name === "JobDisputed") {
+            const job = await this.superHelper.jobs(args.id, {blockTag: log.blockNumber});
+            args.stars = job.stars.toString();
+        }
+
+        return {
+            name: parsed.name as IndexedEventName,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            logIndex: log.index,
+            transactionHash: log.transactionHash,
+            args,
+        };
+    }
+
+    private rebuild(): void {
+        this.jobs = new Map();
+        this.users = new Map();
+        this.state.events.forEach((event) => this.apply(event));
+    }
+
+    private apply(event: IndexedEvent): void {
+        const args = event.args;
+
+        switch (event.name) {
+            case "FirstRegistration":
+                this.users.set(getAddress(args.newUser), {
+                    address: getAddress(args.newUser),
+                    registeredAtBlock: event.blockNumber,
+                    nbJobCreated: 0n,
+                    nbJobTaken: 0n,
+                    nbJobCompleted: 0n,
+                    nbJobAbandoned: 0n,
+                });
+                break;
+            case "JobAdded":
+                this.jobs.set(BigInt(args.id), {
+                    id: BigInt(args.id),
+                    creator: getAddress(args.creator),
+                    worker: ZeroAddress,
+                    description: args.description,
+                    stars: 0,
+                    reward: BigInt(args.price),
+                    released: 0n,
+                    status: JobStatus.CREATED,
+                    deliverable: "",
+                    tags: [],
+                    createdAtBlock: event.blockNumber,
+                    updatedAtBlock: event.blockNumber,
+                });
+                this.updateUser(args.creator, (user) => user.nbJobCreated++);
+                break;
+            case "JobMetadataSet":
+                this.updateJob(event, {
+                    category: BigInt(args.category),
+                    contentHash: args.contentHash,
+                    tags: args.tags === "" ? [] : args.tags.split(",").map(decodeTag),
+                });
+                break;
+            case "JobTokenSet":
+                this.updateJob(event, {token: getAddress(args.token)});
+                break;
+            case "JobUpdated":
+                this.updateJob(event, {description: args.description, reward: BigInt(args.reward)});
+                break;
+            case "JobTaken":
+                this.updateJob(event, {worker: getAddress(args.worker), status: JobStatus.TAKEN});
+                this.updateUser(args.worker, (user) => user.nbJobTaken++);
+                break;
+            case "ApplicationAccepted":
+                // Followed by JobTaken, only the price agreed with the applicant is applied here.
+                this.updateJob(event, {reward: BigInt(args.price)});
+                break;
+            case "JobAbandoned":
+                this.updateJob(event, {worker: ZeroAddress, status: JobStatus.CREATED});
+                this.updateUser(args.worker, (user) => user.nbJobAbandoned++);
+                break;
+            case "JobSubmitted":
+                this.updateJob(event, {status: JobStatus.SUBMITTED, deliverable: args.deliverable});
+                break;
+            case "JobCompletedAndPaid":
+                this.updateJob(event, {status: JobStatus.COMPLETED, stars: Number(args.stars)});
+                this.updateUser(args.worker, (user) => user.nbJobCompleted++);
+                break;
+            case "JobPaymentClaimed":
+                this.updateJob(event, {status: JobStatus.COMPLETED});
+                this.updateUser(args.worker, (user) => user.nbJobCompleted++);
+                break;
+            case "JobCompletedButNotPaid":
+                this.updateJob(event, {status: JobStatus.REFUNDED, stars: Number(args.stars)});
+                break;
+            case "JobCanceled":
+            case "JobExpired":
+            case "EmergencyWithdrawal":
+                this.updateJob(event, {status: JobStatus.CANCELLED});
+                break;
+            case "JobDisputed":
+                this.updateJob(event, {status: JobStatus.DISPUTED, stars: Number(args.stars)});
+                break;
+            case "MilestoneReleased": {
+                const job = this.jobs.get(BigInt(args.id));
+                if (job !== undefined) {
+                    this.updateJob(event, {released: job.released + BigInt(args.amount)});
+                }
+                break;
+            }
+            case "JobSettled": {
+                const workerAmount = BigInt(args.workerAmount);
+                const creatorAmount = BigInt(args.creatorAmount);
+                const status = creatorAmount === 0n ? JobStatus.COMPLETED : workerAmount === 0n ? JobStatus.REFUNDED : JobStatus.SETTLED;
+
+                this.updateJob(event, {status});
+                if (workerAmount >= creatorAmount) {
+                    this.updateUser(args.worker, (user) => user.nbJobCompleted++);
+                }
+                break;
+            }
+        }
+    }
+
+    private updateJob(event: IndexedEvent, changes: Partial<IndexedJob>): void {
+        const job = this.jobs.get(BigInt(event.args.id));
+        if (job !== undefined) {
+            Object.assign(job, changes, {updatedAtBlock: event.blockNumber});
+        }
+    }
+
+    private updateUser(address: string, update: (user: IndexedUser) => void): void {
+        const user = this.users.get(getAddress(address));
+        if (user !== undefined) {
+            update(user);
+        }
+    }
+}
@@ -0,0 +1,3 @@
+export * from "./JsonStore";
+export * from "./MarketplaceIndexer";
+export * from "./types";
@@ -0,0 +1,101 @@
+import {JobStatus} from "../sdk/types";
+
+/**
+ * Names of the SuperHelper events consumed by the indexer.
+ */
+export const INDEXED_EVENTS = [
+    "FirstRegistration",
+    "JobAdded",
+    "JobMetadataSet",
+    "JobTokenSet",
+    "JobUpdated",
+    "JobTaken",
+    "JobAbandoned",
+    "JobSubmitted",
+    "JobCompletedAndPaid",
+    "JobCompletedButNotPaid",
+    "JobCanceled",
+    "JobDisputed",
+    "JobPaymentClaimed",
+    "JobExpired",
+    "JobSettled",
+    "MilestoneReleased",
+    "ApplicationAccepted",
+    "EmergencyWithdrawal",
+] as const;
+
+export type IndexedEventName = typeof INDEXED_EVENTS[number];
+
+export interface BlockRef {
+    number: number;
+    hash: string;
+}
+
+/**
+ * A decoded contract log. Arguments are kept as strings so the event can be stored as plain JSON.
+ */
+export interface IndexedEvent {
+    name: IndexedEventName;
+    blockNumber: number;
+    blockHash: string;
+    logIndex: number;
+    transactionHash: string;
+    args: Record<string, string>;
+}
+
+/**
+ * Everything the store persists. Jobs and users are rebuilt from the events when loading.
+ */
+export interface IndexerState {
+    checkpoint?: BlockRef;
+    blocks: BlockRef[];
+    events: IndexedEvent[];
+}
+
+export interface IndexedJob {
+    id: bigint;
+    creator: string;
+    worker: string;
+    description: string;
+    stars: number;
+    reward: bigint;
+    /** Part of the reward already paid to the worker through milestones. */
+    released: bigint;
+    status: JobStatus;
+    deliverable: string;
+    /** Category of a job described off-chain, undefined for a plain description. */
+    category?: bigint;
+    /** Hash of the off-chain description, undefined for a plain description. */
+    contentHash?: string;
+    tags: string[];
+    /** Payment token of a job paid in another token or in ETH (NATIVE_TOKEN), undefined for HELP. */
+    token?: string;
+    createdAtBlock: number;
+    updatedAtBlock: number;
+}
+
+export interface IndexedUser {
+    address: string;
+    registeredAtBlock: number;
+    nbJobCreated: bigint;
+    nbJobTaken: bigint;
+    nbJobCompleted: bigint;
+    nbJobAbandoned: bigint;
+}
+
+export interface JobFilter {
+    creator?: string;
+    worker?: string;
+    status?: JobStatus;
+    minReward?: bigint;
+    maxReward?: bigint;
+    category?: bigint;
+    /** Only jobs carrying this tag. */
+    tag?: string;
+}
+
+export interface IndexerStore {
+    load(): Promise<IndexerState | undefined>;
+
+    save(state: IndexerState): Promise<void>;
+}
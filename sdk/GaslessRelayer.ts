@@ -0,0 +1,132 @@
+import {
+    AbstractSigner,
+    Provider,
+    resolveAddress,
+    Signer,
+    TransactionRequest,
+    TransactionResponse,
+    TypedDataDomain,
+    TypedDataField
+} from "ethers";
+
+import {SuperHelper__factory, SuperHelperForwarder, SuperHelperForwarder__factory} from "../typechain-types";
+
+/**
+ * Seconds during which a signed forward request can be executed.
+ */
+const REQUEST_TTL = 60n * 60n;
+
+const FORWARD_REQUEST_TYPES: Record<string, TypedDataField[]> = {
+    ForwardRequest: [
+        {name: "from", type: "address"},
+        {name: "to", type: "address"},
+        {name: "value", type: "uint256"},
+        {name: "gas", type: "uint256"},
+        {name: "nonce", type: "uint256"},
+        {name: "deadline", type: "uint48"},
+        {name: "data", type: "bytes"},
+    ],
+};
+
+/**
+ * @title Relayer paying the gas of the actions signed by users
+ * @notice Wraps the ERC-2771 forwarder trusted by SuperHelper: users sign forward requests
+ * and the relayer account submits them, so users never need ETH.
+ */
+export class GaslessRelayer {
+    constructor(
+        readonly forwarder: SuperHelperForwarder,
+        readonly relayer: Signer
+    ) {
+    }
+
+    /**
+     * @notice Builds a relayer for the forwarder trusted by a deployed SuperHelper.
+     * @param superHelperAddress Address of the SuperHelper contract.
+     * @param relayer Signer paying the gas of the relayed transactions.
+     */
+    static async connect(superHelperAddress: string, relayer: Signer): Promise<GaslessRelayer> {
+        const superHelper = SuperHelper__factory.connect(superHelperAddress, relayer);
+        const forwarder = SuperHelperForwarder__factory.connect(await superHelper.trustedForwarder(), relayer);
+
+        return new GaslessRelayer(forwarder, relayer);
+    }
+
+    /**
+     * @notice Returns a signer whose transactions are signed by the user and sent by the relayer.
+     */
+    signerFor(signer: Signer): RelayedSigner {
+        return new RelayedSigner(signer, this);
+    }
+
+    /**
+     * @notice Signs a transaction as a forward request of the user and submits it through the forwarder.
+     * @dev The forwarder hides the revert reason of the relayed call, so the call is estimated as the user first
+     * to surface it.
+     */
+    async relay(signer: Signer, tx: TransactionRequest): Promise<TransactionResponse> {
+        const provider = this.relayer.provider!;
+        const from = await signer.getAddress();
+        const to = await resolveAddress(tx.to!);
+        const data = tx.data ?? "0x";
+
+        const gas = await provider.estimateGas({from, to, data});
+        const block = await provider.getBlock("latest");
+        const request = {
+            from,
+            to,
+            value: 0n,
+            gas,
+            nonce: await this.forwarder.nonces(from),
+            deadline: BigInt(block!.timestamp) + REQUEST_TTL,
+            data,
+        };
+
+        const {name, version, chainId, verifyingContract} = await this.forwarder.eip712Domain();
+        const domain: TypedDataDomain = {name, version, chainId, verifyingContract};
+        const signature = await signer.signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+
+        return this.forwarder.execute({...request, signature});
+    }
+}
+
+/**
+ * @notice Signer sending its transactions through a GaslessRelayer, usable as the runner of any contract
+ * that trusts the forwarder.
+ */
+export class RelayedSigner extends AbstractSigner {
+    constructor(
+        readonly signer: Signer,
+        readonly relayer: GaslessRelayer
+    ) {
+        super(signer.provider);
+    }
+
+    async getAddress(): Promise<string> {
+        return this.signer.getAddress();
+    }
+
+    connect(provider: Provider | null): RelayedSigner {
+        return new RelayedSigner(this.signer.connect(provider), this.relayer);
+    }
+
+    async signTransaction(): Promise<string> {
+        throw new Error("Relayed transactions are signed as forward requests");
+    }
+
+    async signMessage(message: string | Uint8Array): Promise<string> {
+        return this.signer.signMessage(message);
+    }
+
+    async signTypedData(
+        domain: TypedDataDomain,
+        types: Record<string, TypedDataField[]>,
+        value: Record<string, any>
+    ): Promise<string> {
+        return this.signer.signTypedData(domain, types, value);
+    }
+
+    async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
+        return this.relayer.relay(this.signer, tx);
+    }
+}
@@ -0,0 +1,644 @@
+import {
+    ContractTransactionReceipt,
+    ContractTransactionResponse,
+    getAddress,
+    id,
+    Interface,
+    parseUnits,
+    Signature,
+    Signer,
+    TypedDataField,
+    ZeroAddress,
+    ZeroHash
+} from "ethers";
+
+import {
+    HelperToken,
+    HelperToken__factory,
+    IERC20__factory,
+    IERC20Metadata__factory,
+    RegistrationModule,
+    RegistrationModule__factory,
+    SuperHelper,
+    SuperHelper__factory
+} from "../typechain-types";
+import {decodeTag, encodeTag, JobDescription, prepareJobDescription} from "./descriptions";
+import {toSuperHelperError} from "./errors";
+import {GaslessRelayer} from "./GaslessRelayer";
+import {signInvitation} from "./registration";
+import {
+    Application,
+    Badge,
+    Invitation,
+    Job,
+    JobMetadata,
+    JobRequirements,
+    JobStatus,
+    Milestone,
+    NATIVE_TOKEN,
+    User
+} from "./types";
+import {HelpAmount, parseHelp, TokenAmount, toHelpUnits} from "./units";
+
+/**
+ * Seconds during which a signed permit can be used.
+ */
+const PERMIT_TTL = 60n * 60n;
+
+/**
+ * Number of decimals of ETH, designated by NATIVE_TOKEN.
+ */
+const ETH_DECIMALS = 18;
+
+const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+    Permit: [
+        {name: "owner", type: "address"},
+        {name: "spender", type: "address"},
+        {name: "value", type: "uint256"},
+        {name: "nonce", type: "uint256"},
+        {name: "deadline", type: "uint256"},
+    ],
+};
+
+/**
+ * @title Typed client for the SuperHelper job lifecycle
+ * @notice Exposes one method per lifecycle step, approves the HELP needed by each step
+ * (escrowed amount and pending depreciation) and rethrows reverts as typed SuperHelperError.
+ * With a GaslessRelayer, actions are signed by the user and sent by the relayer,
+ * approvals being replaced by permits.
+ */
+export class SuperHelperClient {
+    constructor(
+        readonly superHelper: SuperHelper,
+        readonly helperToken: HelperToken,
+        readonly signer: Signer,
+        readonly relayer?: GaslessRelayer
+    ) {
+    }
+
+    /**
+     * @notice Builds a client for a deployed SuperHelper, resolving its HelperToken.
+     * @param superHelperAddress Address of the SuperHelper contract.
+     * @param signer Signer sending the transactions, or only signing them when a relayer is given.
+     * @param relayer Relayer paying the gas of the SuperHelper actions and permits.
+     */
+    static async connect(superHelperAddress: string, signer: Signer, relayer?: GaslessRelayer): Promise<SuperHelperClient> {
+        const superHelper = SuperHelper__factory.connect(superHelperAddress, relayer ? relayer.signerFor(signer) : signer);
+        const helperToken = HelperToken__factory.connect(await superHelper.helperToken(), signer);
+
+        return new SuperHelperClient(superHelper, helperToken, signer, relayer);
+    }
+
+    /**
+     * @notice Registers the signer and receives the welcome HELP grant, while the registration is open.
+     */
+    async register(): Promise<ContractTransactionReceipt> {
+        return this.send(() => this.superHelper.distributeToNewUser());
+    }
+
+    /**
+     * @notice Registers the signer with its proof of the allowlist.
+     * @param proof Proof returned by AllowlistTree.getProof for the signer.
+     */
+    async registerWithProof(proof: string[]): Promise<ContractTransactionReceipt> {
+        const registrationModule = await this.getRegistrationModule();
+        return this.send(() => registrationModule.registerWithProof(proof), registrationModule.interface);
+    }
+
+    /**
+     * @notice Registers the signer with an invitation signed for it.
+     */
+    async registerWithInvitation(invitation: Invitation): Promise<ContractTransactionReceipt> {
+        const registrationModule = await this.getRegistrationModule();
+        return this.send(
+            () => registrationModule.registerWithInvitation(invitation.inviter, invitation.deadline, invitation.signature),
+            registrationModule.interface
+        );
+    }
+
+    /**
+     * @notice Signs an invitation letting another address register, as owner or BRONZE+ user.
+     * @param invitee Address allowed to register with the invitation.
+     * @param deadline Timestamp after which the invitation can't be used, defaults to a week.
+     */
+    async signInvitation(invitee: string, deadline?: bigint): Promise<Invitation> {
+        return signInvitation(this.signer, await this.getRegistrationModule(), invitee, deadline);
+    }
+
+    /**
+     * @notice Approves the reward (plus pending depreciation) and posts a new job.
+     * @param description Job details.
+     * @param reward Reward escrowed until the job is completed.
+     * @param duration Seconds given to the worker to submit the job once taken.
+     * @return The id of the created job and the transaction receipt.
+     */
+    async createJob(description: string, reward: HelpAmount, duration: bigint | number): Promise<{ jobId: bigint, receipt: ContractTransactionReceipt }> {
+        const rewardUnits = toHelpUnits(reward);
+        await this.ensureAllowance(rewardUnits);
+
+        const receipt = await this.send(() => this.superHelper.createJob(description, rewardUnits, duration));
+        return {jobId: this.parseJobId(receipt), receipt};
+    }
+
+    /**
+     * @notice Posts a new job paid in another token allowed by the owner, approving the reward,
+     * or in ETH with NATIVE_TOKEN, sending the reward along.
+     * @param description Job details.
+     * @param token Payment token of the job.
+     * @param reward Reward escrowed until the job is completed, in the decimals of the token ("0.5" ETH)
+     * or in its base units (wei for ETH).
+     * @param duration Seconds given to the worker to submit the job once taken.
+     * @return The id of the created job and the transaction receipt.
+     */
+    async createJobWithToken(
+        description: string,
+        token: string,
+        reward: TokenAmount,
+        duration: bigint | number
+    ): Promise<{ jobId: bigint, receipt: ContractTransactionReceipt }> {
+        const rewardUnits = await this.toTokenUnits(token, reward);
+        const overrides = await this.preparePayment(token, rewardUnits);
+
+        const receipt = await this.send(() => this.superHelper.createJobWithToken(description, token, rewardUnits, duration, overrides));
+        return {jobId: this.parseJobId(receipt), receipt};
+    }
+
+    /**
+     * @notice Posts a new job in a single transaction, the reward (plus pending depreciation)
+     * being approved by a signed permit.
+     * @param description Job details.
+     * @param reward Reward escrowed until the job is completed.
+     * @param duration Seconds given to the worker to submit the job once taken.
+     * @return The id of the created job and the transaction receipt.
+     */
+    async createJobWithPermit(description: string, reward: HelpAmount, duration: bigint | number): Promise<{ jobId: bigint, receipt: ContractTransactionReceipt }> {
+        const rewardUnits = toHelpUnits(reward);
+        const permit = await this.signPermit(rewardUnits + await this.estimateDepreciation());
+
+        const receipt = await this.send(() => this.superHelper.createJobWithPermit(description, rewardUnits, duration, permit));
+        return {jobId: this.parseJobId(receipt), receipt};
+    }
+
+    /**
+     * @notice Approves the reward (plus pending depreciation) and posts a job described off-chain. The description is validated and hashed,
+     * its canonical serialization (prepareJobDescription(description).content) must be published at the URI.
+     * @param description Job description following the job description schema.
+     * @param contentURI URI of the published description, stored as the job description.
+     * @param reward Reward escrowed until the job is completed.
+     * @param duration Seconds given to the worker to submit the job once taken.
+     * @return The id of the created job and the transaction receipt.
+     */
+    async createJobWithDescription(
+        description: JobDescription,
+        contentURI: string,
+        reward: HelpAmount,
+        duration: bigint | number
+    ): Promise<{ jobId: bigint, receipt: ContractTransactionReceipt }> {
+        const {metadata} = prepareJobDescription(description);
+        const rewardUnits = toHelpUnits(reward);
+        await this.ensureAllowance(rewardUnits);
+
+        const receipt = await this.send(() => this.superHelper.createJobWithMetadata(
+            contentURI,
+            {category: metadata.category, contentHash: metadata.contentHash, tags: metadata.tags.map(encodeTag)},
+            rewardUnits,
+            duration
+        ));
+        return {jobId: this.parseJobId(receipt), receipt};
+    }
+
+    /**
+     * @notice Approves the total of the milestones (plus pending depreciation) and posts a job paid in stages.
+     * @param description Job details.
+     * @param milestones Description and amount of each milestone, released one by one by approveMilestone.
+     * @param duration Seconds given to the worker to submit the job once taken.
+     * @return The id of the created job and the transaction receipt.
+     */
+    async createJobWithMilestones(
+        description: string,
+        milestones: { description: string, amount: HelpAmount }[],
+        duration: bigint | number
+    ): Promise<{ jobId: bigint, receipt: ContractTransactionReceipt }> {
+        const amounts = milestones.map((milestone) => toHelpUnits(milestone.amount));
+        await this.ensureAllowance(amounts.reduce((total, amount) => total + amount, 0n));
+
+        const receipt = await this.send(() => this.superHelper.createJobWithMilestones(
+            description,
+            milestones.map((milestone) => milestone.description),
+            amounts,
+            duration
+        ));
+        return {jobId: this.parseJobId(receipt), receipt};
+    }
+
+    /**
+     * @notice Releases a milestone of a taken or submitted job to its worker, as creator.
+     * @param index Index of the milestone in the order given at creation.
+     */
+    async approveMilestone(jobId: bigint, index: bigint | number): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.approveMilestone(jobId, index));
+    }
+
+    /**
+     * @notice Edits an open job as creator, approving the difference if the reward increases.
+     * @param description New job details, or URI of the off-chain description.
+     * @param reward New reward in the payment token of the job, the difference with the current one is escrowed
+     * or refunded.
+     */
+    async updateJob(jobId: bigint, description: string, reward: TokenAmount): Promise<ContractTransactionReceipt> {
+        const job = await this.superHelper.jobs(jobId);
+        const token = await this.getJobToken(jobId);
+        const rewardUnits = await this.toTokenUnits(token, reward);
+
+        const overrides = await this.preparePayment(token, rewardUnits > job.reward ? rewardUnits - job.reward : 0n);
+        return this.send(() => this.superHelper.updateJob(jobId, description, rewardUnits, overrides));
+    }
+
+    /**
+     * @notice Takes an open job as worker.
+     */
+    async takeJob(jobId: bigint): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.takeJob(jobId));
+    }
+
+    /**
+     * @notice Takes an open job as worker in a single transaction, the pending depreciation
+     * being approved by a signed permit.
+     */
+    async takeJobWithPermit(jobId: bigint): Promise<ContractTransactionReceipt> {
+        const depreciation = await this.estimateDepreciation();
+        if (depreciation === 0n) {
+            return this.send(() => this.superHelper.takeJob(jobId));
+        }
+
+        const permit = await this.signPermit(depreciation);
+        return this.send(() => this.superHelper.takeJobWithPermit(jobId, permit));
+    }
+
+    /**
+     * @notice Sets the requirements a worker must meet to take or apply for a job, as creator.
+     */
+    async setJobRequirements(jobId: bigint, requirements: JobRequirements): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.setJobRequirements(
+            jobId,
+            requirements.minBadge,
+            requirements.minAverageRating,
+            requirements.applicationsOnly
+        ));
+    }
+
+    /**
+     * @notice Applies for an open job as worker.
+     * @param message Message to the creator, only its hash is stored on-chain.
+     * @param proposedPrice Price asked instead of the job reward, in the payment token of the job.
+     */
+    async applyForJob(jobId: bigint, message?: string, proposedPrice?: TokenAmount): Promise<ContractTransactionReceipt> {
+        const messageHash = message === undefined ? ZeroHash : id(message);
+        const price = proposedPrice === undefined ? 0n : await this.toTokenUnits(await this.getJobToken(jobId), proposedPrice);
+
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.applyForJob(jobId, messageHash, price));
+    }
+
+    /**
+     * @notice Assigns an applicant as worker, as creator, approving the difference if the applicant asked for more.
+     */
+    async acceptApplicant(jobId: bigint, applicant: string): Promise<ContractTransactionReceipt> {
+        const job = await this.superHelper.jobs(jobId);
+        const application = await this.superHelper.applications(jobId, applicant);
+
+        const overrides = await this.preparePayment(
+            await this.getJobToken(jobId),
+            application.proposedPrice > job.reward ? application.proposedPrice - job.reward : 0n
+        );
+        return this.send(() => this.superHelper.acceptApplicant(jobId, applicant, overrides));
+    }
+
+    /**
+     * @notice Releases a taken job as worker, counting against the worker's badge progression.
+     */
+    async abandonJob(jobId: bigint): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.abandonJob(jobId));
+    }
+
+    /**
+     * @notice Submits the work done on a taken job as worker.
+     * @param deliverable Reference to the delivered work (URI or content hash).
+     */
+    async submitJob(jobId: bigint, deliverable: string): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.submitJob(jobId, deliverable));
+    }
+
+    /**
+     * @notice Reviews a submitted job as creator, paying the worker unless the job is disputed.
+     * @param rating Rating from 1 to 5 inclusive, 0 is only accepted for a dispute.
+     * @param isDisputed Opens a dispute instead of paying the worker.
+     * @param tip Tip approved and paid to the worker on top of the reward, only accepted with a 5-star review.
+     * Given in the payment token of the job.
+     */
+    async completeAndReviewJob(
+        jobId: bigint,
+        rating: number,
+        isDisputed = false,
+        tip: TokenAmount = 0n
+    ): Promise<ContractTransactionReceipt> {
+        const token = await this.getJobToken(jobId);
+        const tipUnits = await this.toTokenUnits(token, tip);
+
+        const overrides = await this.preparePayment(token, tipUnits);
+        return this.send(() => this.superHelper.completeAndReviewJob(jobId, rating, isDisputed, tipUnits, overrides));
+    }
+
+    /**
+     * @notice Rates the creator of a finished job as worker.
+     * @param rating Rating from 1 to 5 inclusive.
+     */
+    async rateCreator(jobId: bigint, rating: number): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.rateCreator(jobId, rating));
+    }
+
+    /**
+     * @notice Cancels an open job and refunds its reward to the creator.
+     */
+    async cancelJob(jobId: bigint): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.cancelJob(jobId));
+    }
+
+    /**
+     * @notice Claims the reward of a submitted job the creator did not review within the review period.
+     */
+    async claimPayment(jobId: bigint): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.claimPayment(jobId));
+    }
+
+    /**
+     * @notice Cancels a taken job whose worker missed the deadline and refunds the creator.
+     */
+    async reclaimExpiredJob(jobId: bigint): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.reclaimExpiredJob(jobId));
+    }
+
+    /**
+     * @notice Refunds the escrow of a created or taken job to its creator while the emergency mode is active.
+     */
+    async emergencyWithdraw(jobId: bigint): Promise<ContractTransactionReceipt> {
+        return this.send(() => this.superHelper.emergencyWithdraw(jobId));
+    }
+
+    /**
+     * @notice Settles a disputed job the arbiters did not resolve.
+     * Only usable by the contract owner once the dispute timeout is over.
+     * @param isResolved Pays the worker if true, refunds the creator otherwise.
+     */
+    async handleDisputedJob(jobId: bigint, isResolved: boolean): Promise<ContractTransactionReceipt> {
+        return this.send(() => this.superHelper.handleDisputedJob(jobId, isResolved));
+    }
+
+    /**
+     * @notice Splits the reward of a disputed job the arbiters did not resolve.
+     * Only usable by the contract owner once the dispute timeout is over.
+     * @param workerShareBps Share of the reward paid to the worker, in basis points. The creator is refunded the rest.
+     */
+    async settleDisputedJob(jobId: bigint, workerShareBps: bigint | number): Promise<ContractTransactionReceipt> {
+        return this.send(() => this.superHelper.settleDisputedJob(jobId, workerShareBps));
+    }
+
+    async getJob(jobId: bigint): Promise<Job> {
+        const job = await this.superHelper.jobs(jobId);
+
+        return {
+            id: jobId,
+            creator: job.creator,
+            worker: job.worker,
+            description: job.description,
+            stars: Number(job.stars),
+            reward: job.reward,
+            status: Number(job.status) as JobStatus,
+            deliverable: job.deliverable,
+            duration: job.duration,
+            deadline: job.deadline,
+            submittedAt: job.submittedAt,
+            disputedAt: job.disputedAt,
+            released: job.released,
+            token: await this.getJobToken(jobId),
+            creatorStars: Number(await this.superHelper.creatorStars(jobId)),
+        };
+    }
+
+    /**
+     * @notice Returns the payment token of a job, the HelperToken address for a job paid in HELP.
+     */
+    async getJobToken(jobId: bigint): Promise<string> {
+        const token = await this.superHelper.jobTokens(jobId);
+        return token === ZeroAddress ? this.helperToken.getAddress() : token;
+    }
+
+    async getJobMetadata(jobId: bigint): Promise<JobMetadata> {
+        const metadata = await this.superHelper.getJobMetadata(jobId);
+
+        return {
+            category: metadata.category,
+            contentHash: metadata.contentHash,
+            tags: metadata.tags.map(decodeTag),
+        };
+    }
+
+    async getJobRequirements(jobId: bigint): Promise<JobRequirements> {
+        const requirements = await this.superHelper.jobRequirements(jobId);
+
+        return {
+            minBadge: Number(requirements.minBadge) as Badge,
+            minAverageRating: requirements.minAverageRating,
+            applicationsOnly: requirements.applicationsOnly,
+        };
+    }
+
+    async getApplications(jobId: bigint): Promise<Application[]> {
+        const applicants = await this.superHelper.getApplicants(jobId);
+
+        return Promise.all(applicants.map(async (applicant) => {
+            const application = await this.superHelper.applications(jobId, applicant);
+            return {applicant, messageHash: application.messageHash, proposedPrice: application.proposedPrice};
+        }));
+    }
+
+    /**
+     * @notice Average rating received by a worker, scaled by RATING_PRECISION (450 = 4.5 stars).
+     */
+    async averageWorkerRating(address?: string): Promise<bigint> {
+        return this.superHelper.averageWorkerRating(address ?? await this.signer.getAddress());
+    }
+
+    async getMilestones(jobId: bigint): Promise<Milestone[]> {
+        const milestones = await this.superHelper.getMilestones(jobId);
+
+        return milestones.map((milestone) => ({
+            description: milestone.description,
+            amount: milestone.amount,
+            released: milestone.released,
+        }));
+    }
+
+    async getUser(address?: string): Promise<User> {
+        const userAddress = address ?? await this.signer.getAddress();
+        const user = await this.superHelper.users(userAddress);
+
+        return {
+            address: userAddress,
+            lastActivity: user.lastActivity,
+            nbJobCompleted: user.nbJobCompleted,
+            nbJobAbandoned: user.nbJobAbandoned,
+            badgeLevel: Number(user.badgeLevel) as Badge,
+            isRegistered: user.isRegistered,
+            averageWorkerRating: await this.superHelper.averageWorkerRating(userAddress),
+            averageCreatorRating: await this.superHelper.averageCreatorRating(userAddress),
+        };
+    }
+
+    /**
+     * @notice Returns the depreciation the contract will charge on the next action of a user.
+     * @param address User to inspect, defaults to the signer.
+     */
+    async estimateDepreciation(address?: string): Promise<bigint> {
+        return this.superHelper.pendingDepreciation(address ?? await this.signer.getAddress());
+    }
+
+    /**
+     * @notice Approves and pays the pending depreciation of the signer without any other action.
+     */
+    async settleDepreciation(): Promise<ContractTransactionReceipt> {
+        await this.ensureAllowance(0n);
+        return this.send(() => this.superHelper.settleDepreciation());
+    }
+
+    /**
+     * @notice Signs an EIP-2612 permit letting SuperHelper spend HELP of the signer.
+     * @param value Allowance granted, replacing the current one.
+     */
+    async signPermit(value: bigint): Promise<SuperHelper.PermitStruct> {
+        const owner = await this.signer.getAddress();
+        const block = await this.signer.provider!.getBlock("latest");
+        const deadline = BigInt(block!.timestamp) + PERMIT_TTL;
+
+        const {name, version, chainId, verifyingContract} = await this.helperToken.eip712Domain();
+        const signature = Signature.from(await this.signer.signTypedData(
+            {name, version, chainId, verifyingContract},
+            PERMIT_TYPES,
+            {owner, spender: await this.superHelper.getAddress(), value, nonce: await this.helperToken.nonces(owner), deadline}
+        ));
+
+        return {value, deadline, v: signature.v, r: signature.r, s: signature.s};
+    }
+
+    /**
+     * @dev Connects the registration module of SuperHelper with the runner of the client.
+     */
+    private async getRegistrationModule(): Promise<RegistrationModule> {
+        return RegistrationModule__factory.connect(await this.superHelper.registrationModule(), this.superHelper.runner);
+    }
+
+    /**
+     * @dev Reads the id of the job created by a transaction from its JobAdded event.
+     */
+    private parseJobId(receipt: ContractTransactionReceipt): bigint {
+        const event = receipt.logs
+            .map((log) => this.superHelper.interface.parseLog(log))
+            .find((log) => log?.name === "JobAdded");
+
+        return event!.args.id;
+    }
+
+    /**
+     * @dev Normalizes an amount of a payment token to its base units, a string being parsed with the decimals
+     * of the token: 2 for HELP, 18 for ETH, read from the contract of another ERC-20 token.
+     */
+    private async toTokenUnits(token: string, amount: TokenAmount): Promise<bigint> {
+        if (typeof amount === "bigint") {
+            return amount;
+        }
+
+        const tokenAddress = getAddress(token);
+        if (tokenAddress === await this.helperToken.getAddress()) {
+            return parseHelp(amount);
+        }
+        const decimals = tokenAddress === NATIVE_TOKEN
+            ? ETH_DECIMALS
+            : await IERC20Metadata__factory.connect(tokenAddress, this.signer).decimals();
+        return parseUnits(amount, decimals);
+    }
+
+    /**
+     * @dev Prepares the payment of an expense in a token: approves HELP (plus pending depreciation)
+     * or another ERC-20 token, and returns the value to send along for ETH.
+     */
+    private async preparePayment(token: string, expense: bigint): Promise<{ value: bigint }> {
+        const tokenAddress = getAddress(token);
+        const isHelp = tokenAddress === await this.helperToken.getAddress();
+        await this.ensureAllowance(isHelp ? expense : 0n);
+
+        if (tokenAddress === NATIVE_TOKEN) {
+            if (this.relayer && expense > 0n) {
+                throw new Error("ETH payments can't be relayed");
+            }
+            return {value: expense};
+        }
+
+        if (isHelp) {
+            return {value: 0n};
+        }
+
+        const erc20 = IERC20__factory.connect(tokenAddress, this.signer);
+        const spender = await this.superHelper.getAddress();
+        if (expense > 0n && await erc20.allowance(await this.signer.getAddress(), spender) < expense) {
+            await this.send(() => erc20.approve(spender, expense), erc20.interface);
+        }
+        return {value: 0n};
+    }
+
+    /**
+     * @dev Approves the contract for an expense plus the depreciation charged by the upcoming action,
+     * which the contract defers once when it is not approved. Relayed clients have the relayer submit a permit
+     * instead of sending an approve.
+     */
+    private async ensureAllowance(expense: bigint): Promise<void> {
+        const owner = await this.signer.getAddress();
+        const spender = await this.superHelper.getAddress();
+        const required = expense + await this.estimateDepreciation(owner);
+
+        if (required === 0n || await this.helperToken.allowance(owner, spender) >= required) {
+            return;
+        }
+
+        if (this.relayer) {
+            const {value, deadline, v, r, s} = await this.signPermit(required);
+            const helperToken = this.helperToken.connect(this.relayer.relayer);
+            await this.send(() => helperToken.permit(owner, spender, value, deadline, v, r, s));
+        } else {
+            await this.send(() => this.helperToken.approve(spender, required));
+        }
+    }
+
+    /**
+     * @dev Sends a transaction, waits for it and maps reverts to typed errors.
+     */
+    private async send(
+        action: () => Promise<ContractTransactionResponse>,
+        contractInterface: Interface = this.superHelper.interface
+    ): Promise<ContractTransactionReceipt> {
+        try {
+            const tx = await action();
+            return (await tx.wait())!;
+        } catch (error) {
+            throw toSuperHelperError(error, contractInterface);
+        }
+    }
+}
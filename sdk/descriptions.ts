@@ -0,0 +1,188 @@
+import {decodeBytes32String, encodeBytes32String, keccak256, toUtf8Bytes} from "ethers";
+
+import schema from "./job-description.schema.json";
+import {JobMetadata} from "./types";
+
+const {properties} = schema;
+const TAG_PATTERN = new RegExp(properties.tags.items.pattern);
+const KNOWN_KEYS = Object.keys(properties);
+
+/**
+ * Off-chain description of a job, following sdk/job-description.schema.json.
+ */
+export interface JobDescription {
+    version: 1;
+    title: string;
+    details: string;
+    /** Category id, stored on-chain with the job. */
+    category: number;
+    /** Lowercase tags (letters, digits and dashes, up to 31 characters), stored on-chain. */
+    tags: string[];
+    deliverables?: string[];
+    /** URIs of attached files. */
+    attachments?: string[];
+}
+
+/**
+ * @notice Thrown when a job description does not follow the schema, with every problem found.
+ */
+export class JobDescriptionError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid job description: ${problems.join("; ")}`);
+        this.name = "JobDescriptionError";
+    }
+}
+
+function checkString(problems: string[], name: string, value: unknown, maxLength?: number): void {
+    if (typeof value !== "string" || value.length === 0) {
+        problems.push(`${name} must be a non-empty string`);
+    } else if (maxLength !== undefined && value.length > maxLength) {
+        problems.push(`${name} must be at most ${maxLength} characters`);
+    }
+}
+
+function checkStringArray(problems: string[], name: string, value: unknown): void {
+    if (!Array.isArray(value)) {
+        problems.push(`${name} must be an array`);
+        return;
+    }
+    value.forEach((item, index) => checkString(problems, `${name}[${index}]`, item));
+}
+
+/**
+ * @notice Checks that a value is a job description following the schema.
+ * @return The value, typed as a JobDescription.
+ * @throws JobDescriptionError listing every problem found.
+ */
+export function validateJobDescription(value: unknown): JobDescription {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        throw new JobDescriptionError(["the description must be an object"]);
+    }
+
+    const description = value as Record<string, unknown>;
+    const problems: string[] = [];
+
+    for (const key of schema.required) {
+        if (description[key] === undefined) {
+            problems.push(`${key} is required`);
+        }
+    }
+    for (const key of Object.keys(description)) {
+        if (!KNOWN_KEYS.includes(key)) {
+            problems.push(`${key} is not a known property`);
+        }
+    }
+
+    if (description.version !== undefined && description.version !== properties.version.const) {
+        problems.push(`version must be ${properties.version.const}`);
+    }
+    if (description.title !== undefined) {
+        checkString(problems, "title", description.title, properties.title.maxLength);
+    }
+    if (description.details !== undefined) {
+        checkString(problems, "details", description.details, properties.details.maxLength);
+    }
+    if (description.category !== undefined
+        && (!Number.isSafeInteger(description.category) || (description.category as number) < 0)) {
+        problems.push("category must be a non-negative integer");
+    }
+
+    const tags = description.tags;
+    if (tags !== undefined) {
+        if (!Array.isArray(tags)) {
+            problems.push("tags must be an array");
+        } else {
+            if (tags.length > properties.tags.maxItems) {
+                problems.push(`at most ${properties.tags.maxItems} tags are allowed`);
+            }
+            if (new Set(tags).size !== tags.length) {
+                problems.push("tags must be unique");
+            }
+            tags.forEach((tag, index) => {
+                if (typeof tag !== "string" || !TAG_PATTERN.test(tag)) {
+                    problems.push(`tags[${index}] must be lowercase letters, digits and dashes, up to 31 characters`);
+                }
+            });
+        }
+    }
+
+    for (const key of ["deliverables", "attachments"]) {
+        if (description[key] !== undefined) {
+            checkStringArray(problems, key, description[key]);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new JobDescriptionError(problems);
+    }
+    return description as unknown as JobDescription;
+}
+
+/**
+ * @dev JSON with the object keys sorted at every level and no whitespace.
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(",")}]`;
+    }
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * @notice Validates a job description and serializes it canonically. This is the content to publish
+ * at the URI of the job, its keccak256 hash being the content hash stored on-chain.
+ */
+export function serializeJobDescription(description: JobDescription): string {
+    return canonicalJson(validateJobDescription(description));
+}
+
+/**
+ * @notice Hash of the canonical serialization of a job description, as stored on-chain.
+ */
+export function hashJobDescription(description: JobDescription): string {
+    return keccak256(toUtf8Bytes(serializeJobDescription(description)));
+}
+
+/**
+ * @notice Validates a job description and returns the content to publish with the metadata passed
+ * to createJobWithMetadata.
+ */
+export function prepareJobDescription(description: JobDescription): { content: string, metadata: JobMetadata } {
+    const content = serializeJobDescription(description);
+
+    return {
+        content,
+        metadata: {
+            category: BigInt(description.category),
+            contentHash: keccak256(toUtf8Bytes(content)),
+            tags: description.tags,
+        },
+    };
+}
+
+/**
+ * @notice Encodes a tag as the bytes32 string stored on-chain.
+ */
+export function encodeTag(tag: string): string {
+    return encodeBytes32String(tag);
+}
+
+/**
+ * @notice Decodes a tag stored on-chain.
+ */
+export function decodeTag(tag: string): string {
+    return decodeBytes32String(tag);
+}
+
+/**
+ * @notice Tells whether the content fetched from the URI of a job matches its on-chain content hash.
+ */
+export function matchesContentHash(content: string, contentHash: string): boolean {
+    return keccak256(toUtf8Bytes(content)) === contentHash;
+}
@@ -0,0 +1,199 @@
+import {ErrorDescription, Interface, isHexString} from "ethers";
+
+import {Badge, badgeName, JobStatus, jobStatusName, RegistrationMode} from "./types";
+
+/**
+ * @notice Base class of every error thrown by the SDK when a SuperHelper call reverts.
+ */
+export class SuperHelperError extends Error {
+    constructor(message: string, readonly cause?: unknown) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class InsufficientAllowanceError extends SuperHelperError {
+    constructor(readonly required: bigint, cause?: unknown) {
+        super(`Insufficient allowance of the payment token, ${required} units required`, cause);
+    }
+}
+
+export class InsufficientFundsError extends SuperHelperError {
+    constructor(readonly required: bigint, cause?: unknown) {
+        super(`Insufficient balance of the payment token, ${required} units required`, cause);
+    }
+}
+
+export class IncorrectValueError extends SuperHelperError {
+    constructor(readonly sent: bigint, readonly required: bigint, cause?: unknown) {
+        super(`${sent} wei sent but ${required} wei required`, cause);
+    }
+}
+
+export class JobStatusIncorrectError extends SuperHelperError {
+    constructor(readonly current: JobStatus, readonly expected: JobStatus, cause?: unknown) {
+        super(`Job is ${jobStatusName(current)} but ${jobStatusName(expected)} was expected`, cause);
+    }
+}
+
+export class DeadlinePassedError extends SuperHelperError {
+    constructor(readonly deadline: bigint, cause?: unknown) {
+        super(`The job deadline (${deadline}) has passed`, cause);
+    }
+}
+
+export class DeadlineNotReachedError extends SuperHelperError {
+    constructor(readonly deadline: bigint, cause?: unknown) {
+        super(`The job deadline (${deadline}) is not reached yet`, cause);
+    }
+}
+
+export class ReviewPeriodNotOverError extends SuperHelperError {
+    constructor(readonly reviewEnd: bigint, cause?: unknown) {
+        super(`The review period ends at ${reviewEnd}`, cause);
+    }
+}
+
+export class DisputeTimeoutNotReachedError extends SuperHelperError {
+    constructor(readonly timeoutEnd: bigint, cause?: unknown) {
+        super(`The dispute can be settled by the owner from ${timeoutEnd}`, cause);
+    }
+}
+
+export class BadgeTooLowError extends SuperHelperError {
+    constructor(readonly current: Badge, readonly required: Badge, cause?: unknown) {
+        super(`Badge ${badgeName(current)} is below the required ${badgeName(required)} badge`, cause);
+    }
+}
+
+export class RatingTooLowError extends SuperHelperError {
+    constructor(readonly current: bigint, readonly required: bigint, cause?: unknown) {
+        super(`Average rating ${current} is below the required ${required}`, cause);
+    }
+}
+
+export class RegistrationModeIncorrectError extends SuperHelperError {
+    constructor(readonly current: RegistrationMode, readonly expected: RegistrationMode, cause?: unknown) {
+        super(`Registration is ${RegistrationMode[current]} but ${RegistrationMode[expected]} was expected`, cause);
+    }
+}
+
+export class MarketplacePausedError extends SuperHelperError {
+    constructor(cause?: unknown) {
+        super("The marketplace is paused", cause);
+    }
+}
+
+export class NotRegisteredError extends SuperHelperError {
+    constructor(cause?: unknown) {
+        super("You're not registered", cause);
+    }
+}
+
+export class AlreadyRegisteredError extends SuperHelperError {
+    constructor(cause?: unknown) {
+        super("This user is already registered", cause);
+    }
+}
+
+export class UnauthorizedError extends SuperHelperError {
+    constructor(readonly account: string, cause?: unknown) {
+        super(`Account ${account} is not the owner`, cause);
+    }
+}
+
+/**
+ * @notice Revert with a reason string that has no dedicated class (e.g. "Worker can't be the creator").
+ */
+export class SuperHelperRevertError extends SuperHelperError {
+    constructor(readonly reason: string, cause?: unknown) {
+        super(reason, cause);
+    }
+}
+
+const REVERT_REASONS: Record<string, new (cause?: unknown) => SuperHelperError> = {
+    "You're not registered": NotRegisteredError,
+    "This user is already registered": AlreadyRegisteredError,
+};
+
+/**
+ * @dev Finds the raw revert data in the nested error objects produced by ethers and Hardhat.
+ */
+function findRevertData(error: unknown, depth = 0): string | undefined {
+    if (error === null || typeof error !== "object" || depth > 5) {
+        return undefined;
+    }
+
+    const candidate = error as Record<string, unknown>;
+    if (isHexString(candidate.data) && candidate.data !== "0x") {
+        return candidate.data;
+    }
+
+    for (const key of ["error", "info", "cause", "data"]) {
+        const data = findRevertData(candidate[key], depth + 1);
+        if (data !== undefined) {
+            return data;
+        }
+    }
+
+    return undefined;
+}
+
+function fromDescription(description: ErrorDescription, cause: unknown): SuperHelperError {
+    const args = description.args;
+
+    switch (description.name) {
+        case "InsufficientAllowance":
+            return new InsufficientAllowanceError(args[0], cause);
+        case "InsufficientFunds":
+            return new InsufficientFundsError(args[0], cause);
+        case "IncorrectValue":
+            return new IncorrectValueError(args[0], args[1], cause);
+        case "JobStatusIncorrect":
+            return new JobStatusIncorrectError(Number(args[0]), Number(args[1]), cause);
+        case "DeadlinePassed":
+            return new DeadlinePassedError(args[0], cause);
+        case "DeadlineNotReached":
+            return new DeadlineNotReachedError(args[0], cause);
+        case "ReviewPeriodNotOver":
+            return new ReviewPeriodNotOverError(args[0], cause);
+        case "DisputeTimeoutNotReached":
+            return new DisputeTimeoutNotReachedError(args[0], cause);
+        case "BadgeTooLow":
+            return new BadgeTooLowError(Number(args[0]), Number(args[1]), cause);
+        case "RatingTooLow":
+            return new RatingTooLowError(args[0], args[1], cause);
+        case "RegistrationModeIncorrect":
+            return new RegistrationModeIncorrectError(Number(args[0]), Number(args[1]), cause);
+        case "EnforcedPause":
+            return new MarketplacePausedError(cause);
+        case "OwnableUnauthorizedAccount":
+            return new UnauthorizedError(args[0], cause);
+        case "Error": {
+            const ReasonError = REVERT_REASONS[args[0]];
+            return ReasonError ? new ReasonError(cause) : new SuperHelperRevertError(args[0], cause);
+        }
+        default:
+            return new SuperHelperRevertError(`${description.name}(${args.join(", ")})`, cause);
+    }
+}
+
+/**
+ * @notice Maps any error raised while calling SuperHelper to a typed SuperHelperError.
+ * Errors that do not carry revert data (network failures, user rejections...) are returned unchanged.
+ * @param error The error thrown by ethers.
+ * @param contractInterface Interface used to decode custom errors.
+ */
+export function toSuperHelperError(error: unknown, contractInterface: Interface): unknown {
+    if (error instanceof SuperHelperError) {
+        return error;
+    }
+
+    const data = findRevertData(error);
+    if (data === undefined) {
+        return error;
+    }
+
+    const description = contractInterface.parseError(data);
+    return description ? fromDescription(description, error) : error;
+}
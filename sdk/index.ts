@@ -0,0 +1,7 @@
+export * from "./descriptions";
+export * from "./errors";
+export * from "./GaslessRelayer";
+export * from "./registration";
+export * from "./SuperHelperClient";
+export * from "./types";
+export * from "./units";
@@ -0,0 +1,106 @@
+import {AbiCoder, concat, keccak256, Signer, TypedDataField} from "ethers";
+
+import type {RegistrationModule} from "../typechain-types";
+import {Invitation} from "./types";
+
+/**
+ * Seconds during which a signed invitation can be used.
+ */
+const INVITATION_TTL = 7n * 24n * 60n * 60n;
+
+const INVITATION_TYPES: Record<string, TypedDataField[]> = {
+    Invitation: [
+        {name: "invitee", type: "address"},
+        {name: "inviter", type: "address"},
+        {name: "deadline", type: "uint256"},
+    ],
+};
+
+/**
+ * @notice Leaf of an address in the allowlist, the double hash of its ABI encoding.
+ */
+export function allowlistLeaf(address: string): string {
+    return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [address])));
+}
+
+/**
+ * @dev Hashes a pair of nodes in sorted order, as MerkleProof does on-chain.
+ */
+function hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * @title Merkle tree of the addresses allowed to register
+ * @notice Its root is set with RegistrationModule.setAllowlistRoot and each address registers with its proof.
+ */
+export class AllowlistTree {
+    private readonly layers: string[][];
+
+    constructor(addresses: string[]) {
+        if (addresses.length === 0) {
+            throw new Error("The allowlist is empty");
+        }
+
+        const leaves = [...new Set(addresses.map(allowlistLeaf))].sort();
+        this.layers = [leaves];
+
+        while (this.layers[this.layers.length - 1].length > 1) {
+            const layer = this.layers[this.layers.length - 1];
+            const next = [];
+            for (let i = 0; i < layer.length; i += 2) {
+                next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+            }
+            this.layers.push(next);
+        }
+    }
+
+    get root(): string {
+        return this.layers[this.layers.length - 1][0];
+    }
+
+    /**
+     * @notice Returns the proof of an allowlisted address.
+     */
+    getProof(address: string): string[] {
+        let index = this.layers[0].indexOf(allowlistLeaf(address));
+        if (index === -1) {
+            throw new Error(`${address} is not in the allowlist`);
+        }
+
+        const proof = [];
+        for (const layer of this.layers.slice(0, -1)) {
+            const sibling = index % 2 === 0 ? index + 1 : index - 1;
+            if (sibling < layer.length) {
+                proof.push(layer[sibling]);
+            }
+            index = Math.floor(index / 2);
+        }
+        return proof;
+    }
+}
+
+/**
+ * @notice Signs an invitation to register with the registration module.
+ * @param inviter Owner of SuperHelper or user holding at least the BRONZE badge.
+ * @param registrationModule Module the invitation is used with.
+ * @param invitee Address allowed to register with the invitation.
+ * @param deadline Timestamp after which the invitation can't be used, defaults to a week from the latest block.
+ */
+export async function signInvitation(
+    inviter: Signer,
+    registrationModule: RegistrationModule,
+    invitee: string,
+    deadline?: bigint
+): Promise<Invitation> {
+    if (deadline === undefined) {
+        const block = await inviter.provider!.getBlock("latest");
+        deadline = BigInt(block!.timestamp) + INVITATION_TTL;
+    }
+
+    const invitation = {invitee, inviter: await inviter.getAddress(), deadline};
+    const {name, version, chainId, verifyingContract} = await registrationModule.eip712Domain();
+    const signature = await inviter.signTypedData({name, version, chainId, verifyingContract}, INVITATION_TYPES, invitation);
+
+    return {...invitation, signature};
+}
@@ -0,0 +1,124 @@
+/**
+ * Mirrors of the SuperHelper Solidity enums and structs, decoded for off-chain use.
+ * Numeric values must stay aligned with the declaration order in SuperHelper.sol.
+ */
+/**
+ * Address designating ETH as the payment token of a job (Payments.NATIVE_TOKEN).
+ */
+export const NATIVE_TOKEN = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+/**
+ * Scale of the average ratings, 450 being 4.5 stars (SuperHelper.RATING_PRECISION).
+ */
+export const RATING_PRECISION = 100n;
+
+export enum JobStatus {
+    CREATED,
+    TAKEN,
+    COMPLETED,
+    CANCELLED,
+    DISPUTED,
+    SUBMITTED,
+    REFUNDED,
+    SETTLED
+}
+
+export enum Badge {
+    NONE,
+    BRONZE,
+    SILVER,
+    GOLD
+}
+
+export enum RegistrationMode {
+    OPEN,
+    ALLOWLIST,
+    INVITATION
+}
+
+export interface Job {
+    id: bigint;
+    creator: string;
+    worker: string;
+    description: string;
+    stars: number;
+    reward: bigint;
+    status: JobStatus;
+    deliverable: string;
+    duration: bigint;
+    deadline: bigint;
+    submittedAt: bigint;
+    disputedAt: bigint;
+    released: bigint;
+    /** Payment token of the reward: the HelperToken address, another ERC-20 address or NATIVE_TOKEN for ETH. */
+    token: string;
+    /** Rating given by the worker to the creator, 0 until rated. */
+    creatorStars: number;
+}
+
+export interface Milestone {
+    description: string;
+    amount: bigint;
+    released: boolean;
+}
+
+/**
+ * Category, description hash and tags of a job described off-chain. Empty for a job with a plain description.
+ */
+export interface JobMetadata {
+    category: bigint;
+    /** keccak256 hash of the canonical JSON description published at the job description URI. */
+    contentHash: string;
+    tags: string[];
+}
+
+export interface JobRequirements {
+    minBadge: Badge;
+    /** Minimum average rating, scaled by RATING_PRECISION (450 = 4.5 stars). */
+    minAverageRating: bigint;
+    applicationsOnly: boolean;
+}
+
+export interface Application {
+    applicant: string;
+    messageHash: string;
+    /** Price asked by the applicant, zero when the job reward is accepted. */
+    proposedPrice: bigint;
+}
+
+export interface User {
+    address: string;
+    lastActivity: bigint;
+    nbJobCompleted: bigint;
+    nbJobAbandoned: bigint;
+    badgeLevel: Badge;
+    isRegistered: boolean;
+    /** Average rating received as worker, scaled by RATING_PRECISION (450 = 4.5 stars). */
+    averageWorkerRating: bigint;
+    /** Average rating received as creator, scaled by RATING_PRECISION. */
+    averageCreatorRating: bigint;
+}
+
+/**
+ * Invitation to register, signed by the inviter for RegistrationModule.registerWithInvitation.
+ */
+export interface Invitation {
+    invitee: string;
+    inviter: string;
+    deadline: bigint;
+    signature: string;
+}
+
+/**
+ * @dev Name of a status as declared in the contract, e.g. "CREATED".
+ */
+export function jobStatusName(status: JobStatus | bigint | number): string {
+    return JobStatus[Number(status)];
+}
+
+/**
+ * @dev Name of a badge as declared in the contract, e.g. "GOLD".
+ */
+export function badgeName(badge: Badge | bigint | number): string {
+    return Badge[Number(badge)];
+}
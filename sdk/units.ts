@@ -0,0 +1,39 @@
+import {formatUnits, parseUnits} from "ethers";
+
+/**
+ * Number of decimals of the HELP token (HelperToken.DECIMALS).
+ */
+export const HELP_DECIMALS = 2;
+
+/**
+ * Amount accepted by the SDK: either a human readable HELP string ("12.5")
+ * or a bigint already expressed in token base units (1 HELP = 100 units).
+ */
+export type HelpAmount = string | bigint;
+
+/**
+ * Amount of the payment token of a job: either a human readable string in the decimals of the token
+ * ("12.5" HELP, "0.5" ETH) or a bigint already expressed in its base units.
+ */
+export type TokenAmount = string | bigint;
+
+/**
+ * @notice Converts a human readable HELP amount ("12.5") to token base units (1250n).
+ */
+export function parseHelp(amount: string): bigint {
+    return parseUnits(amount, HELP_DECIMALS);
+}
+
+/**
+ * @notice Converts token base units (1250n) to a human readable HELP amount ("12.5").
+ */
+export function formatHelp(amount: bigint): string {
+    return formatUnits(amount, HELP_DECIMALS);
+}
+
+/**
+ * @dev Normalizes a HelpAmount to token base units.
+ */
+export function toHelpUnits(amount: HelpAmount): bigint {
+    return typeof amount === "bigint" ? amount : parseHelp(amount);
+}
@@ -0,0 +1,18 @@
+import {task, types} from "hardhat/config";
+
+import {createApiServer} from "../api";
+import {getSuperHelper} from "./utils";
+
+task("api:serve", "Serves jobs, users and the leaderboard as JSON over HTTP")
+    .addOptionalParam("port", "Port to listen on", 3000, types.int)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .setAction(async ({port, address}, hre) => {
+        const superHelper = await getSuperHelper(hre, address);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken());
+        const server = createApiServer({superHelper, helperToken});
+
+        await new Promise<void>((resolve) => server.listen(port, resolve));
+        console.log(`SuperHelper API listening on http://localhost:${port}`);
+
+        await new Promise((resolve) => server.on("close", resolve));
+    });
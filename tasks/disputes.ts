@@ -0,0 +1,46 @@
+import {task, types} from "hardhat/config";
+
+import {JobStatus} from "../sdk/types";
+import {getClient, getSuperHelper, JobRow, readJobRow} from "./utils";
+
+task("disputes:list", "Lists the jobs waiting for a dispute resolution")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .setAction(async ({address}, hre): Promise<JobRow[]> => {
+        const superHelper = await getSuperHelper(hre, address);
+        const jobCount = await superHelper.jobCount();
+
+        const rows: JobRow[] = [];
+        for (let id = 0n; id < jobCount; id++) {
+            const job = await superHelper.jobs(id);
+            if (Number(job.status) === JobStatus.DISPUTED) {
+                rows.push(await readJobRow(superHelper, id));
+            }
+        }
+
+        console.table(rows);
+        return rows;
+    });
+
+task("disputes:resolve", "Resolves a disputed job left unresolved by the arbiters, only usable by the owner after the dispute timeout")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addParam("resolved", "true pays the worker, false refunds the creator", undefined, types.boolean)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, resolved, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.handleDisputedJob(id, resolved);
+        console.log(resolved ? `Dispute ${id} resolved, worker paid` : `Dispute ${id} resolved, creator refunded`);
+    });
+
+task("disputes:settle", "Splits the reward of a disputed job left unresolved by the arbiters, only usable by the owner after the dispute timeout")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addParam("workerShare", "Share of the reward paid to the worker in basis points (5000 = 50%)", undefined, types.int)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, workerShare, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.settleDisputedJob(id, workerShare);
+        console.log(`Dispute ${id} settled, ${workerShare / 100}% of the reward paid to the worker`);
+    });
@@ -0,0 +1,6 @@
+import "./api";
+import "./disputes";
+import "./jobs";
+import "./params";
+import "./treasury";
+import "./users";
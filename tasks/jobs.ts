@@ -0,0 +1,223 @@
+import {task, types} from "hardhat/config";
+
+import {Badge, NATIVE_TOKEN, RATING_PRECISION} from "../sdk/types";
+import {ApplicationRow, getClient, getSuperHelper, JobRow, parseJobAmount, readApplicationRows, readJobRow} from "./utils";
+
+task("jobs:list", "Lists the jobs of the marketplace")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("status", "Only list jobs with this status (CREATED, TAKEN, ...)")
+    .setAction(async ({address, status}, hre): Promise<JobRow[]> => {
+        const superHelper = await getSuperHelper(hre, address);
+        const jobCount = await superHelper.jobCount();
+
+        const rows: JobRow[] = [];
+        for (let id = 0n; id < jobCount; id++) {
+            rows.push(await readJobRow(superHelper, id));
+        }
+
+        const filtered = status ? rows.filter((row) => row.status === status.toUpperCase()) : rows;
+        console.table(filtered);
+        return filtered;
+    });
+
+task("jobs:show", "Shows the details of a job")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .setAction(async ({id, address}, hre): Promise<JobRow> => {
+        const superHelper = await getSuperHelper(hre, address);
+        const row = await readJobRow(superHelper, id);
+
+        console.table([row]);
+        return row;
+    });
+
+task("jobs:create", "Creates a job, approving the reward and pending depreciation")
+    .addParam("description", "Job details")
+    .addParam("reward", "Reward in HELP (e.g. 12.5), or in base units of the --token (wei for ETH)")
+    .addOptionalParam("duration", "Seconds given to the worker to submit the job once taken", 7 * 24 * 60 * 60, types.int)
+    .addOptionalParam("token", "Payment token allowed by the owner, or ETH, defaults to HELP")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({description, reward, duration, token, address, from}, hre): Promise<bigint> => {
+        const client = await getClient(hre, address, from);
+        const {jobId} = token === undefined
+            ? await client.createJob(description, reward, duration)
+            : await client.createJobWithToken(
+                description,
+                token.toUpperCase() === "ETH" ? NATIVE_TOKEN : token,
+                BigInt(reward),
+                duration
+            );
+        console.log(`Job ${jobId} created`);
+        return jobId;
+    });
+
+task("jobs:update", "Edits an open job as creator, approving the difference if the reward increases")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("description", "New job details, defaults to the current ones")
+    .addOptionalParam("reward", "New reward in HELP (e.g. 12.5), or in base units of the job token, defaults to the current one")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, description, reward, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+        const job = await client.getJob(id);
+
+        await client.updateJob(
+            id,
+            description ?? job.description,
+            reward === undefined ? job.reward : await parseJobAmount(client, id, reward)
+        );
+        console.log(`Job ${id} updated`);
+    });
+
+task("jobs:take", "Takes an open job as worker")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.takeJob(id);
+        console.log(`Job ${id} taken`);
+    });
+
+task("jobs:apply", "Applies for an open job as worker")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("message", "Message to the creator, only its hash is stored on-chain")
+    .addOptionalParam("price", "Price asked instead of the job reward, in HELP (e.g. 12.5) or in base units of the job token")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, message, price, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.applyForJob(id, message, price === undefined ? undefined : await parseJobAmount(client, id, price));
+        console.log(`Applied for job ${id}`);
+    });
+
+task("jobs:applicants", "Lists the applications received by a job")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .setAction(async ({id, address}, hre): Promise<ApplicationRow[]> => {
+        const superHelper = await getSuperHelper(hre, address);
+        const rows = await readApplicationRows(superHelper, id);
+
+        console.table(rows);
+        return rows;
+    });
+
+task("jobs:accept", "Assigns an applicant as worker of a job as creator")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addParam("applicant", "Address of the accepted applicant")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, applicant, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.acceptApplicant(id, applicant);
+        console.log(`Applicant ${applicant} accepted for job ${id}`);
+    });
+
+task("jobs:requirements", "Sets the requirements a worker must meet to take or apply for a job as creator")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("badge", "Minimum badge (NONE, BRONZE, SILVER, GOLD)", "NONE")
+    .addOptionalParam("rating", "Minimum average rating from 0 to 5 (e.g. 4.5)", "0")
+    .addFlag("applicationsOnly", "Only accept workers through applications")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, badge, rating, applicationsOnly, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+        const minBadge = Badge[badge.toUpperCase() as keyof typeof Badge];
+        if (minBadge === undefined) {
+            throw new Error(`Unknown badge ${badge}`);
+        }
+
+        await client.setJobRequirements(id, {
+            minBadge,
+            minAverageRating: BigInt(Math.round(Number(rating) * Number(RATING_PRECISION))),
+            applicationsOnly,
+        });
+        console.log(`Requirements of job ${id} updated`);
+    });
+
+task("jobs:abandon", "Releases a taken job as worker")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.abandonJob(id);
+        console.log(`Job ${id} abandoned`);
+    });
+
+task("jobs:submit", "Submits the work done on a taken job as worker")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addParam("deliverable", "Reference to the delivered work (URI or content hash)")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, deliverable, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.submitJob(id, deliverable);
+        console.log(`Job ${id} submitted`);
+    });
+
+task("jobs:approve-milestone", "Releases a milestone of a taken or submitted job to its worker as creator")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addParam("index", "Milestone index", undefined, types.int)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, index, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.approveMilestone(id, index);
+        console.log(`Milestone ${index} of job ${id} released`);
+    });
+
+task("jobs:complete", "Completes and reviews a submitted job as creator")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addParam("rating", "Rating from 1 to 5, 0 is only accepted with --disputed", undefined, types.int)
+    .addFlag("disputed", "Opens a dispute instead of paying the worker")
+    .addOptionalParam("tip", "Tip paid with a 5-star review, in HELP (e.g. 2.5) or in base units of the job token", "0")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, rating, disputed, tip, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.completeAndReviewJob(id, rating, disputed, await parseJobAmount(client, id, tip));
+        console.log(disputed ? `Job ${id} disputed` : `Job ${id} completed and paid`);
+    });
+
+task("jobs:rate-creator", "Rates the creator of a finished job as worker")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addParam("rating", "Rating from 1 to 5", undefined, types.int)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, rating, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.rateCreator(id, rating);
+        console.log(`Creator of job ${id} rated ${rating} stars`);
+    });
+
+task("jobs:claim", "Claims the reward of a submitted job not reviewed within the review period")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.claimPayment(id);
+        console.log(`Job ${id} paid`);
+    });
+
+task("jobs:reclaim", "Refunds the creator of a taken job whose deadline is missed")
+    .addParam("id", "Job id", undefined, types.bigint)
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .addOptionalParam("from", "Account sending the transaction, defaults to the first account")
+    .setAction(async ({id, address, from}, hre) => {
+        const client = await getClient(hre, address, from);
+
+        await client.reclaimExpiredJob(id);
+        console.log(`Job ${id} reclaimed`);
+    });
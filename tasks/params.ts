@@ -0,0 +1,39 @@
+import {task} from "hardhat/config";
+
+import {formatHelp} from "../sdk/units";
+import {getSuperHelper} from "./utils";
+
+export type ParamsRow = {
+    badgeThresholds: string,
+    inactivityDays: number,
+    depreciationRates: string,
+    welcomeGrant: string,
+    platformFee: string,
+};
+
+task("params:show", "Shows the badge thresholds, depreciation, welcome grant and platform fee of the marketplace")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .setAction(async ({address}, hre): Promise<ParamsRow> => {
+        const superHelper = await getSuperHelper(hre, address);
+
+        const thresholds = [
+            await superHelper.bronzeThreshold(),
+            await superHelper.silverThreshold(),
+            await superHelper.goldThreshold(),
+        ];
+        const rates = [];
+        for (let badge = 0; badge < 4; badge++) {
+            rates.push(await superHelper.depreciationRates(badge));
+        }
+
+        const row: ParamsRow = {
+            badgeThresholds: thresholds.join(" / "),
+            inactivityDays: Number(await superHelper.inactivityPeriod()) / (24 * 60 * 60),
+            depreciationRates: rates.map((rate) => `${rate}%`).join(" / "),
+            welcomeGrant: `${formatHelp(await superHelper.welcomeGrant())} HELP`,
+            platformFee: `${Number(await superHelper.platformFeeBps()) / 100}%`,
+        };
+
+        console.table([row]);
+        return row;
+    });
@@ -0,0 +1,32 @@
+import {task} from "hardhat/config";
+
+import {formatHelp} from "../sdk/units";
+import {getSuperHelper} from "./utils";
+
+export type TreasuryRow = {
+    balance: string,
+    escrowed: string,
+    depreciationPool: string,
+    treasury: string,
+    welcomeGrant: string,
+    remainingWelcomeGrants: number,
+};
+
+task("treasury:report", "Reports the escrowed rewards, depreciation pool and free treasury of the marketplace")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .setAction(async ({address}, hre): Promise<TreasuryRow> => {
+        const superHelper = await getSuperHelper(hre, address);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken());
+
+        const row: TreasuryRow = {
+            balance: `${formatHelp(await helperToken.balanceOf(await superHelper.getAddress()))} HELP`,
+            escrowed: `${formatHelp(await superHelper.totalEscrowed())} HELP`,
+            depreciationPool: `${formatHelp(await superHelper.depreciationPool())} HELP`,
+            treasury: `${formatHelp(await superHelper.treasuryBalance())} HELP`,
+            welcomeGrant: `${formatHelp(await superHelper.welcomeGrant())} HELP`,
+            remainingWelcomeGrants: Number(await superHelper.remainingWelcomeGrants()),
+        };
+
+        console.table([row]);
+        return row;
+    });
@@ -0,0 +1,14 @@
+import {task} from "hardhat/config";
+
+import {getSuperHelper, readUserRow, UserRow} from "./utils";
+
+task("users:show", "Shows the registration, badge and balance of a user")
+    .addParam("user", "User address")
+    .addOptionalParam("address", "SuperHelper address, defaults to the Ignition deployment")
+    .setAction(async ({user, address}, hre): Promise<UserRow> => {
+        const superHelper = await getSuperHelper(hre, address);
+        const row = await readUserRow(hre, superHelper, user);
+
+        console.table([row]);
+        return row;
+    });
@@ -0,0 +1,165 @@
+import fs from "fs";
+import path from "path";
+import {formatEther, ZeroAddress} from "ethers";
+import type {HardhatRuntimeEnvironment} from "hardhat/types";
+
+import type {SuperHelperClient} from "../sdk";
+import type {TokenAmount} from "../sdk/units";
+import type {SuperHelper} from "../typechain-types";
+import {badgeName, jobStatusName, NATIVE_TOKEN} from "../sdk/types";
+import {formatHelp} from "../sdk/units";
+
+export const SUPER_HELPER_FUTURE_ID = "SuperHelperModule#SuperHelper";
+
+/**
+ * @notice Reads the SuperHelper address from the Ignition deployment of SuperHelperModule
+ * on the current network.
+ */
+export async function getDeployedAddress(hre: HardhatRuntimeEnvironment): Promise<string> {
+    const {chainId} = await hre.ethers.provider.getNetwork();
+    const deployedAddressesPath = path.join(
+        hre.config.paths.ignition,
+        "deployments",
+        `chain-${chainId}`,
+        "deployed_addresses.json"
+    );
+
+    if (!fs.existsSync(deployedAddressesPath)) {
+        throw new Error(`No Ignition deployment found for chain ${chainId}, deploy SuperHelperModule or pass --address`);
+    }
+
+    const deployedAddresses = JSON.parse(fs.readFileSync(deployedAddressesPath, "utf8"));
+    const address = deployedAddresses[SUPER_HELPER_FUTURE_ID];
+
+    if (address === undefined) {
+        throw new Error(`${SUPER_HELPER_FUTURE_ID} is not part of the deployment on chain ${chainId}`);
+    }
+
+    return address;
+}
+
+async function resolveSigner(hre: HardhatRuntimeEnvironment, from?: string) {
+    return from ? hre.ethers.getSigner(from) : (await hre.ethers.getSigners())[0];
+}
+
+/**
+ * @notice Returns the SuperHelper contract, from the --address argument or the Ignition deployment,
+ * connected to the --from signer or to the first configured account.
+ */
+export async function getSuperHelper(hre: HardhatRuntimeEnvironment, address?: string, from?: string): Promise<SuperHelper> {
+    const superHelperAddress = address ?? await getDeployedAddress(hre);
+
+    return hre.ethers.getContractAt("SuperHelper", superHelperAddress, await resolveSigner(hre, from));
+}
+
+/**
+ * @notice Same as getSuperHelper but wrapped in the SDK client, which handles approvals and typed errors.
+ * @dev The SDK is imported lazily because it depends on the TypeChain factories generated at compile time.
+ */
+export async function getClient(hre: HardhatRuntimeEnvironment, address?: string, from?: string): Promise<SuperHelperClient> {
+    const {SuperHelperClient} = await import("../sdk");
+    const superHelperAddress = address ?? await getDeployedAddress(hre);
+
+    return SuperHelperClient.connect(superHelperAddress, await resolveSigner(hre, from));
+}
+
+export type JobRow = {
+    id: number,
+    creator: string,
+    worker: string,
+    reward: string,
+    status: string,
+    stars: number,
+    description: string
+};
+
+/**
+ * @notice Formats an amount in the payment token of a job: HELP, ETH, or base units of another token.
+ */
+export async function formatJobAmount(superHelper: SuperHelper, id: bigint, amount: bigint): Promise<string> {
+    const token = await superHelper.jobTokens(id);
+
+    if (token === ZeroAddress) {
+        return `${formatHelp(amount)} HELP`;
+    }
+    return token === NATIVE_TOKEN ? `${formatEther(amount)} ETH` : `${amount} units of ${token}`;
+}
+
+export async function readJobRow(superHelper: SuperHelper, id: bigint): Promise<JobRow> {
+    const job = await superHelper.jobs(id);
+
+    return {
+        id: Number(id),
+        creator: job.creator,
+        worker: job.worker === ZeroAddress ? "-" : job.worker,
+        reward: await formatJobAmount(superHelper, id, job.reward),
+        status: jobStatusName(job.status),
+        stars: Number(job.stars),
+        description: job.description,
+    };
+}
+
+export type ApplicationRow = {
+    applicant: string,
+    price: string,
+    messageHash: string
+};
+
+export async function readApplicationRows(superHelper: SuperHelper, id: bigint): Promise<ApplicationRow[]> {
+    const job = await superHelper.jobs(id);
+    const applicants = await superHelper.getApplicants(id);
+
+    return Promise.all(applicants.map(async (applicant) => {
+        const application = await superHelper.applications(id, applicant);
+        const price = application.proposedPrice === 0n ? job.reward : application.proposedPrice;
+
+        return {
+            applicant,
+            price: await formatJobAmount(superHelper, id, price),
+            messageHash: application.messageHash,
+        };
+    }));
+}
+
+function formatRating(rating: bigint, precision: bigint): string {
+    return rating === 0n ? "-" : `${Number(rating) / Number(precision)} / 5`;
+}
+
+export type UserRow = {
+    address: string,
+    registered: boolean,
+    badge: string,
+    jobsCompleted: number,
+    jobsAbandoned: number,
+    workerRating: string,
+    creatorRating: string,
+    balance: string,
+    pendingDepreciation: string,
+    lastActivity: string
+};
+
+export async function readUserRow(hre: HardhatRuntimeEnvironment, superHelper: SuperHelper, address: string): Promise<UserRow> {
+    const user = await superHelper.users(address);
+    const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken());
+
+    return {
+        address,
+        registered: user.isRegistered,
+        badge: badgeName(user.badgeLevel),
+        jobsCompleted: Number(user.nbJobCompleted),
+        jobsAbandoned: Number(user.nbJobAbandoned),
+        workerRating: formatRating(await superHelper.averageWorkerRating(address), await superHelper.RATING_PRECISION()),
+        creatorRating: formatRating(await superHelper.averageCreatorRating(address), await superHelper.RATING_PRECISION()),
+        balance: `${formatHelp(await helperToken.balanceOf(address))} HELP`,
+        pendingDepreciation: `${formatHelp(await superHelper.pendingDepreciation(address))} HELP`,
+        lastActivity: user.isRegistered ? new Date(Number(user.lastActivity) * 1000).toISOString() : "-",
+    };
+}
+
+/**
+ * @notice Parses an amount given on the command line for a job: in HELP, or in base units of its payment token
+ * like the reward of jobs:create.
+ */
+export async function parseJobAmount(client: SuperHelperClient, id: bigint, amount: string): Promise<TokenAmount> {
+    return (await client.superHelper.jobTokens(id)) === ZeroAddress ? amount : BigInt(amount);
+}
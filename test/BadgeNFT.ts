@@ -0,0 +1,174 @@
+import {loadFixture} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import hre from "hardhat";
+
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+
+describe("BadgeNFT Contract", function () {
+
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+    const BRONZE_BADGE = 1;
+    const SILVER_BADGE = 2;
+    const GOLD_BADGE = 3;
+
+    async function deployContractsFixture() {
+        const [owner, creator, worker, other] = await hre.ethers.getSigners();
+
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+
+        const BadgeNFT = await hre.ethers.getContractFactory("BadgeNFT", owner);
+        const badgeNFT = await BadgeNFT.deploy(await superHelper.getAddress());
+        await superHelper.connect(owner).setBadgeNFT(await badgeNFT.getAddress());
+
+        // One job per badge level keeps the upgrades cheap to reach.
+        await superHelper.connect(owner).setBadgeThresholds(1, 2, 3);
+
+        await superHelper.connect(creator).distributeToNewUser();
+        await superHelper.connect(worker).distributeToNewUser();
+        await helperToken.connect(creator).approve(await superHelper.getAddress(), 100n);
+
+        return {superHelper, helperToken, badgeNFT, owner, creator, worker, other};
+    }
+
+    async function completeJob(superHelper: any, creator: any, worker: any) {
+        const jobId = await superHelper.jobCount();
+
+        await superHelper.connect(creator).createJob("Badge job", 1n, JOB_DURATION);
+        await superHelper.connect(worker).takeJob(jobId);
+        await superHelper.connect(worker).submitJob(jobId, "ipfs://deliverable");
+        return superHelper.connect(creator).completeAndReviewJob(jobId, 5, false, 0);
+    }
+
+    function decodeMetadata(uri: string) {
+        const prefix = "data:application/json;base64,";
+        expect(uri.startsWith(prefix)).to.be.true;
+
+        return JSON.parse(Buffer.from(uri.slice(prefix.length), "base64").toString());
+    }
+
+    describe("Minting and upgrades", function () {
+
+        it("Should mint the badge token with the first badge", async function () {
+            const {superHelper, badgeNFT, creator, worker} = await loadFixture(deployContractsFixture);
+            const tokenId = await badgeNFT.tokenIdOf(worker.address);
+
+            await expect(completeJob(superHelper, creator, worker))
+                .to.emit(badgeNFT, "Transfer")
+                .withArgs(hre.ethers.ZeroAddress, worker.address, tokenId);
+
+            expect(await badgeNFT.ownerOf(tokenId)).to.equal(worker.address);
+            expect(await badgeNFT.balanceOf(worker.address)).to.equal(1);
+            expect(await badgeNFT.levels(tokenId)).to.equal(BRONZE_BADGE);
+        });
+
+        it("Should track the badge level of the user through every upgrade", async function () {
+            const {superHelper, badgeNFT, creator, worker} = await loadFixture(deployContractsFixture);
+            const tokenId = await badgeNFT.tokenIdOf(worker.address);
+
+            for (const expected of [BRONZE_BADGE, SILVER_BADGE, GOLD_BADGE]) {
+                await completeJob(superHelper, creator, worker);
+
+                expect((await superHelper.users(worker.address)).badgeLevel).to.equal(expected);
+                expect(await badgeNFT.levels(tokenId)).to.equal(expected);
+                expect(await badgeNFT.balanceOf(worker.address)).to.equal(1);
+            }
+        });
+
+        it("Should emit a metadata update when upgrading", async function () {
+            const {superHelper, badgeNFT, creator, worker} = await loadFixture(deployContractsFixture);
+            const tokenId = await badgeNFT.tokenIdOf(worker.address);
+
+            await completeJob(superHelper, creator, worker);
+            const tx = completeJob(superHelper, creator, worker);
+
+            await expect(tx).to.emit(badgeNFT, "MetadataUpdate").withArgs(tokenId);
+            await expect(tx).to.emit(badgeNFT, "BadgeSynced").withArgs(worker.address, SILVER_BADGE);
+        });
+
+        it("Should not mint anything to users without a badge", async function () {
+            const {badgeNFT, creator} = await loadFixture(deployContractsFixture);
+
+            expect(await badgeNFT.balanceOf(creator.address)).to.equal(0);
+            await expect(badgeNFT.sync(creator.address))
+                .to.be.revertedWithCustomError(badgeNFT, "NoBadge")
+                .withArgs(creator.address);
+        });
+
+        it("Should let anyone sync a badge earned before the token was set", async function () {
+            const {superHelper, badgeNFT, owner, creator, worker, other} = await loadFixture(deployContractsFixture);
+
+            await superHelper.connect(owner).setBadgeNFT(hre.ethers.ZeroAddress);
+            await completeJob(superHelper, creator, worker);
+            expect(await badgeNFT.balanceOf(worker.address)).to.equal(0);
+
+            await superHelper.connect(owner).setBadgeNFT(await badgeNFT.getAddress());
+            await badgeNFT.connect(other).sync(worker.address);
+
+            expect(await badgeNFT.levels(await badgeNFT.tokenIdOf(worker.address))).to.equal(BRONZE_BADGE);
+            await expect(badgeNFT.connect(other).sync(worker.address)).not.to.emit(badgeNFT, "BadgeSynced");
+        });
+
+        it("Should revert setBadgeNFT if called by another address than the owner", async function () {
+            const {superHelper, badgeNFT, other} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(other).setBadgeNFT(await badgeNFT.getAddress()))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+        });
+    });
+
+    describe("Soulbound", function () {
+
+        it("Should revert any transfer of a badge", async function () {
+            const {superHelper, badgeNFT, creator, worker, other} = await loadFixture(deployContractsFixture);
+            const tokenId = await badgeNFT.tokenIdOf(worker.address);
+
+            await completeJob(superHelper, creator, worker);
+
+            await expect(badgeNFT.connect(worker).transferFrom(worker.address, other.address, tokenId))
+                .to.be.revertedWithCustomError(badgeNFT, "Soulbound")
+                .withArgs(tokenId);
+            await expect(badgeNFT.connect(worker)["safeTransferFrom(address,address,uint256)"](worker.address, other.address, tokenId))
+                .to.be.revertedWithCustomError(badgeNFT, "Soulbound")
+                .withArgs(tokenId);
+        });
+    });
+
+    describe("Metadata: tokenURI", function () {
+
+        it("Should describe the level of the badge with an on-chain SVG", async function () {
+            const {superHelper, badgeNFT, creator, worker} = await loadFixture(deployContractsFixture);
+            const tokenId = await badgeNFT.tokenIdOf(worker.address);
+
+            for (const name of ["Bronze", "Silver", "Gold"]) {
+                await completeJob(superHelper, creator, worker);
+
+                const metadata = decodeMetadata(await badgeNFT.tokenURI(tokenId));
+                expect(metadata.name).to.equal(`SuperHelper ${name} Badge`);
+                expect(metadata.attributes).to.deep.equal([{trait_type: "Level", value: name}]);
+
+                const image = Buffer.from(metadata.image.split(",")[1], "base64").toString();
+                expect(image).to.contain("<svg").and.to.contain(name);
+            }
+        });
+
+        it("Should revert for a user without a badge", async function () {
+            const {badgeNFT, creator} = await loadFixture(deployContractsFixture);
+            const tokenId = await badgeNFT.tokenIdOf(creator.address);
+
+            await expect(badgeNFT.tokenURI(tokenId))
+                .to.be.revertedWithCustomError(badgeNFT, "ERC721NonexistentToken")
+                .withArgs(tokenId);
+        });
+
+        it("Should support the ERC-721 and ERC-4906 interfaces", async function () {
+            const {badgeNFT} = await loadFixture(deployContractsFixture);
+
+            expect(await badgeNFT.supportsInterface("0x80ac58cd")).to.be.true;
+            expect(await badgeNFT.supportsInterface("0x49064906")).to.be.true;
+            expect(await badgeNFT.supportsInterface("0xffffffff")).to.be.false;
+        });
+    });
+});
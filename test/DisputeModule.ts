@@ -0,0 +1,292 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import hre from "hardhat";
+
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+
+describe("DisputeModule Contract", function () {
+
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+    const NONE_BADGE = 0;
+    const GOLD_BADGE = 3;
+    const NATIVE_TOKEN = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+    async function deployContractsFixture() {
+        const [owner, creator, worker, arbiter1, arbiter2, arbiter3, other] = await hre.ethers.getSigners();
+
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+
+        // Any registered user can arbitrate here, the GOLD requirement is covered separately.
+        const DisputeModule = await hre.ethers.getContractFactory("DisputeModule", owner);
+        const disputeModule = await DisputeModule.deploy(await superHelper.getAddress(), NONE_BADGE);
+        await superHelper.connect(owner).setDisputeModule(await disputeModule.getAddress());
+
+        for (const user of [creator, worker, arbiter1, arbiter2, arbiter3]) {
+            await superHelper.connect(user).distributeToNewUser();
+        }
+
+        return {superHelper, helperToken, disputeModule, owner, creator, worker, arbiter1, arbiter2, arbiter3, other};
+    }
+
+    async function disputedJobFixture() {
+        const fixture = await loadFixture(deployContractsFixture);
+        const {superHelper, helperToken, disputeModule, creator, worker, arbiter1, arbiter2, arbiter3} = fixture;
+        const reward = 50n * await helperToken.ONE_TOKEN();
+
+        await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+        await superHelper.connect(creator).createJob("Disputed job", reward, JOB_DURATION);
+        await superHelper.connect(worker).takeJob(0);
+        await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+        await superHelper.connect(creator).completeAndReviewJob(0, 1, true, 0);
+
+        for (const arbiter of [arbiter1, arbiter2, arbiter3]) {
+            await disputeModule.connect(arbiter).registerAsArbiter();
+        }
+
+        const votingEnd = (await superHelper.jobs(0)).disputedAt + await disputeModule.VOTING_PERIOD();
+
+        return {...fixture, reward, votingEnd};
+    }
+
+    describe("Arbiter pool: registerAsArbiter and resignAsArbiter", function () {
+
+        it("Should register a user as arbiter", async function () {
+            const {disputeModule, arbiter1} = await loadFixture(deployContractsFixture);
+
+            await expect(disputeModule.connect(arbiter1).registerAsArbiter())
+                .to.emit(disputeModule, "ArbiterRegistered")
+                .withArgs(arbiter1.address);
+
+            expect(await disputeModule.isArbiter(arbiter1.address)).to.be.true;
+            expect(await disputeModule.arbiterCount()).to.equal(1);
+        });
+
+        it("Should revert if the user is already an arbiter", async function () {
+            const {disputeModule, arbiter1} = await loadFixture(deployContractsFixture);
+
+            await disputeModule.connect(arbiter1).registerAsArbiter();
+
+            await expect(disputeModule.connect(arbiter1).registerAsArbiter())
+                .to.be.revertedWith("Already an arbiter");
+        });
+
+        it("Should revert if the user is not registered", async function () {
+            const {disputeModule, other} = await loadFixture(deployContractsFixture);
+
+            await expect(disputeModule.connect(other).registerAsArbiter())
+                .to.be.revertedWith("You're not registered");
+        });
+
+        it("Should revert if the user's badge is below the minimum badge", async function () {
+            const {superHelper, arbiter1} = await loadFixture(deployContractsFixture);
+
+            const DisputeModule = await hre.ethers.getContractFactory("DisputeModule");
+            const goldModule = await DisputeModule.deploy(await superHelper.getAddress(), GOLD_BADGE);
+
+            await expect(goldModule.connect(arbiter1).registerAsArbiter())
+                .to.be.revertedWithCustomError(goldModule, "BadgeTooLow")
+                .withArgs(NONE_BADGE, GOLD_BADGE);
+        });
+
+        it("Should let an arbiter resign", async function () {
+            const {disputeModule, arbiter1} = await loadFixture(deployContractsFixture);
+
+            await disputeModule.connect(arbiter1).registerAsArbiter();
+
+            await expect(disputeModule.connect(arbiter1).resignAsArbiter())
+                .to.emit(disputeModule, "ArbiterResigned")
+                .withArgs(arbiter1.address);
+
+            expect(await disputeModule.isArbiter(arbiter1.address)).to.be.false;
+            expect(await disputeModule.arbiterCount()).to.equal(0);
+
+            await expect(disputeModule.connect(arbiter1).resignAsArbiter())
+                .to.be.revertedWith("Not an arbiter");
+        });
+    });
+
+    describe("Voting: vote", function () {
+
+        it("Should record the vote of an arbiter", async function () {
+            const {disputeModule, arbiter1} = await loadFixture(disputedJobFixture);
+
+            await expect(disputeModule.connect(arbiter1).vote(0, 7_500))
+                .to.emit(disputeModule, "DisputeVoted")
+                .withArgs(arbiter1.address, 0, 7_500);
+
+            expect(await disputeModule.hasVoted(0, arbiter1.address)).to.be.true;
+            expect(await disputeModule.workerShareSum(0)).to.equal(7_500);
+            expect(await disputeModule.getVoters(0)).to.deep.equal([arbiter1.address]);
+        });
+
+        it("Should revert if called by another address than an arbiter", async function () {
+            const {disputeModule, other} = await loadFixture(disputedJobFixture);
+
+            await expect(disputeModule.connect(other).vote(0, 5_000))
+                .to.be.revertedWith("Not an arbiter");
+        });
+
+        it("Should revert if the arbiter is a party of the dispute", async function () {
+            const {disputeModule, creator} = await loadFixture(disputedJobFixture);
+
+            await disputeModule.connect(creator).registerAsArbiter();
+
+            await expect(disputeModule.connect(creator).vote(0, 0))
+                .to.be.revertedWith("Parties can't arbitrate their own dispute");
+        });
+
+        it("Should revert if the arbiter already voted", async function () {
+            const {disputeModule, arbiter1} = await loadFixture(disputedJobFixture);
+
+            await disputeModule.connect(arbiter1).vote(0, 5_000);
+
+            await expect(disputeModule.connect(arbiter1).vote(0, 5_000))
+                .to.be.revertedWith("Already voted");
+        });
+
+        it("Should revert if the worker share exceeds 100%", async function () {
+            const {disputeModule, arbiter1} = await loadFixture(disputedJobFixture);
+
+            await expect(disputeModule.connect(arbiter1).vote(0, 10_001))
+                .to.be.revertedWith("Worker share can't exceed 100%");
+        });
+
+        it("Should revert once the voting period is over", async function () {
+            const {disputeModule, arbiter1, votingEnd} = await loadFixture(disputedJobFixture);
+
+            await time.increaseTo(votingEnd + 1n);
+
+            await expect(disputeModule.connect(arbiter1).vote(0, 5_000))
+                .to.be.revertedWithCustomError(disputeModule, "VotingClosed")
+                .withArgs(votingEnd);
+        });
+
+        it("Should revert if the job is not disputed", async function () {
+            const {superHelper, helperToken, disputeModule, creator, arbiter1} = await loadFixture(disputedJobFixture);
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 1n);
+            await superHelper.connect(creator).createJob("Open job", 1n, JOB_DURATION);
+
+            await expect(disputeModule.connect(arbiter1).vote(1, 5_000))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(0, 4); // current.CREATED vs expected.DISPUTED
+        });
+    });
+
+    describe("Resolution: finalize", function () {
+
+        it("Should apply the average vote and pay the arbiters", async function () {
+            const {
+                superHelper,
+                helperToken,
+                disputeModule,
+                creator,
+                worker,
+                arbiter1,
+                arbiter2,
+                arbiter3,
+                reward,
+                votingEnd
+            } = await loadFixture(disputedJobFixture);
+
+            await disputeModule.connect(arbiter1).vote(0, 10_000);
+            await disputeModule.connect(arbiter2).vote(0, 5_000);
+            await disputeModule.connect(arbiter3).vote(0, 6_000);
+            await time.increaseTo(votingEnd + 1n);
+
+            const arbiterFee = (reward * 200n) / 10_000n / 3n;
+            const remaining = reward - arbiterFee * 3n;
+            const workerAmount = (remaining * 7_000n) / 10_000n; // average of the votes
+
+            const tx = disputeModule.finalize(0);
+
+            await expect(tx)
+                .to.emit(disputeModule, "DisputeFinalized")
+                .withArgs(0, 7_000, 3);
+            await expect(tx)
+                .to.emit(superHelper, "JobSettled")
+                .withArgs(creator.address, worker.address, 0, workerAmount, remaining - workerAmount, arbiterFee * 3n);
+            await expect(tx).to.changeTokenBalances(
+                helperToken,
+                [worker, creator, arbiter1, arbiter2, arbiter3],
+                [workerAmount, remaining - workerAmount, arbiterFee, arbiterFee, arbiterFee]
+            );
+
+            expect((await superHelper.jobs(0)).status).to.equal(7); // SETTLED
+            expect(await disputeModule.isFinalized(0)).to.be.true;
+        });
+
+        it("Should not let an arbiter paid in ETH re-enter finalize", async function () {
+            const {superHelper, disputeModule, owner, creator, worker, arbiter1, arbiter2} = await loadFixture(deployContractsFixture);
+            const reward = hre.ethers.parseEther("1");
+
+            await superHelper.connect(owner).setPaymentToken(NATIVE_TOKEN, true);
+            await superHelper.connect(creator).createJobWithToken("Disputed job", NATIVE_TOKEN, reward, JOB_DURATION, {value: reward});
+            await superHelper.connect(creator).createJobWithToken("Other job", NATIVE_TOKEN, reward, JOB_DURATION, {value: reward});
+            await superHelper.connect(worker).takeJob(0);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+            await superHelper.connect(creator).completeAndReviewJob(0, 0, true, 0);
+
+            const ReentrantReceiver = await hre.ethers.getContractFactory("ReentrantReceiver", owner);
+            const attacker = await ReentrantReceiver.deploy();
+            await attacker.execute(superHelper, superHelper.interface.encodeFunctionData("distributeToNewUser"));
+            await attacker.execute(disputeModule, disputeModule.interface.encodeFunctionData("registerAsArbiter"));
+            await attacker.execute(disputeModule, disputeModule.interface.encodeFunctionData("vote", [0, 10_000]));
+            for (const arbiter of [arbiter1, arbiter2]) {
+                await disputeModule.connect(arbiter).registerAsArbiter();
+                await disputeModule.connect(arbiter).vote(0, 10_000);
+            }
+            await attacker.setReentry(disputeModule, disputeModule.interface.encodeFunctionData("finalize", [0]));
+            await time.increase(await disputeModule.VOTING_PERIOD() + 1n);
+
+            const arbiterFee = (reward * 200n) / 10_000n / 3n;
+            await expect(disputeModule.finalize(0))
+                .to.changeEtherBalances([worker, attacker, superHelper], [reward - arbiterFee * 3n, arbiterFee, -reward]);
+
+            expect(await attacker.reentrySucceeded()).to.be.false;
+            expect(superHelper.interface.parseError(await attacker.reentryResult())!.name).to.equal("JobStatusIncorrect");
+            expect(await hre.ethers.provider.getBalance(superHelper)).to.equal(reward);
+            expect(await superHelper.escrowedTokens(NATIVE_TOKEN)).to.equal(reward);
+        });
+
+        it("Should revert during the voting period", async function () {
+            const {disputeModule, votingEnd} = await loadFixture(disputedJobFixture);
+
+            await expect(disputeModule.finalize(0))
+                .to.be.revertedWithCustomError(disputeModule, "VotingNotOver")
+                .withArgs(votingEnd);
+        });
+
+        it("Should revert if the quorum is not reached and leave the dispute to the owner", async function () {
+            const {superHelper, disputeModule, owner, arbiter1, arbiter2, votingEnd} = await loadFixture(disputedJobFixture);
+
+            await disputeModule.connect(arbiter1).vote(0, 10_000);
+            await disputeModule.connect(arbiter2).vote(0, 10_000);
+            await time.increaseTo(votingEnd + 1n);
+
+            await expect(disputeModule.finalize(0))
+                .to.be.revertedWithCustomError(disputeModule, "QuorumNotReached")
+                .withArgs(2, 3);
+
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+            await expect(superHelper.connect(owner).handleDisputedJob(0, false))
+                .to.emit(superHelper, "JobCompletedButNotPaid");
+        });
+
+        it("Should revert if the dispute is already resolved", async function () {
+            const {superHelper, disputeModule, arbiter1, arbiter2, arbiter3, votingEnd} = await loadFixture(disputedJobFixture);
+
+            for (const arbiter of [arbiter1, arbiter2, arbiter3]) {
+                await disputeModule.connect(arbiter).vote(0, 5_000);
+            }
+            await time.increaseTo(votingEnd + 1n);
+            await disputeModule.finalize(0);
+
+            await expect(disputeModule.finalize(0))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(7, 4); // current.SETTLED vs expected.DISPUTED
+        });
+    });
+});
@@ -0,0 +1,167 @@
+import {loadFixture} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import hre from "hardhat";
+
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+
+describe("JobLens Contract", function () {
+
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+    const CREATED = 0;
+    const TAKEN = 1;
+    const SUBMITTED = 5;
+
+    async function deployContractsFixture() {
+        const [owner, creator, worker, other] = await hre.ethers.getSigners();
+
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+
+        const JobLens = await hre.ethers.getContractFactory("JobLens", owner);
+        const jobLens = await JobLens.deploy(await superHelper.getAddress());
+
+        return {superHelper, helperToken, jobLens, owner, creator, worker, other};
+    }
+
+    /**
+     * Jobs 0 and 4 are CREATED (0 abandoned by the worker), 1 is SUBMITTED by the worker,
+     * 2 is TAKEN by the worker and 3 is TAKEN by other.
+     */
+    async function jobsFixture() {
+        const fixture = await loadFixture(deployContractsFixture);
+        const {superHelper, helperToken, creator, worker, other} = fixture;
+        const reward = await helperToken.ONE_TOKEN();
+
+        for (const user of [creator, worker, other]) {
+            await superHelper.connect(user).distributeToNewUser();
+        }
+        await helperToken.connect(creator).approve(await superHelper.getAddress(), 5n * reward);
+        for (let id = 0; id < 5; id++) {
+            await superHelper.connect(creator).createJob(`Job ${id}`, reward, JOB_DURATION);
+        }
+
+        await superHelper.connect(worker).takeJob(0);
+        await superHelper.connect(worker).takeJob(1);
+        await superHelper.connect(worker).takeJob(2);
+        await superHelper.connect(worker).submitJob(1, "ipfs://deliverable");
+        await superHelper.connect(other).takeJob(3);
+        await superHelper.connect(worker).abandonJob(0);
+
+        return {...fixture, reward};
+    }
+
+    describe("getJobs", function () {
+        it("Should return the jobs in the order of the IDs", async function () {
+            const {jobLens, superHelper} = await loadFixture(jobsFixture);
+
+            const jobs = await jobLens.getJobs([3, 1]);
+
+            expect(jobs).to.have.length(2);
+            expect(jobs[0]).to.deep.equal(await superHelper.jobs(3));
+            expect(jobs[1]).to.deep.equal(await superHelper.jobs(1));
+            expect(jobs[1].deliverable).to.equal("ipfs://deliverable");
+        });
+
+        it("Should revert for a job that does not exist", async function () {
+            const {jobLens} = await loadFixture(jobsFixture);
+
+            await expect(jobLens.getJobs([0, 5])).to.be.revertedWith("Job does not exist");
+        });
+    });
+
+    describe("getJobsByStatus", function () {
+        it("Should return the jobs in a status by increasing ID", async function () {
+            const {jobLens} = await loadFixture(jobsFixture);
+
+            const [createdIds, created] = await jobLens.getJobsByStatus(CREATED, 0, 10);
+            expect(createdIds).to.deep.equal([0n, 4n]);
+            expect(created.map((job) => job.description)).to.deep.equal(["Job 0", "Job 4"]);
+
+            const [submittedIds] = await jobLens.getJobsByStatus(SUBMITTED, 0, 10);
+            expect(submittedIds).to.deep.equal([1n]);
+        });
+
+        it("Should page over the matching jobs", async function () {
+            const {jobLens, worker, other} = await loadFixture(jobsFixture);
+
+            const [firstIds, first] = await jobLens.getJobsByStatus(TAKEN, 0, 1);
+            expect(firstIds).to.deep.equal([2n]);
+            expect(first[0].worker).to.equal(worker.address);
+
+            const [secondIds, second] = await jobLens.getJobsByStatus(TAKEN, 1, 1);
+            expect(secondIds).to.deep.equal([3n]);
+            expect(second[0].worker).to.equal(other.address);
+
+            const [lastIds, last] = await jobLens.getJobsByStatus(TAKEN, 2, 1);
+            expect(lastIds).to.be.empty;
+            expect(last).to.be.empty;
+        });
+
+        it("Should return nothing before the first job", async function () {
+            const {jobLens} = await loadFixture(deployContractsFixture);
+
+            const [ids, jobs] = await jobLens.getJobsByStatus(CREATED, 0, 10);
+            expect(ids).to.be.empty;
+            expect(jobs).to.be.empty;
+        });
+    });
+
+    describe("getJobsByCreator", function () {
+        it("Should page over the jobs of a creator by creation order", async function () {
+            const {jobLens, creator} = await loadFixture(jobsFixture);
+
+            const [firstIds, first] = await jobLens.getJobsByCreator(creator.address, 0, 3);
+            expect(firstIds).to.deep.equal([0n, 1n, 2n]);
+            expect(first.map((job) => job.creator)).to.deep.equal([creator.address, creator.address, creator.address]);
+
+            const [lastIds] = await jobLens.getJobsByCreator(creator.address, 3, 3);
+            expect(lastIds).to.deep.equal([3n, 4n]);
+
+            const [afterIds, after] = await jobLens.getJobsByCreator(creator.address, 5, 3);
+            expect(afterIds).to.be.empty;
+            expect(after).to.be.empty;
+        });
+
+        it("Should return nothing for a user without jobs", async function () {
+            const {jobLens, worker} = await loadFixture(jobsFixture);
+
+            const [ids] = await jobLens.getJobsByCreator(worker.address, 0, 10);
+            expect(ids).to.be.empty;
+        });
+    });
+
+    describe("getJobsByWorker", function () {
+        it("Should return the jobs assigned to a worker, abandoned ones excepted", async function () {
+            const {jobLens, worker, other} = await loadFixture(jobsFixture);
+
+            // The abandoned job 0 is replaced by the last assigned job.
+            const [workerIds, workerJobs] = await jobLens.getJobsByWorker(worker.address, 0, 10);
+            expect(workerIds).to.deep.equal([2n, 1n]);
+            expect(workerJobs.map((job) => Number(job.status))).to.deep.equal([TAKEN, SUBMITTED]);
+
+            const [otherIds] = await jobLens.getJobsByWorker(other.address, 0, 10);
+            expect(otherIds).to.deep.equal([3n]);
+        });
+
+        it("Should list a job retaken by its worker once", async function () {
+            const {superHelper, jobLens, worker} = await loadFixture(jobsFixture);
+
+            await superHelper.connect(worker).takeJob(0);
+
+            const [ids] = await jobLens.getJobsByWorker(worker.address, 0, 10);
+            expect(ids).to.deep.equal([2n, 1n, 0n]);
+        });
+
+        it("Should list the jobs of an accepted applicant", async function () {
+            const {superHelper, jobLens, creator, other} = await loadFixture(jobsFixture);
+
+            await superHelper.connect(other).applyForJob(4, hre.ethers.ZeroHash, 0);
+            await superHelper.connect(creator).acceptApplicant(4, other.address);
+
+            const [ids, jobs] = await jobLens.getJobsByWorker(other.address, 1, 10);
+            expect(ids).to.deep.equal([4n]);
+            expect(jobs[0].worker).to.equal(other.address);
+        });
+    });
+});
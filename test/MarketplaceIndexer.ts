@@ -0,0 +1,255 @@
+import {loadFixture} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+import {JsonStore, MarketplaceIndexer, MemoryStore} from "../indexer";
+import {encodeTag, JobStatus, NATIVE_TOKEN} from "../sdk";
+
+describe("Marketplace Indexer", function () {
+
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+
+    async function deployWithActivityFixture() {
+        const [owner, user1, user2, other] = await hre.ethers.getSigners();
+
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+        const ONE_TOKEN = await helperToken.ONE_TOKEN();
+        const superHelperAddress = await superHelper.getAddress();
+
+        for (const user of [user1, user2, other]) {
+            await superHelper.connect(user).distributeToNewUser();
+            await helperToken.connect(user).approve(superHelperAddress, 100n * ONE_TOKEN);
+        }
+
+        await superHelper.connect(user1).createJob("Completed job", 10n * ONE_TOKEN, JOB_DURATION); // 0
+        await superHelper.connect(user1).createJob("Disputed job", 20n * ONE_TOKEN, JOB_DURATION); // 1
+        await superHelper.connect(user2).createJob("Cancelled job", 5n * ONE_TOKEN, JOB_DURATION); // 2
+        await superHelper.connect(user2).createJob("Open job", 30n * ONE_TOKEN, JOB_DURATION); // 3
+        await superHelper.connect(other).createJob("Taken job", 15n * ONE_TOKEN, JOB_DURATION); // 4
+
+        await superHelper.connect(user2).takeJob(0);
+        await superHelper.connect(user2).submitJob(0, "ipfs://completed");
+        await superHelper.connect(user1).completeAndReviewJob(0, 4, false, 0);
+        await superHelper.connect(other).takeJob(1);
+        await superHelper.connect(other).submitJob(1, "ipfs://disputed");
+        await superHelper.connect(user1).completeAndReviewJob(1, 1, true, 0);
+        await superHelper.connect(user1).takeJob(2);
+        await superHelper.connect(user1).abandonJob(2);
+        await superHelper.connect(user2).cancelJob(2);
+        await superHelper.connect(user1).takeJob(4);
+        await superHelper.connect(user1).submitJob(4, "ipfs://submitted");
+
+        return {superHelper, helperToken, owner, user1, user2, other, ONE_TOKEN};
+    }
+
+    async function expectAgreesWithChain(indexer: MarketplaceIndexer, superHelper: any) {
+        const jobCount = await superHelper.jobCount();
+        expect(indexer.getJobs()).to.have.length(Number(jobCount));
+
+        for (let id = 0n; id < jobCount; id++) {
+            const onChain = await superHelper.jobs(id);
+            const indexed = indexer.getJob(id)!;
+
+            expect(indexed.creator).to.equal(onChain.creator);
+            expect(indexed.worker).to.equal(onChain.worker);
+            expect(indexed.description).to.equal(onChain.description);
+            expect(indexed.reward).to.equal(onChain.reward);
+            expect(indexed.stars).to.equal(Number(onChain.stars));
+            expect(indexed.status).to.equal(Number(onChain.status));
+            expect(indexed.deliverable).to.equal(onChain.deliverable);
+            expect(indexed.released).to.equal(onChain.released);
+        }
+
+        for (const user of indexer.getUsers()) {
+            const onChain = await superHelper.users(user.address);
+
+            expect(onChain.isRegistered).to.be.true;
+            expect(user.nbJobCompleted).to.equal(onChain.nbJobCompleted);
+            expect(user.nbJobAbandoned).to.equal(onChain.nbJobAbandoned);
+        }
+    }
+
+    it("Should rebuild jobs and users that agree with the on-chain getters", async function () {
+        const {superHelper, owner} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+
+        expect(await indexer.sync()).to.equal(await hre.ethers.provider.getBlockNumber());
+
+        await expectAgreesWithChain(indexer, superHelper);
+        expect(indexer.getUsers()).to.have.length(3);
+
+        await superHelper.connect(owner).setDisputeModule(owner.address);
+        await superHelper.connect(owner).resolveDispute(1, 7_500, [], 0);
+        await indexer.sync();
+
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+
+    it("Should query jobs by creator, worker, status and reward range", async function () {
+        const {superHelper, user1, user2, ONE_TOKEN} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+        await indexer.sync();
+
+        const ids = (jobs: { id: bigint }[]) => jobs.map((job) => job.id);
+
+        expect(ids(indexer.getJobs({creator: user1.address}))).to.deep.equal([0n, 1n]);
+        expect(ids(indexer.getJobs({worker: user2.address.toLowerCase()}))).to.deep.equal([0n]);
+        expect(ids(indexer.getJobs({status: JobStatus.CREATED}))).to.deep.equal([3n]);
+        expect(ids(indexer.getJobs({status: JobStatus.SUBMITTED}))).to.deep.equal([4n]);
+        expect(ids(indexer.getJobs({minReward: 15n * ONE_TOKEN, maxReward: 20n * ONE_TOKEN}))).to.deep.equal([1n, 4n]);
+        expect(ids(indexer.getJobs({creator: user2.address, status: JobStatus.CANCELLED}))).to.deep.equal([2n]);
+
+        const user = indexer.getUser(user1.address)!;
+        expect(user.nbJobCreated).to.equal(2n);
+        expect(user.nbJobTaken).to.equal(2n);
+        expect(user.nbJobAbandoned).to.equal(1n);
+    });
+
+    it("Should track the milestones released to the worker", async function () {
+        const {superHelper, helperToken, user1, user2, ONE_TOKEN} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+
+        await helperToken.connect(user1).approve(await superHelper.getAddress(), 30n * ONE_TOKEN);
+        await superHelper.connect(user1).createJobWithMilestones("Staged job", ["Draft", "Final"], [10n * ONE_TOKEN, 20n * ONE_TOKEN], JOB_DURATION);
+        await superHelper.connect(user2).takeJob(5);
+        await superHelper.connect(user1).approveMilestone(5, 1);
+        await indexer.sync();
+
+        expect(indexer.getJob(5n)!.reward).to.equal(30n * ONE_TOKEN);
+        expect(indexer.getJob(5n)!.released).to.equal(20n * ONE_TOKEN);
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+
+    it("Should apply the price agreed with an accepted applicant", async function () {
+        const {superHelper, user2, other, ONE_TOKEN} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+
+        await superHelper.connect(other).applyForJob(3, hre.ethers.ZeroHash, 25n * ONE_TOKEN);
+        await superHelper.connect(user2).acceptApplicant(3, other.address);
+        await indexer.sync();
+
+        expect(indexer.getJob(3n)!.reward).to.equal(25n * ONE_TOKEN);
+        expect(indexer.getJob(3n)!.worker).to.equal(other.address);
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+
+    it("Should apply the description and reward of an updated job", async function () {
+        const {superHelper, user2, ONE_TOKEN} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+
+        await superHelper.connect(user2).updateJob(3, "Updated job", 12n * ONE_TOKEN);
+        await indexer.sync();
+
+        expect(indexer.getJob(3n)).to.include({description: "Updated job", reward: 12n * ONE_TOKEN});
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+
+    it("Should query jobs described off-chain by category and tag", async function () {
+        const {superHelper, user1} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+        const ids = (jobs: { id: bigint }[]) => jobs.map((job) => job.id);
+
+        const metadata = (category: number, tags: string[]) => ({category, contentHash: hre.ethers.id("description"), tags: tags.map(encodeTag)});
+        await superHelper.connect(user1).createJobWithMetadata("ipfs://design", metadata(1, ["logo", "svg"]), 1n, JOB_DURATION); // 5
+        await superHelper.connect(user1).createJobWithMetadata("ipfs://code", metadata(2, ["solidity"]), 1n, JOB_DURATION); // 6
+        await indexer.sync();
+
+        expect(indexer.getJob(5n)).to.include({category: 1n, contentHash: hre.ethers.id("description")});
+        expect(indexer.getJob(5n)!.tags).to.deep.equal(["logo", "svg"]);
+        expect(indexer.getJob(0n)!.category).to.be.undefined;
+        expect(ids(indexer.getJobs({category: 2n}))).to.deep.equal([6n]);
+        expect(ids(indexer.getJobs({tag: "svg"}))).to.deep.equal([5n]);
+        expect(ids(indexer.getJobs({tag: "svg", category: 2n}))).to.be.empty;
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+
+    it("Should record the payment token of the jobs not paid in HELP", async function () {
+        const {superHelper, owner, user1} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+
+        await superHelper.connect(owner).setPaymentToken(NATIVE_TOKEN, true);
+        await superHelper.connect(user1).createJobWithToken("ETH job", NATIVE_TOKEN, 1n, JOB_DURATION, {value: 1n}); // 5
+        await indexer.sync();
+
+        expect(indexer.getJob(5n)!.token).to.equal(NATIVE_TOKEN);
+        expect(indexer.getJob(0n)!.token).to.be.undefined;
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+
+    it("Should cancel the jobs withdrawn in emergency mode", async function () {
+        const {superHelper, owner, user2} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+
+        await superHelper.connect(owner).pause();
+        await superHelper.connect(owner).setEmergencyMode(true);
+        await superHelper.connect(user2).emergencyWithdraw(3);
+        await indexer.sync();
+
+        expect(indexer.getJob(3n)!.status).to.equal(JobStatus.CANCELLED);
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+
+    it("Should restart from the persisted checkpoint", async function () {
+        const {superHelper, user2} = await loadFixture(deployWithActivityFixture);
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "superhelper-indexer-"));
+        const filePath = path.join(directory, "state.json");
+
+        try {
+            const first = new MarketplaceIndexer({superHelper, store: new JsonStore(filePath)});
+            const checkpoint = await first.sync();
+
+            await superHelper.connect(user2).cancelJob(3);
+
+            const restarted = new MarketplaceIndexer({superHelper, store: new JsonStore(filePath)});
+            const provider = hre.ethers.provider;
+            const getLogs = provider.getLogs.bind(provider);
+            const requestedFrom: number[] = [];
+            provider.getLogs = async (filter: any) => {
+                requestedFrom.push(filter.fromBlock);
+                return getLogs(filter);
+            };
+
+            try {
+                await restarted.sync();
+            } finally {
+                provider.getLogs = getLogs;
+            }
+
+            expect(requestedFrom).to.deep.equal([checkpoint + 1]);
+            expect(restarted.getJob(3n)!.status).to.equal(JobStatus.CANCELLED);
+            await expectAgreesWithChain(restarted, superHelper);
+
+            const stored = JSON.parse(fs.readFileSync(filePath, "utf8"));
+            expect(stored.events.filter((event: any) => event.name === "JobAdded")).to.have.length(5);
+        } finally {
+            fs.rmSync(directory, {recursive: true, force: true});
+        }
+    });
+
+    it("Should roll back events of reorganized blocks", async function () {
+        const {superHelper, user1, user2} = await loadFixture(deployWithActivityFixture);
+        const indexer = new MarketplaceIndexer({superHelper, store: new MemoryStore()});
+        await indexer.sync();
+
+        const snapshot = await hre.network.provider.send("evm_snapshot");
+        await superHelper.connect(user1).takeJob(3);
+        await indexer.sync();
+        expect(indexer.getJob(3n)!.status).to.equal(JobStatus.TAKEN);
+
+        await hre.network.provider.send("evm_revert", [snapshot]);
+        await hre.network.provider.send("evm_mine");
+        await superHelper.connect(user2).cancelJob(3);
+        await indexer.sync();
+
+        expect(indexer.getJob(3n)!.status).to.equal(JobStatus.CANCELLED);
+        expect(indexer.getJob(3n)!.worker).to.equal(hre.ethers.ZeroAddress);
+        expect(indexer.getUser(user1.address)!.nbJobTaken).to.equal(2n);
+        await expectAgreesWithChain(indexer, superHelper);
+    });
+});
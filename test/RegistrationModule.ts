@@ -0,0 +1,270 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import hre from "hardhat";
+
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+import {AllowlistTree, GaslessRelayer, RegistrationMode, signInvitation} from "../sdk";
+
+describe("RegistrationModule Contract", function () {
+
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+    const INVITATION_QUOTA = 2;
+    const NONE_BADGE = 0;
+    const BRONZE_BADGE = 1;
+
+    async function deployContractsFixture() {
+        const [owner, inviter, worker, alice, bob, carol, other] = await hre.ethers.getSigners();
+
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+
+        const RegistrationModule = await hre.ethers.getContractFactory("RegistrationModule", owner);
+        const registrationModule = await RegistrationModule.deploy(await superHelper.getAddress(), INVITATION_QUOTA);
+        await superHelper.connect(owner).setRegistrationModule(await registrationModule.getAddress());
+
+        return {superHelper, helperToken, registrationModule, owner, inviter, worker, alice, bob, carol, other};
+    }
+
+    async function allowlistFixture() {
+        const fixture = await loadFixture(deployContractsFixture);
+        const {superHelper, registrationModule, owner, alice, bob, carol} = fixture;
+
+        const tree = new AllowlistTree([alice.address, bob.address, carol.address]);
+        await registrationModule.connect(owner).setAllowlistRoot(tree.root);
+        await superHelper.connect(owner).setRegistrationMode(RegistrationMode.ALLOWLIST);
+
+        return {...fixture, tree};
+    }
+
+    async function invitationFixture() {
+        const fixture = await loadFixture(deployContractsFixture);
+        const {superHelper, helperToken, owner, inviter, worker} = fixture;
+
+        // The inviter earns the BRONZE badge with a single job before invitations are required.
+        await superHelper.connect(owner).setBadgeThresholds(1, 2, 3);
+        await superHelper.connect(inviter).distributeToNewUser();
+        await superHelper.connect(worker).distributeToNewUser();
+        await helperToken.connect(worker).approve(await superHelper.getAddress(), 1n);
+        await superHelper.connect(worker).createJob("Bronze job", 1n, JOB_DURATION);
+        await superHelper.connect(inviter).takeJob(0);
+        await superHelper.connect(inviter).submitJob(0, "ipfs://deliverable");
+        await superHelper.connect(worker).completeAndReviewJob(0, 5, false, 0);
+
+        await superHelper.connect(owner).setRegistrationMode(RegistrationMode.INVITATION);
+
+        return fixture;
+    }
+
+    describe("Open registration", function () {
+
+        it("Should register users with distributeToNewUser by default", async function () {
+            const {superHelper, alice} = await loadFixture(deployContractsFixture);
+
+            expect(await superHelper.registrationMode()).to.equal(RegistrationMode.OPEN);
+            await expect(superHelper.connect(alice).distributeToNewUser())
+                .to.emit(superHelper, "FirstRegistration")
+                .withArgs(alice.address);
+        });
+
+        it("Should revert distributeToNewUser in the other modes", async function () {
+            const {superHelper, owner, alice} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(owner).setRegistrationMode(RegistrationMode.INVITATION))
+                .to.emit(superHelper, "RegistrationModeUpdated")
+                .withArgs(RegistrationMode.INVITATION);
+
+            await expect(superHelper.connect(alice).distributeToNewUser())
+                .to.be.revertedWithCustomError(superHelper, "RegistrationModeIncorrect")
+                .withArgs(RegistrationMode.INVITATION, RegistrationMode.OPEN);
+        });
+
+        it("Should only let the registration module register users", async function () {
+            const {superHelper, alice} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(alice).registerUser(alice.address))
+                .to.be.revertedWith("Only the registration module can register users");
+        });
+    });
+
+    describe("Allowlist: registerWithProof", function () {
+
+        it("Should register an allowlisted address with its proof", async function () {
+            const {superHelper, helperToken, registrationModule, tree, bob} = await loadFixture(allowlistFixture);
+
+            await expect(registrationModule.connect(bob).registerWithProof(tree.getProof(bob.address)))
+                .to.emit(superHelper, "FirstRegistration")
+                .withArgs(bob.address);
+
+            expect((await superHelper.users(bob.address)).isRegistered).to.be.true;
+            expect(await helperToken.balanceOf(bob.address)).to.equal(await superHelper.welcomeGrant());
+        });
+
+        it("Should register every address of the allowlist", async function () {
+            const {superHelper, registrationModule, tree, alice, bob, carol} = await loadFixture(allowlistFixture);
+
+            for (const user of [alice, bob, carol]) {
+                await registrationModule.connect(user).registerWithProof(tree.getProof(user.address));
+                expect((await superHelper.users(user.address)).isRegistered).to.be.true;
+            }
+        });
+
+        it("Should revert for an address outside of the allowlist", async function () {
+            const {registrationModule, tree, alice, other} = await loadFixture(allowlistFixture);
+
+            await expect(registrationModule.connect(other).registerWithProof(tree.getProof(alice.address)))
+                .to.be.revertedWith("Address not in the allowlist");
+        });
+
+        it("Should revert if the user is already registered", async function () {
+            const {registrationModule, tree, alice} = await loadFixture(allowlistFixture);
+
+            await registrationModule.connect(alice).registerWithProof(tree.getProof(alice.address));
+
+            await expect(registrationModule.connect(alice).registerWithProof(tree.getProof(alice.address)))
+                .to.be.revertedWith("This user is already registered");
+        });
+
+        it("Should revert outside of the allowlist mode", async function () {
+            const {superHelper, registrationModule, tree, owner, alice} = await loadFixture(allowlistFixture);
+
+            await superHelper.connect(owner).setRegistrationMode(RegistrationMode.OPEN);
+
+            await expect(registrationModule.connect(alice).registerWithProof(tree.getProof(alice.address)))
+                .to.be.revertedWithCustomError(registrationModule, "RegistrationModeIncorrect")
+                .withArgs(RegistrationMode.OPEN, RegistrationMode.ALLOWLIST);
+        });
+    });
+
+    describe("Invitations: registerWithInvitation", function () {
+
+        it("Should register users invited by the owner without quota", async function () {
+            const {superHelper, registrationModule, owner, alice, bob, carol} = await loadFixture(invitationFixture);
+
+            for (const invitee of [alice, bob, carol]) {
+                const invitation = await signInvitation(owner, registrationModule, invitee.address);
+
+                await expect(registrationModule.connect(invitee).registerWithInvitation(owner.address, invitation.deadline, invitation.signature))
+                    .to.emit(registrationModule, "InvitationUsed")
+                    .withArgs(owner.address, invitee.address);
+                expect((await superHelper.users(invitee.address)).isRegistered).to.be.true;
+            }
+            expect(await registrationModule.invitationsSent(owner.address)).to.equal(0);
+        });
+
+        it("Should count the invitations of BRONZE users against their quota", async function () {
+            const {registrationModule, inviter, alice, bob, carol} = await loadFixture(invitationFixture);
+
+            for (const invitee of [alice, bob]) {
+                const invitation = await signInvitation(inviter, registrationModule, invitee.address);
+                await registrationModule.connect(invitee).registerWithInvitation(inviter.address, invitation.deadline, invitation.signature);
+            }
+            expect(await registrationModule.invitationsSent(inviter.address)).to.equal(INVITATION_QUOTA);
+            expect(await registrationModule.remainingInvitations(inviter.address)).to.equal(0);
+
+            const invitation = await signInvitation(inviter, registrationModule, carol.address);
+            await expect(registrationModule.connect(carol).registerWithInvitation(inviter.address, invitation.deadline, invitation.signature))
+                .to.be.revertedWithCustomError(registrationModule, "InvitationQuotaReached")
+                .withArgs(INVITATION_QUOTA);
+        });
+
+        it("Should revert invitations of users without a badge", async function () {
+            const {superHelper, registrationModule, worker, alice} = await loadFixture(invitationFixture);
+            expect((await superHelper.users(worker.address)).badgeLevel).to.equal(NONE_BADGE);
+
+            const invitation = await signInvitation(worker, registrationModule, alice.address);
+
+            await expect(registrationModule.connect(alice).registerWithInvitation(worker.address, invitation.deadline, invitation.signature))
+                .to.be.revertedWithCustomError(registrationModule, "BadgeTooLow")
+                .withArgs(NONE_BADGE, BRONZE_BADGE);
+        });
+
+        it("Should revert an invitation signed for another invitee", async function () {
+            const {registrationModule, inviter, alice, bob} = await loadFixture(invitationFixture);
+
+            const invitation = await signInvitation(inviter, registrationModule, alice.address);
+
+            await expect(registrationModule.connect(bob).registerWithInvitation(inviter.address, invitation.deadline, invitation.signature))
+                .to.be.revertedWith("Invalid invitation signature");
+        });
+
+        it("Should revert an expired invitation", async function () {
+            const {registrationModule, inviter, alice} = await loadFixture(invitationFixture);
+
+            const deadline = BigInt(await time.latest()) + 60n;
+            const invitation = await signInvitation(inviter, registrationModule, alice.address, deadline);
+            await time.increaseTo(deadline + 1n);
+
+            await expect(registrationModule.connect(alice).registerWithInvitation(inviter.address, invitation.deadline, invitation.signature))
+                .to.be.revertedWithCustomError(registrationModule, "DeadlinePassed")
+                .withArgs(deadline);
+        });
+
+        it("Should revert outside of the invitation mode", async function () {
+            const {superHelper, registrationModule, owner, alice} = await loadFixture(invitationFixture);
+
+            await superHelper.connect(owner).setRegistrationMode(RegistrationMode.ALLOWLIST);
+            const invitation = await signInvitation(owner, registrationModule, alice.address);
+
+            await expect(registrationModule.connect(alice).registerWithInvitation(owner.address, invitation.deadline, invitation.signature))
+                .to.be.revertedWithCustomError(registrationModule, "RegistrationModeIncorrect")
+                .withArgs(RegistrationMode.ALLOWLIST, RegistrationMode.INVITATION);
+        });
+
+        it("Should register a fresh address through the trusted forwarder", async function () {
+            const {superHelper, registrationModule, owner} = await loadFixture(invitationFixture);
+
+            const SuperHelperForwarder = await hre.ethers.getContractFactory("SuperHelperForwarder", owner);
+            const forwarder = await SuperHelperForwarder.deploy();
+            await superHelper.connect(owner).setTrustedForwarder(await forwarder.getAddress());
+
+            const invitee = hre.ethers.Wallet.createRandom(hre.ethers.provider);
+            const invitation = await signInvitation(owner, registrationModule, invitee.address);
+            const data = registrationModule.interface.encodeFunctionData(
+                "registerWithInvitation",
+                [owner.address, invitation.deadline, invitation.signature]
+            );
+
+            const relayer = await GaslessRelayer.connect(await superHelper.getAddress(), owner);
+
+            await expect(relayer.relay(invitee, {to: await registrationModule.getAddress(), data}))
+                .to.emit(superHelper, "FirstRegistration")
+                .withArgs(invitee.address);
+        });
+    });
+
+    describe("Configuration", function () {
+
+        it("Should let the SuperHelper owner set the allowlist root and the quota", async function () {
+            const {registrationModule, owner, alice} = await loadFixture(deployContractsFixture);
+            const root = new AllowlistTree([alice.address]).root;
+
+            await expect(registrationModule.connect(owner).setAllowlistRoot(root))
+                .to.emit(registrationModule, "AllowlistRootUpdated")
+                .withArgs(root);
+            await expect(registrationModule.connect(owner).setInvitationQuota(5))
+                .to.emit(registrationModule, "InvitationQuotaUpdated")
+                .withArgs(5);
+
+            expect(await registrationModule.allowlistRoot()).to.equal(root);
+            expect(await registrationModule.invitationQuota()).to.equal(5);
+        });
+
+        it("Should revert if called by another address than the SuperHelper owner", async function () {
+            const {superHelper, registrationModule, other} = await loadFixture(deployContractsFixture);
+
+            await expect(registrationModule.connect(other).setAllowlistRoot(hre.ethers.ZeroHash))
+                .to.be.revertedWithCustomError(registrationModule, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+            await expect(registrationModule.connect(other).setInvitationQuota(5))
+                .to.be.revertedWithCustomError(registrationModule, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+            await expect(superHelper.connect(other).setRegistrationMode(RegistrationMode.OPEN))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+            await expect(superHelper.connect(other).setRegistrationModule(other.address))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+        });
+    });
+});
@@ -2,13 +2,20 @@ import {loadFixture, time} from "@nomicfoundation/hardhat-toolbox/network-helper
 import {expect} from "chai";
 import hre from "hardhat";
 
+import SuperHelperModule, {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+import SuperHelperUpgradeModule from "../ignition/modules/SuperHelperUpgrade";
+import localhostParameters from "../ignition/parameters/localhost.json";
+import type {HelperToken, SuperHelper} from "../typechain-types";
+
 describe("SuperHelper Contract", function () {
 
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+
     async function deployContractsFixture() {
         const [owner, user1, user2, other] = await hre.ethers.getSigners();
 
-        const SuperHelper = await hre.ethers.getContractFactory("SuperHelper", owner);
-        const superHelper = await SuperHelper.deploy();
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
 
         const helperTokenAddress = await superHelper.helperToken();
         const helperToken = await hre.ethers.getContractAt("HelperToken", helperTokenAddress, owner);
@@ -17,7 +24,7 @@ describe("SuperHelper Contract", function () {
     }
 
     async function deployAndPrepareDepreciationFixture() {
-        const {superHelper, helperToken, user1, user2} = await loadFixture(deployContractsFixture);
+        const {superHelper, helperToken, user1, user2, other} = await loadFixture(deployContractsFixture);
         const ONE_TOKEN = await helperToken.ONE_TOKEN();
 
         await superHelper.connect(user1).distributeToNewUser();
@@ -27,7 +34,7 @@ describe("SuperHelper Contract", function () {
         const userDataBefore = await superHelper.users(user1.address);
         await time.increaseTo(userDataBefore.lastActivity + BigInt(thirtyDays));
 
-        return {superHelper, helperToken, user1, user2, ONE_TOKEN};
+        return {superHelper, helperToken, user1, user2, other, ONE_TOKEN};
     }
 
     async function createAndDisputeJobFixture() {
@@ -40,11 +47,12 @@ describe("SuperHelper Contract", function () {
         await superHelper.connect(user2).distributeToNewUser();
 
         await helperToken.connect(user1).approve(await superHelper.getAddress(), rewardAmount);
-        await superHelper.connect(user1).createJob("Test Disputed Job", rewardAmount);
+        await superHelper.connect(user1).createJob("Test Disputed Job", rewardAmount, JOB_DURATION);
 
         await superHelper.connect(user2).takeJob(0);
+        await superHelper.connect(user2).submitJob(0, "ipfs://deliverable");
 
-        await superHelper.connect(user1).completeAndReviewJob(0, 2, true);
+        await superHelper.connect(user1).completeAndReviewJob(0, 2, true, 0);
 
         return { superHelper, helperToken, owner, user1, user2, rewardAmount };
     }
@@ -92,7 +100,7 @@ describe("SuperHelper Contract", function () {
 
             await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
 
-            await superHelper.connect(user1).createJob("Help me build a fence", reward);
+            await superHelper.connect(user1).createJob("Help me build a fence", reward, JOB_DURATION);
 
             const job = await superHelper.jobs(0);
             expect(job.description).to.equal("Help me build a fence");
@@ -111,7 +119,7 @@ describe("SuperHelper Contract", function () {
 
             await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
 
-            await superHelper.connect(user1).createJob("Help me build a fence", reward);
+            await superHelper.connect(user1).createJob("Help me build a fence", reward, JOB_DURATION);
 
             const lastActivityAfterCreatingJob = (await superHelper.users(user1.address)).lastActivity;
 
@@ -123,17 +131,28 @@ describe("SuperHelper Contract", function () {
             const {superHelper, helperToken, other} = await loadFixture(deployContractsFixture);
             const reward = 50n * await helperToken.ONE_TOKEN();
 
-            await expect(superHelper.connect(other).createJob("Unregistered Job", reward))
+            await expect(superHelper.connect(other).createJob("Unregistered Job", reward, JOB_DURATION))
                 .to.be.revertedWith("You're not registered");
         });
 
+        it("Should revert job creation without duration", async function () {
+            const {superHelper, helperToken, user1} = await loadFixture(deployContractsFixture);
+            const reward = 50n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
+
+            await expect(superHelper.connect(user1).createJob("No duration Job", reward, 0))
+                .to.be.revertedWith("Duration must be greater than 0");
+        });
+
         it("Should revert job creation if insufficient allowance", async function () {
             const {superHelper, helperToken, user1} = await loadFixture(deployContractsFixture);
             const reward = 50n * await helperToken.ONE_TOKEN();
 
             await superHelper.connect(user1).distributeToNewUser();
 
-            await expect(superHelper.connect(user1).createJob("No Allowance Job", reward))
+            await expect(superHelper.connect(user1).createJob("No Allowance Job", reward, JOB_DURATION))
                 .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance");
         });
 
@@ -148,7 +167,7 @@ describe("SuperHelper Contract", function () {
 
             await helperToken.connect(user1).approve(await superHelper.getAddress(), initialReward);
 
-            await expect(superHelper.connect(user1).createJob("Not enough funds job", insufficientReward))
+            await expect(superHelper.connect(user1).createJob("Not enough funds job", insufficientReward, JOB_DURATION))
                 .to.be.revertedWithCustomError(superHelper, "InsufficientFunds")
                 .withArgs(insufficientReward);
         });
@@ -174,7 +193,7 @@ describe("SuperHelper Contract", function () {
                 const balanceInitialUser1 = await helperToken.balanceOf(user1.address);
 
                 await expect(
-                    superHelper.connect(user1).createJob("Job with depreciation activated", jobReward)
+                    superHelper.connect(user1).createJob("Job with depreciation activated", jobReward, JOB_DURATION)
                 ).to.not.be.reverted;
 
                 const balanceFinalUser1 = await helperToken.balanceOf(user1.address);
@@ -200,11 +219,11 @@ describe("SuperHelper Contract", function () {
                 await helperToken.connect(user1).approve(await superHelper.getAddress(), userBalance);
 
                 await expect(
-                    superHelper.connect(user1).createJob("Job should fail due to depreciation balance", largeReward)
+                    superHelper.connect(user1).createJob("Job should fail due to depreciation balance", largeReward, JOB_DURATION)
                 ).to.be.revertedWithCustomError(superHelper, "InsufficientFunds");
             });
 
-            it("Should revert if allowance not sufficient for depreciation", async function () {
+            it("Should defer the depreciation when it is not approved", async function () {
                 const {
                     superHelper,
                     helperToken,
@@ -213,12 +232,58 @@ describe("SuperHelper Contract", function () {
                 } = await loadFixture(deployAndPrepareDepreciationFixture);
 
                 const jobReward = 10n * ONE_TOKEN;
+                const depreciationAmount = (100n * ONE_TOKEN * 5n) / 100n; // 500n
 
                 await helperToken.connect(user1).approve(await superHelper.getAddress(), jobReward);
 
-                await expect(
-                    superHelper.connect(user1).createJob("Job should fail due to depreciation allowance", jobReward)
-                ).to.be.revertedWithCustomError(superHelper, "InsufficientAllowance");
+                const tx = superHelper.connect(user1).createJob("Job with depreciation activated", jobReward, JOB_DURATION);
+                await expect(tx)
+                    .to.emit(superHelper, "DepreciationDeferred")
+                    .withArgs(user1.address, depreciationAmount);
+                await expect(tx).to.changeTokenBalance(helperToken, user1, -jobReward);
+
+                expect(await superHelper.deferredDepreciation(user1.address)).to.equal(depreciationAmount);
+                expect(await superHelper.pendingDepreciation(user1.address)).to.equal(depreciationAmount);
+                expect(await superHelper.depreciationPool()).to.equal(0);
+
+                await helperToken.connect(user1).approve(await superHelper.getAddress(), depreciationAmount);
+                await expect(superHelper.connect(user1).cancelJob(0))
+                    .to.emit(superHelper, "DepreciationCharged")
+                    .withArgs(user1.address, depreciationAmount, 0);
+
+                expect(await superHelper.deferredDepreciation(user1.address)).to.equal(0);
+                expect(await superHelper.depreciationPool()).to.equal(depreciationAmount);
+            });
+
+            it("Should not defer the depreciation of a user approving only their expenses twice", async function () {
+                const {
+                    superHelper,
+                    helperToken,
+                    user1,
+                    ONE_TOKEN
+                } = await loadFixture(deployAndPrepareDepreciationFixture);
+                const address = await superHelper.getAddress();
+
+                const jobReward = 10n * ONE_TOKEN;
+                const depreciationAmount = (100n * ONE_TOKEN * 5n) / 100n; // 500n
+
+                await helperToken.connect(user1).approve(address, jobReward);
+                await superHelper.connect(user1).createJob("First job", jobReward, JOB_DURATION);
+
+                await helperToken.connect(user1).approve(address, jobReward);
+                await expect(superHelper.connect(user1).createJob("Second job", jobReward, JOB_DURATION))
+                    .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                    .withArgs(depreciationAmount + jobReward);
+                await helperToken.connect(user1).approve(address, 0);
+                await expect(superHelper.connect(user1).cancelJob(0))
+                    .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                    .withArgs(depreciationAmount);
+
+                await helperToken.connect(user1).approve(address, depreciationAmount + jobReward);
+                await expect(superHelper.connect(user1).createJob("Second job", jobReward, JOB_DURATION))
+                    .to.emit(superHelper, "DepreciationCharged")
+                    .withArgs(user1.address, depreciationAmount, 0);
+                expect(await superHelper.deferredDepreciation(user1.address)).to.equal(0);
             });
 
         });
@@ -236,13 +301,14 @@ describe("SuperHelper Contract", function () {
             await superHelper.connect(user2).distributeToNewUser();
 
             await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
-            await superHelper.connect(user1).createJob("Clean house", reward);
+            await superHelper.connect(user1).createJob("Clean house", reward, JOB_DURATION);
 
             await superHelper.connect(user2).takeJob(0);
 
             const job = await superHelper.jobs(0);
             expect(job.worker).to.equal(user2.address);
             expect(job.status).to.equal(1); // TAKEN
+            expect(job.deadline).to.equal(BigInt(await time.latest() + JOB_DURATION));
         });
 
         it("Should revert if user is not registered", async function () {
@@ -261,7 +327,7 @@ describe("SuperHelper Contract", function () {
             await superHelper.connect(other).distributeToNewUser();
 
             await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
-            await superHelper.connect(user1).createJob("Repair pipes", reward);
+            await superHelper.connect(user1).createJob("Repair pipes", reward, JOB_DURATION);
 
             await superHelper.connect(user2).takeJob(0);
 
@@ -275,7 +341,7 @@ describe("SuperHelper Contract", function () {
             await superHelper.connect(user1).distributeToNewUser();
 
             await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
-            await superHelper.connect(user1).createJob("Clean house", reward);
+            await superHelper.connect(user1).createJob("Clean house", reward, JOB_DURATION);
 
             await expect(superHelper.connect(user1).takeJob(0)).to.be.revertedWith("Worker can't be the creator");
         });
@@ -288,7 +354,7 @@ describe("SuperHelper Contract", function () {
                     reward + depreciationAmount
                 );
 
-                await superHelper.connect(creator).createJob("Job with depreciation activated", reward)
+                await superHelper.connect(creator).createJob("Job with depreciation activated", reward, JOB_DURATION)
             }
 
             async function prepareBadgeLevel(nbJobToComplete: bigint) {
@@ -307,9 +373,10 @@ describe("SuperHelper Contract", function () {
 
                 for (let i = 0; i < nbJobToComplete; i++) {
                     await helperToken.connect(creator).approve(await superHelper.getAddress(), jobReward);
-                    await superHelper.connect(creator).createJob("Quick job", jobReward);
+                    await superHelper.connect(creator).createJob("Quick job", jobReward, JOB_DURATION);
                     await superHelper.connect(worker).takeJob(i);
-                    await superHelper.connect(creator).completeAndReviewJob(i, 3, false);
+                    await superHelper.connect(worker).submitJob(i, "ipfs://deliverable");
+                    await superHelper.connect(creator).completeAndReviewJob(i, 4, false, 0);
                 }
 
                 const thirtyDays = 30 * 24 * 60 * 60;
@@ -453,7 +520,7 @@ describe("SuperHelper Contract", function () {
                 expect(balanceFinalUser2).to.equal(balanceUser2 - depreciationAmount);
             });
 
-            it("Should revert if allowance not sufficient for depreciation", async function () {
+            it("Should still take the job when the depreciation is not approved", async function () {
                 const {
                     superHelper,
                     helperToken,
@@ -467,270 +534,3132 @@ describe("SuperHelper Contract", function () {
 
                 await prepareToTakeJob(superHelper, helperToken, user1, jobReward, depreciationAmount);
 
-                await helperToken.connect(user2).approve(await superHelper.getAddress(), depreciationAmount - 1n);
+                expect(await helperToken.allowance(user2.address, await superHelper.getAddress())).to.equal(0);
+                const tx = superHelper.connect(user2).takeJob(0);
+                await expect(tx)
+                    .to.emit(superHelper, "DepreciationDeferred")
+                    .withArgs(user2.address, depreciationAmount);
+                await expect(tx).to.changeTokenBalance(helperToken, user2, 0);
 
-                await expect(
-                    superHelper.connect(user1).createJob("Job should fail due to depreciation allowance", jobReward)
-                ).to.be.revertedWithCustomError(superHelper, "InsufficientAllowance");
+                expect((await superHelper.jobs(0)).worker).to.equal(user2.address);
+                expect(await superHelper.deferredDepreciation(user2.address)).to.equal(depreciationAmount);
             });
 
         });
 
     });
 
-    describe("Complete and Review Job: completeAndReviewJob", function () {
+    describe("Job indexes: getCreatorJobIds and getWorkerJobIds", function () {
+
+        async function gasUsed(action: Promise<{wait: () => Promise<{gasUsed: bigint} | null>}>) {
+            const receipt = await (await action).wait();
+            return receipt!.gasUsed;
+        }
+
+        it("Should index the jobs of their creator and worker", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = await helperToken.ONE_TOKEN();
 
-        async function prepareAndTakeJob(superHelper: any, helperToken: any, creator: any, worker: any, reward: bigint) {
             await superHelper.connect(creator).distributeToNewUser();
             await superHelper.connect(worker).distributeToNewUser();
-
-            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
-            await superHelper.connect(creator).createJob("Job Test", reward);
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 3n * reward);
+            for (let i = 0; i < 3; i++) {
+                await superHelper.connect(creator).createJob("Indexed job", reward, JOB_DURATION);
+            }
             await superHelper.connect(worker).takeJob(0);
-        }
+            await superHelper.connect(worker).takeJob(2);
 
-        it("Should allow worker to complete job successfully and get paid", async function () {
+            expect(await superHelper.getCreatorJobIds(creator.address)).to.deep.equal([0n, 1n, 2n]);
+            expect(await superHelper.getWorkerJobIds(worker.address)).to.deep.equal([0n, 2n]);
+            expect(await superHelper.getCreatorJobIds(worker.address)).to.be.empty;
+
+            await superHelper.connect(worker).abandonJob(0);
+            expect(await superHelper.getWorkerJobIds(worker.address)).to.deep.equal([2n]);
+        });
+
+        it("Should keep the cost of createJob and takeJob constant as the indexes grow", async function () {
             const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
-            const reward = 100n * await helperToken.ONE_TOKEN();
+            const reward = await helperToken.ONE_TOKEN();
+            const jobs = 20;
 
-            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+            // One reward more than needed, emptying the allowance would refund gas to the last job.
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), BigInt(jobs + 1) * reward);
+
+            const createCosts: bigint[] = [];
+            const takeCosts: bigint[] = [];
+            for (let id = 0; id < jobs; id++) {
+                createCosts.push(await gasUsed(superHelper.connect(creator).createJob("Indexed job", reward, JOB_DURATION)));
+                takeCosts.push(await gasUsed(superHelper.connect(worker).takeJob(id)));
+            }
 
-            await expect(superHelper.connect(creator).completeAndReviewJob(0, 5, false))
-                .to.emit(superHelper, "JobCompletedAndPaid")
-                .withArgs(creator.address, worker.address, 0, reward, 5);
+            // The first push of each index also writes the length slot of the array.
+            expect(createCosts[jobs - 1]).to.equal(createCosts[1]);
+            expect(takeCosts[jobs - 1]).to.equal(takeCosts[1]);
+        });
+    });
 
-            const job = await superHelper.jobs(0);
-            expect(job.status).to.equal(2); // COMPLETED
-            expect(job.stars).to.equal(5);
+    describe("Depreciation: pendingDepreciation and settleDepreciation", function () {
 
-            const workerBalance = await helperToken.balanceOf(worker.address);
-            expect(workerBalance).to.be.equal(200n * await helperToken.ONE_TOKEN()); // 100 from registration + 100 reward paid
+        it("Should not depreciate before a full inactivity period", async function () {
+            const {superHelper, user1} = await loadFixture(deployContractsFixture);
 
-            const userWorker = await superHelper.users(worker.address);
-            expect(userWorker.nbJobCompleted).to.equal(1);
+            await superHelper.connect(user1).distributeToNewUser();
+            await time.increase(30 * 24 * 60 * 60 - 10);
+
+            expect(await superHelper.pendingDepreciation(user1.address)).to.equal(0);
+            await expect(superHelper.connect(user1).settleDepreciation()).not.to.emit(superHelper, "DepreciationCharged");
         });
 
-        it("Should allow the creator to send a bad rate and marked the job as disputed", async function () {
-            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
-            const reward = 100n * await helperToken.ONE_TOKEN();
+        it("Should compound the depreciation for each full inactivity period", async function () {
+            const {superHelper, helperToken, user1} = await loadFixture(deployAndPrepareDepreciationFixture);
+            const balance = await helperToken.balanceOf(user1.address);
 
-            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            expect(await superHelper.pendingDepreciation(user1.address)).to.equal((balance * 5n) / 100n);
 
-            await expect(superHelper.connect(creator).completeAndReviewJob(0, 1, true))
-                .to.emit(superHelper, "JobDisputed")
-                .withArgs(creator.address, worker.address, 0);
+            await time.increase(2 * 30 * 24 * 60 * 60);
 
-            const job = await superHelper.jobs(0);
-            expect(job.status).to.equal(4); // Disputed
-            expect(job.stars).to.equal(1);
+            let remaining = balance;
+            for (let i = 0; i < 3; i++) {
+                remaining -= (remaining * 5n) / 100n;
+            }
+            expect(await superHelper.pendingDepreciation(user1.address)).to.equal(balance - remaining);
+        });
 
-            const workerBalance = await helperToken.balanceOf(worker.address);
-            expect(workerBalance).to.be.equal(100n * await helperToken.ONE_TOKEN()); // 100 from registration
+        it("Should cap the compounding to MAX_DEPRECIATION_PERIODS", async function () {
+            const {superHelper, helperToken, owner, user1} = await loadFixture(deployContractsFixture);
 
-            const creatorBalance = await helperToken.balanceOf(creator.address);
-            expect(creatorBalance).to.be.equal(0n); // 100 from registration - 100 locked in contract
+            await superHelper.connect(owner).setDepreciation(7 * 24 * 60 * 60, [20, 3, 2, 1]);
+            await superHelper.connect(user1).distributeToNewUser();
+            const balance = await helperToken.balanceOf(user1.address);
 
-            const userWorker = await superHelper.users(worker.address);
-            expect(userWorker.nbJobCompleted).to.equal(0);
+            await time.increase(100 * 7 * 24 * 60 * 60);
+
+            let remaining = balance;
+            for (let i = 0n; i < await superHelper.MAX_DEPRECIATION_PERIODS(); i++) {
+                remaining -= (remaining * 20n) / 100n;
+            }
+            expect(await superHelper.pendingDepreciation(user1.address)).to.equal(balance - remaining);
         });
 
-        it("Should revert if called by a non register address", async function () {
-            const {
-                superHelper,
-                helperToken,
-                user1: creator,
-                user2: worker,
-                other
-            } = await loadFixture(deployContractsFixture);
-            const reward = 80n * await helperToken.ONE_TOKEN();
+        it("Should return 0 for an unregistered user", async function () {
+            const {superHelper, other} = await loadFixture(deployContractsFixture);
 
-            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            expect(await superHelper.pendingDepreciation(other.address)).to.equal(0);
+        });
 
-            await expect(superHelper.connect(other).completeAndReviewJob(0, 4, false))
-                .to.be.revertedWith("You're not registered");
+        it("Should settle the depreciation into the depreciation pool", async function () {
+            const {superHelper, helperToken, user1} = await loadFixture(deployAndPrepareDepreciationFixture);
+            const depreciation = await superHelper.pendingDepreciation(user1.address);
+
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), depreciation);
+            const tx = superHelper.connect(user1).settleDepreciation();
+
+            await expect(tx)
+                .to.emit(superHelper, "DepreciationCharged")
+                .withArgs(user1.address, depreciation, 1);
+            await expect(tx).to.changeTokenBalances(helperToken, [user1, superHelper], [-depreciation, depreciation]);
+
+            expect(await superHelper.depreciationPool()).to.equal(depreciation);
+            expect(await superHelper.pendingDepreciation(user1.address)).to.equal(0);
         });
 
-        it("Should revert if job is not in TAKEN status", async function () {
-            const {superHelper, helperToken, user1: creator} = await loadFixture(deployContractsFixture);
-            const reward = 50n * await helperToken.ONE_TOKEN();
+        it("Should keep counting the inactivity left after the last full period", async function () {
+            const {superHelper, helperToken, user1} = await loadFixture(deployContractsFixture);
+            const inactivityPeriod = await superHelper.inactivityPeriod();
 
-            await superHelper.connect(creator).distributeToNewUser();
-            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(user1).distributeToNewUser();
+            const {lastActivity} = await superHelper.users(user1.address);
+            await time.increaseTo(lastActivity + inactivityPeriod + 10n * 24n * 60n * 60n);
 
-            await superHelper.connect(creator).createJob("Testing", reward);
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), hre.ethers.MaxUint256);
+            await superHelper.connect(user1).settleDepreciation();
 
-            await expect(superHelper.connect(creator).completeAndReviewJob(0, 3, false))
-                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
-                .withArgs(0, 1); // current.CREATED vs expected.TAKEN
+            expect((await superHelper.users(user1.address)).lastActivity).to.equal(lastActivity + inactivityPeriod);
         });
 
-        it("Should revert if called by another address than the creator", async function () {
-            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
-            const reward = 50n * await helperToken.ONE_TOKEN();
+        it("Should pay the welcome grants from the depreciation pool first", async function () {
+            const {superHelper, helperToken, user1, other} = await loadFixture(deployAndPrepareDepreciationFixture);
 
-            await superHelper.connect(creator).distributeToNewUser();
-            await superHelper.connect(worker).distributeToNewUser();
-            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), hre.ethers.MaxUint256);
+            await superHelper.connect(user1).settleDepreciation();
+            const pool = await superHelper.depreciationPool();
 
-            await superHelper.connect(creator).createJob("Testing", reward);
-            await superHelper.connect(worker).takeJob(0);
+            const tx = superHelper.connect(other).distributeToNewUser();
+            await expect(tx)
+                .to.emit(superHelper, "DepreciationPoolGranted")
+                .withArgs(other.address, pool);
+            await expect(tx).to.changeTokenBalance(helperToken, other, await superHelper.welcomeGrant());
+            expect(pool).to.be.lessThan(await superHelper.welcomeGrant());
+            expect(await superHelper.depreciationPool()).to.equal(0);
+        });
 
-            await expect(superHelper.connect(worker).completeAndReviewJob(0, 3, false))
-                .to.be.revertedWith("Only the creator can mark the job as complete and review it")
+        it("Should not report a pool share when the depreciation pool is empty", async function () {
+            const {superHelper, other} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(other).distributeToNewUser())
+                .to.not.emit(superHelper, "DepreciationPoolGranted");
         });
 
-        it("Should revert if called by another address than the creator", async function () {
-            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
-            const reward = 50n * await helperToken.ONE_TOKEN();
+        it("Should revert until the depreciation is approved", async function () {
+            const {superHelper, helperToken, user1} = await loadFixture(deployAndPrepareDepreciationFixture);
+            const depreciation = await superHelper.pendingDepreciation(user1.address);
 
-            await superHelper.connect(creator).distributeToNewUser();
-            await superHelper.connect(worker).distributeToNewUser();
-            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await expect(superHelper.connect(user1).settleDepreciation())
+                .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                .withArgs(depreciation);
+        });
 
-            await superHelper.connect(creator).createJob("Testing", reward);
-            await superHelper.connect(worker).takeJob(0);
+        it("Should revert if called by an unregistered user", async function () {
+            const {superHelper, other} = await loadFixture(deployContractsFixture);
 
-            await expect(superHelper.connect(creator).completeAndReviewJob(0, 6, false))
-                .to.be.revertedWith("The rate has to be between 0 and 5");
+            await expect(superHelper.connect(other).settleDepreciation())
+                .to.be.revertedWith("You're not registered");
         });
     });
 
-    describe("Cancel Job: cancelJob", function () {
-
-        async function prepareJobWithoutTaking(superHelper: any, helperToken: any, creator: any, reward: bigint) {
-            await superHelper.connect(creator).distributeToNewUser();
-            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
-            await superHelper.connect(creator).createJob("Cancel Job Test", reward);
-        }
+    describe("Abandon Job: abandonJob", function () {
 
         async function prepareAndTakeJob(superHelper: any, helperToken: any, creator: any, worker: any, reward: bigint) {
             await superHelper.connect(creator).distributeToNewUser();
             await superHelper.connect(worker).distributeToNewUser();
 
             await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
-            await superHelper.connect(creator).createJob("Job Test", reward);
+            await superHelper.connect(creator).createJob("Job Test", reward, JOB_DURATION);
             await superHelper.connect(worker).takeJob(0);
         }
 
-        it("Should allow job creator to cancel job if not yet taken", async function () {
-            const {superHelper, helperToken, user1: creator} = await loadFixture(deployContractsFixture);
+        it("Should allow the worker to abandon a taken job", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
             const reward = 100n * await helperToken.ONE_TOKEN();
 
-            await prepareJobWithoutTaking(superHelper, helperToken, creator, reward);
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
 
-            await expect(superHelper.connect(creator).cancelJob(0))
-                .to.emit(superHelper, "JobCanceled")
-                .withArgs(creator.address, 0);
+            await expect(superHelper.connect(worker).abandonJob(0))
+                .to.emit(superHelper, "JobAbandoned")
+                .withArgs(worker.address, 0);
 
             const job = await superHelper.jobs(0);
-            expect(job.status).to.equal(3); // CANCELLED
+            expect(job.status).to.equal(0); // CREATED
+            expect(job.worker).to.equal(hre.ethers.ZeroAddress);
+            expect(job.deadline).to.equal(0);
+            expect(job.reward).to.equal(reward);
 
-            // tokens refunded
-            expect(await helperToken.balanceOf(creator.address)).to.be.equal(100n * await helperToken.ONE_TOKEN());
+            expect((await superHelper.users(worker.address)).nbJobAbandoned).to.equal(1);
         });
 
-        it("Should revert cancellation if job already taken", async function () {
+        it("Should let another user take an abandoned job", async function () {
             const {
                 superHelper,
                 helperToken,
                 user1: creator,
-                user2: worker
+                user2: worker,
+                other
             } = await loadFixture(deployContractsFixture);
             const reward = 100n * await helperToken.ONE_TOKEN();
 
             await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            await superHelper.connect(worker).abandonJob(0);
+            await superHelper.connect(other).distributeToNewUser();
+
+            await superHelper.connect(other).takeJob(0);
+
+            expect((await superHelper.jobs(0)).worker).to.equal(other.address);
+        });
+
+        it("Should let the creator cancel an abandoned job", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            await superHelper.connect(worker).abandonJob(0);
 
             await expect(superHelper.connect(creator).cancelJob(0))
+                .to.emit(superHelper, "JobCanceled")
+                .withArgs(creator.address, 0);
+            expect(await helperToken.balanceOf(creator.address)).to.equal(reward);
+        });
+
+        it("Should revert if called by another address than the worker", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+
+            await expect(superHelper.connect(creator).abandonJob(0))
+                .to.be.revertedWith("Only the worker can abandon the job");
+        });
+
+        it("Should revert if user is not registered", async function () {
+            const {superHelper, other} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(other).abandonJob(0))
+                .to.be.revertedWith("You're not registered");
+        });
+
+        it("Should revert if the job is already submitted", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+
+            await expect(superHelper.connect(worker).abandonJob(0))
                 .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
-                .withArgs(1, 0); // current.TAKEN vs expected.CREATED
+                .withArgs(5, 1); // current.SUBMITTED vs expected.TAKEN
         });
 
-        it("Should revert cancellation if user is not creator of the job", async function () {
-            const {superHelper, helperToken, user1: creator, other} = await loadFixture(deployContractsFixture);
-            const reward = 70n * await helperToken.ONE_TOKEN();
+        it("Should delay the badge upgrade of a worker who abandoned a job", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const jobReward = 1n * await helperToken.ONE_TOKEN();
+            const penalty = await superHelper.ABANDONMENT_PENALTY();
 
-            await prepareJobWithoutTaking(superHelper, helperToken, creator, reward);
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, jobReward);
+            await superHelper.connect(worker).abandonJob(0);
+            await superHelper.connect(creator).cancelJob(0);
 
-            await superHelper.connect(other).distributeToNewUser();
+            const bronzeLevelJobToComplete = 10n + penalty;
+            for (let i = 1n; i <= bronzeLevelJobToComplete; i++) {
+                await helperToken.connect(creator).approve(await superHelper.getAddress(), jobReward);
+                await superHelper.connect(creator).createJob("Quick job", jobReward, JOB_DURATION);
+                await superHelper.connect(worker).takeJob(i);
+                await superHelper.connect(worker).submitJob(i, "ipfs://deliverable");
+                await superHelper.connect(creator).completeAndReviewJob(i, 4, false, 0);
 
-            await expect(superHelper.connect(other).cancelJob(0))
-                .to.be.revertedWith("Only the creator can cancel the job");
+                const workerState = await superHelper.users(worker.address);
+                expect(workerState.badgeLevel).to.equal(i < bronzeLevelJobToComplete ? 0 : 1); // NONE then BRONZE
+            }
         });
 
     });
 
-    describe("Job Dispute Handling: handleDisputedJob", function () {
+    describe("Applications: setJobRequirements, applyForJob and acceptApplicant", function () {
 
-        it("Should resolve dispute positively, rewarding worker", async function () {
-            const { superHelper, helperToken, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(createAndDisputeJobFixture);
+        const MESSAGE_HASH = hre.ethers.id("I have built many fences");
 
-            const workerBalanceBefore = await helperToken.balanceOf(worker.address);
+        async function createJobForApplicationsFixture() {
+            const { superHelper, helperToken, owner, user1, user2, other } = await loadFixture(deployContractsFixture);
+            const reward = 50n * await helperToken.ONE_TOKEN();
 
-            await expect(superHelper.connect(owner).handleDisputedJob(0, true))
-                .to.emit(superHelper, "JobCompletedAndPaid")
-                .withArgs(
-                    creator.address,
-                    worker.address,
-                    0,
-                    rewardAmount,
-                    2
-                );
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+            await superHelper.connect(other).distributeToNewUser();
 
-            const jobAfter = await superHelper.jobs(0);
-            expect(jobAfter.status).to.equal(2); // COMPLETED
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(user1).createJob("Build a fence", reward, JOB_DURATION);
 
-            const workerBalanceAfter = await helperToken.balanceOf(worker.address);
-            expect(workerBalanceAfter).to.equal(workerBalanceBefore + rewardAmount);
+            return { superHelper, helperToken, owner, user1, user2, other, reward };
+        }
 
-            const userWorker = await superHelper.users(worker.address);
-            expect(userWorker.nbJobCompleted).to.equal(1);
-        });
+        // Completes a job for the worker so that it receives a rating.
+        async function completeRatedJob(superHelper: any, helperToken: any, creator: any, worker: any, rating: number) {
+            const jobId = await superHelper.jobCount();
 
-        it("Should resolve dispute negatively, refunding creator", async function () {
-            const { superHelper, helperToken, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(createAndDisputeJobFixture);
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 1n);
+            await superHelper.connect(creator).createJob("Rated job", 1n, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(jobId);
+            await superHelper.connect(worker).submitJob(jobId, "ipfs://deliverable");
+            await superHelper.connect(creator).completeAndReviewJob(jobId, rating, false, 0);
+        }
 
-            const creatorBalanceBefore = await helperToken.balanceOf(creator.address);
+        describe("setJobRequirements", function () {
 
-            await expect(superHelper.connect(owner).handleDisputedJob(0, false))
-                .to.emit(superHelper, "JobCompletedButNotPaid")
-                .withArgs(
-                    creator.address,
-                    worker.address,
-                    0,
-                    rewardAmount,
-                    2
-                );
+            it("Should store the requirements of a job", async function () {
+                const { superHelper, user1: creator } = await loadFixture(createJobForApplicationsFixture);
 
-            const jobAfter = await superHelper.jobs(0);
-            expect(jobAfter.status).to.equal(2); // COMPLETED
+                await expect(superHelper.connect(creator).setJobRequirements(0, 2, 350, true))
+                    .to.emit(superHelper, "JobRequirementsUpdated")
+                    .withArgs(0, 2, 350, true);
 
-            const creatorBalanceAfter = await helperToken.balanceOf(creator.address);
-            expect(creatorBalanceAfter).to.equal(creatorBalanceBefore + rewardAmount);
+                const requirements = await superHelper.jobRequirements(0);
+                expect(requirements.minBadge).to.equal(2); // SILVER
+                expect(requirements.minAverageRating).to.equal(350);
+                expect(requirements.applicationsOnly).to.be.true;
+            });
 
-            const userWorker = await superHelper.users(worker.address);
-            expect(userWorker.nbJobCompleted).to.equal(0);
-        });
+            it("Should revert if called by another address than the creator", async function () {
+                const { superHelper, user2 } = await loadFixture(createJobForApplicationsFixture);
 
-        it("Should revert if called by non-owner", async function () {
-            const { superHelper, user1 } = await loadFixture(createAndDisputeJobFixture);
+                await expect(superHelper.connect(user2).setJobRequirements(0, 0, 0, true))
+                    .to.be.revertedWith("Only the creator can set the job requirements");
+            });
 
-            await expect(superHelper.connect(user1).handleDisputedJob(0, true))
-                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
-                .withArgs(user1.address);
-        });
+            it("Should revert if the job is already taken", async function () {
+                const { superHelper, user1: creator, user2: worker } = await loadFixture(createJobForApplicationsFixture);
 
-        it("Should fail if job is not disputed", async function () {
-            const { superHelper, helperToken, owner, user1 } = await loadFixture(deployContractsFixture);
-            const ONE_TOKEN = await helperToken.ONE_TOKEN();
-            const rewardAmount = 50n * ONE_TOKEN;
+                await superHelper.connect(worker).takeJob(0);
 
-            await superHelper.connect(user1).distributeToNewUser();
-            await helperToken.connect(user1).approve(await superHelper.getAddress(), rewardAmount);
-            await superHelper.connect(user1).createJob("Test Job Not Disputed", rewardAmount);
+                await expect(superHelper.connect(creator).setJobRequirements(0, 0, 0, true))
+                    .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                    .withArgs(1, 0); // current.TAKEN vs expected.CREATED
+            });
 
-            await expect(superHelper.connect(owner).handleDisputedJob(0, true))
-                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
-                .withArgs(0, 4); // current.CREATED vs expected.Disputed
+            it("Should revert if the minimum rating exceeds 5 stars", async function () {
+                const { superHelper, user1: creator } = await loadFixture(createJobForApplicationsFixture);
+
+                await expect(superHelper.connect(creator).setJobRequirements(0, 0, 501, false))
+                    .to.be.revertedWith("The minimum rating can't exceed 5 stars");
+            });
+        });
+
+        describe("applyForJob", function () {
+
+            it("Should record an application", async function () {
+                const { superHelper, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await expect(superHelper.connect(worker).applyForJob(0, MESSAGE_HASH, 4_000))
+                    .to.emit(superHelper, "JobApplied")
+                    .withArgs(worker.address, 0, MESSAGE_HASH, 4_000);
+
+                const application = await superHelper.applications(0, worker.address);
+                expect(application.messageHash).to.equal(MESSAGE_HASH);
+                expect(application.proposedPrice).to.equal(4_000);
+                expect(application.hasApplied).to.be.true;
+                expect(await superHelper.getApplicants(0)).to.deep.equal([worker.address]);
+            });
+
+            it("Should revert if the creator applies for its own job", async function () {
+                const { superHelper, user1: creator } = await loadFixture(createJobForApplicationsFixture);
+
+                await expect(superHelper.connect(creator).applyForJob(0, hre.ethers.ZeroHash, 0))
+                    .to.be.revertedWith("Worker can't be the creator");
+            });
+
+            it("Should revert if the worker already applied", async function () {
+                const { superHelper, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0);
+
+                await expect(superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0))
+                    .to.be.revertedWith("Already applied");
+            });
+
+            it("Should revert if the job is not CREATED", async function () {
+                const { superHelper, user2: worker, other } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(worker).takeJob(0);
+
+                await expect(superHelper.connect(other).applyForJob(0, hre.ethers.ZeroHash, 0))
+                    .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                    .withArgs(1, 0); // current.TAKEN vs expected.CREATED
+            });
+
+            it("Should revert if the worker's badge is too low", async function () {
+                const { superHelper, user1: creator, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(creator).setJobRequirements(0, 1, 0, false);
+
+                await expect(superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0))
+                    .to.be.revertedWithCustomError(superHelper, "BadgeTooLow")
+                    .withArgs(0, 1); // current.NONE vs required.BRONZE
+            });
+
+            it("Should revert if the worker's average rating is too low", async function () {
+                const { superHelper, helperToken, user1: creator, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(creator).setJobRequirements(0, 0, 400, false);
+
+                await expect(superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0))
+                    .to.be.revertedWithCustomError(superHelper, "RatingTooLow")
+                    .withArgs(0, 400); // never rated
+
+                await completeRatedJob(superHelper, helperToken, creator, worker, 5);
+                await completeRatedJob(superHelper, helperToken, creator, worker, 2);
+                expect(await superHelper.averageWorkerRating(worker.address)).to.equal(350);
+
+                await expect(superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0))
+                    .to.be.revertedWithCustomError(superHelper, "RatingTooLow")
+                    .withArgs(350, 400);
+
+                await completeRatedJob(superHelper, helperToken, creator, worker, 5);
+                await expect(superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0))
+                    .to.emit(superHelper, "JobApplied");
+            });
+
+            it("Should revert if a price is proposed for a milestone job", async function () {
+                const { superHelper, helperToken, user1: creator, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await helperToken.connect(creator).approve(await superHelper.getAddress(), 100);
+                await superHelper.connect(creator).createJobWithMilestones("Staged job", ["Draft"], [100], JOB_DURATION);
+
+                await expect(superHelper.connect(worker).applyForJob(1, hre.ethers.ZeroHash, 50))
+                    .to.be.revertedWith("Milestone jobs have a fixed price");
+            });
+        });
+
+        describe("acceptApplicant", function () {
+
+            it("Should assign the applicant as worker", async function () {
+                const { superHelper, user1: creator, user2: worker, other, reward } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(creator).setJobRequirements(0, 0, 0, true);
+                await superHelper.connect(worker).applyForJob(0, MESSAGE_HASH, 0);
+                await superHelper.connect(other).applyForJob(0, hre.ethers.ZeroHash, 0);
+
+                const tx = superHelper.connect(creator).acceptApplicant(0, other.address);
+
+                await expect(tx)
+                    .to.emit(superHelper, "ApplicationAccepted")
+                    .withArgs(creator.address, other.address, 0, reward);
+                await expect(tx)
+                    .to.emit(superHelper, "JobTaken")
+                    .withArgs(other.address, 0);
+
+                const job = await superHelper.jobs(0);
+                expect(job.worker).to.equal(other.address);
+                expect(job.status).to.equal(1); // TAKEN
+                expect(job.deadline).to.equal(BigInt(await time.latest()) + BigInt(JOB_DURATION));
+            });
+
+            it("Should refund the creator when the applicant asked for less", async function () {
+                const { superHelper, helperToken, user1: creator, user2: worker, reward } = await loadFixture(createJobForApplicationsFixture);
+                const price = reward - 1_000n;
+
+                await superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, price);
+
+                await expect(superHelper.connect(creator).acceptApplicant(0, worker.address))
+                    .to.changeTokenBalances(helperToken, [creator, superHelper], [1_000n, -1_000n]);
+                expect((await superHelper.jobs(0)).reward).to.equal(price);
+            });
+
+            it("Should escrow the difference when the applicant asked for more", async function () {
+                const { superHelper, helperToken, user1: creator, user2: worker, reward } = await loadFixture(createJobForApplicationsFixture);
+                const price = reward + 1_000n;
+
+                await superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, price);
+
+                await expect(superHelper.connect(creator).acceptApplicant(0, worker.address))
+                    .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                    .withArgs(1_000n);
+
+                await helperToken.connect(creator).approve(await superHelper.getAddress(), 1_000n);
+                await expect(superHelper.connect(creator).acceptApplicant(0, worker.address))
+                    .to.changeTokenBalances(helperToken, [creator, superHelper], [-1_000n, 1_000n]);
+                expect((await superHelper.jobs(0)).reward).to.equal(price);
+            });
+
+            it("Should revert if called by another address than the creator", async function () {
+                const { superHelper, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0);
+
+                await expect(superHelper.connect(worker).acceptApplicant(0, worker.address))
+                    .to.be.revertedWith("Only the creator can accept an applicant");
+            });
+
+            it("Should revert if the user did not apply", async function () {
+                const { superHelper, user1: creator, other } = await loadFixture(createJobForApplicationsFixture);
+
+                await expect(superHelper.connect(creator).acceptApplicant(0, other.address))
+                    .to.be.revertedWith("This user did not apply");
+            });
+
+            it("Should revert if the job is already taken", async function () {
+                const { superHelper, user1: creator, user2: worker, other } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(other).applyForJob(0, hre.ethers.ZeroHash, 0);
+                await superHelper.connect(worker).takeJob(0);
+
+                await expect(superHelper.connect(creator).acceptApplicant(0, other.address))
+                    .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                    .withArgs(1, 0); // current.TAKEN vs expected.CREATED
+            });
+
+            it("Should revert if the applicant no longer meets the requirements", async function () {
+                const { superHelper, user1: creator, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, 0);
+                await superHelper.connect(creator).setJobRequirements(0, 0, 100, true);
+
+                await expect(superHelper.connect(creator).acceptApplicant(0, worker.address))
+                    .to.be.revertedWithCustomError(superHelper, "RatingTooLow")
+                    .withArgs(0, 100);
+            });
+        });
+
+        describe("takeJob with requirements", function () {
+
+            it("Should revert if the job only accepts applications", async function () {
+                const { superHelper, user1: creator, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(creator).setJobRequirements(0, 0, 0, true);
+
+                await expect(superHelper.connect(worker).takeJob(0))
+                    .to.be.revertedWith("This job only accepts applications");
+            });
+
+            it("Should revert if the worker's badge is too low", async function () {
+                const { superHelper, user1: creator, user2: worker } = await loadFixture(createJobForApplicationsFixture);
+
+                await superHelper.connect(creator).setJobRequirements(0, 3, 0, false);
+
+                await expect(superHelper.connect(worker).takeJob(0))
+                    .to.be.revertedWithCustomError(superHelper, "BadgeTooLow")
+                    .withArgs(0, 3); // current.NONE vs required.GOLD
+            });
+        });
+    });
+
+    describe("Submit Job: submitJob", function () {
+
+        async function prepareAndTakeJob(superHelper: any, helperToken: any, creator: any, worker: any, reward: bigint) {
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(creator).createJob("Job Test", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+        }
+
+        it("Should allow the worker to submit a taken job", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+
+            await expect(superHelper.connect(worker).submitJob(0, "ipfs://deliverable"))
+                .to.emit(superHelper, "JobSubmitted")
+                .withArgs(worker.address, 0, "ipfs://deliverable");
+
+            const job = await superHelper.jobs(0);
+            expect(job.status).to.equal(5); // SUBMITTED
+            expect(job.deliverable).to.equal("ipfs://deliverable");
+        });
+
+        it("Should update last activity time after submitting job", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            const lastActivity = (await superHelper.users(worker.address)).lastActivity;
+
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+
+            expect((await superHelper.users(worker.address)).lastActivity).to.be.greaterThan(lastActivity);
+        });
+
+        it("Should revert if called by another address than the worker", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+
+            await expect(superHelper.connect(creator).submitJob(0, "ipfs://deliverable"))
+                .to.be.revertedWith("Only the worker can submit the job");
+        });
+
+        it("Should revert if user is not registered", async function () {
+            const {superHelper, other} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(other).submitJob(0, "ipfs://deliverable"))
+                .to.be.revertedWith("You're not registered");
+        });
+
+        it("Should revert if the deadline has passed", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            const deadline = (await superHelper.jobs(0)).deadline;
+            await time.increaseTo(deadline + 1n);
+
+            await expect(superHelper.connect(worker).submitJob(0, "ipfs://deliverable"))
+                .to.be.revertedWithCustomError(superHelper, "DeadlinePassed")
+                .withArgs(deadline);
+        });
+
+        it("Should revert if job is already submitted", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+
+            await expect(superHelper.connect(worker).submitJob(0, "ipfs://other"))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(5, 1); // current.SUBMITTED vs expected.TAKEN
+        });
+
+    });
+
+    describe("Complete and Review Job: completeAndReviewJob", function () {
+
+        async function prepareAndSubmitJob(superHelper: any, helperToken: any, creator: any, worker: any, reward: bigint) {
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(creator).createJob("Job Test", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+        }
+
+        it("Should allow worker to complete job successfully and get paid", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndSubmitJob(superHelper, helperToken, creator, worker, reward);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 5, false, 0))
+                .to.emit(superHelper, "JobCompletedAndPaid")
+                .withArgs(creator.address, worker.address, 0, reward, 5);
+
+            const job = await superHelper.jobs(0);
+            expect(job.status).to.equal(2); // COMPLETED
+            expect(job.stars).to.equal(5);
+
+            const workerBalance = await helperToken.balanceOf(worker.address);
+            expect(workerBalance).to.be.equal(200n * await helperToken.ONE_TOKEN()); // 100 from registration + 100 reward paid
+
+            const userWorker = await superHelper.users(worker.address);
+            expect(userWorker.nbJobCompleted).to.equal(1);
+        });
+
+        it("Should allow the creator to send a bad rate and marked the job as disputed", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndSubmitJob(superHelper, helperToken, creator, worker, reward);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 1, true, 0))
+                .to.emit(superHelper, "JobDisputed")
+                .withArgs(creator.address, worker.address, 0);
+
+            const job = await superHelper.jobs(0);
+            expect(job.status).to.equal(4); // Disputed
+            expect(job.stars).to.equal(1);
+
+            const workerBalance = await helperToken.balanceOf(worker.address);
+            expect(workerBalance).to.be.equal(100n * await helperToken.ONE_TOKEN()); // 100 from registration
+
+            const creatorBalance = await helperToken.balanceOf(creator.address);
+            expect(creatorBalance).to.be.equal(0n); // 100 from registration - 100 locked in contract
+
+            const userWorker = await superHelper.users(worker.address);
+            expect(userWorker.nbJobCompleted).to.equal(0);
+        });
+
+        it("Should revert if called by a non register address", async function () {
+            const {
+                superHelper,
+                helperToken,
+                user1: creator,
+                user2: worker,
+                other
+            } = await loadFixture(deployContractsFixture);
+            const reward = 80n * await helperToken.ONE_TOKEN();
+
+            await prepareAndSubmitJob(superHelper, helperToken, creator, worker, reward);
+
+            await expect(superHelper.connect(other).completeAndReviewJob(0, 4, false, 0))
+                .to.be.revertedWith("You're not registered");
+        });
+
+        it("Should revert if job is not in SUBMITTED status", async function () {
+            const {superHelper, helperToken, user1: creator} = await loadFixture(deployContractsFixture);
+            const reward = 50n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+
+            await superHelper.connect(creator).createJob("Testing", reward, JOB_DURATION);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 3, false, 0))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(0, 5); // current.CREATED vs expected.SUBMITTED
+        });
+
+        it("Should revert if the worker has not submitted the job yet", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 50n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+
+            await superHelper.connect(creator).createJob("Testing", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 3, false, 0))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(1, 5); // current.TAKEN vs expected.SUBMITTED
+        });
+
+        it("Should revert if called by another address than the creator", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 50n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+
+            await superHelper.connect(creator).createJob("Testing", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+
+            await expect(superHelper.connect(worker).completeAndReviewJob(0, 3, false, 0))
+                .to.be.revertedWith("Only the creator can mark the job as complete and review it")
+        });
+
+        it("Should revert if called by another address than the creator", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const reward = 50n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+
+            await superHelper.connect(creator).createJob("Testing", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 6, false, 0))
+                .to.be.revertedWith("The rate has to be between 0 and 5");
+        });
+    });
+
+    describe("Milestone Jobs: createJobWithMilestones and approveMilestone", function () {
+
+        async function createMilestoneJobFixture() {
+            const { superHelper, helperToken, owner, user1, user2, other } = await loadFixture(deployContractsFixture);
+            const ONE_TOKEN = await helperToken.ONE_TOKEN();
+            const amounts = [10n * ONE_TOKEN, 20n * ONE_TOKEN, 30n * ONE_TOKEN];
+            const total = 60n * ONE_TOKEN;
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), total);
+            await superHelper.connect(user1).createJobWithMilestones("Build a house", ["Foundations", "Walls", "Roof"], amounts, JOB_DURATION);
+
+            return { superHelper, helperToken, owner, user1, user2, other, amounts, total };
+        }
+
+        async function takeMilestoneJobFixture() {
+            const fixture = await loadFixture(createMilestoneJobFixture);
+            await fixture.superHelper.connect(fixture.user2).takeJob(0);
+
+            return fixture;
+        }
+
+        it("Should escrow the total of the milestones", async function () {
+            const { superHelper, helperToken, user1: creator, amounts, total } = await loadFixture(createMilestoneJobFixture);
+
+            const job = await superHelper.jobs(0);
+            expect(job.reward).to.equal(total);
+            expect(job.released).to.equal(0);
+            expect(await helperToken.balanceOf(creator.address)).to.equal(100n * await helperToken.ONE_TOKEN() - total);
+
+            const milestones = await superHelper.getMilestones(0);
+            expect(milestones.map((milestone) => milestone.description)).to.deep.equal(["Foundations", "Walls", "Roof"]);
+            expect(milestones.map((milestone) => milestone.amount)).to.deep.equal(amounts);
+            expect(milestones.every((milestone) => !milestone.released)).to.be.true;
+        });
+
+        it("Should emit JobAdded with the total reward", async function () {
+            const { superHelper, helperToken, user1: creator } = await loadFixture(deployContractsFixture);
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 300);
+
+            await expect(superHelper.connect(creator).createJobWithMilestones("Two steps", ["First", "Second"], [100, 200], JOB_DURATION))
+                .to.emit(superHelper, "JobAdded")
+                .withArgs(creator.address, "Two steps", 300, 0);
+        });
+
+        it("Should revert without milestones or with invalid milestones", async function () {
+            const { superHelper, helperToken, user1: creator } = await loadFixture(deployContractsFixture);
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 300);
+
+            await expect(superHelper.connect(creator).createJobWithMilestones("No milestone", [], [], JOB_DURATION))
+                .to.be.revertedWith("At least one milestone is required");
+            await expect(superHelper.connect(creator).createJobWithMilestones("Mismatch", ["First"], [100, 200], JOB_DURATION))
+                .to.be.revertedWith("Milestones length mismatch");
+            await expect(superHelper.connect(creator).createJobWithMilestones("Empty", ["First", "Second"], [100, 0], JOB_DURATION))
+                .to.be.revertedWith("Milestone amount must be greater than 0");
+        });
+
+        it("Should release an approved milestone to the worker", async function () {
+            const { superHelper, helperToken, user1: creator, user2: worker, amounts } = await loadFixture(takeMilestoneJobFixture);
+
+            const tx = superHelper.connect(creator).approveMilestone(0, 1);
+
+            await expect(tx)
+                .to.emit(superHelper, "MilestoneReleased")
+                .withArgs(creator.address, worker.address, 0, 1, amounts[1]);
+            await expect(tx).to.changeTokenBalances(helperToken, [worker, superHelper], [amounts[1], -amounts[1]]);
+
+            expect((await superHelper.jobs(0)).released).to.equal(amounts[1]);
+            expect((await superHelper.getMilestones(0))[1].released).to.be.true;
+        });
+
+        it("Should only pay the unreleased milestones when completing the job", async function () {
+            const { superHelper, helperToken, user1: creator, user2: worker, amounts, total } = await loadFixture(takeMilestoneJobFixture);
+
+            await superHelper.connect(creator).approveMilestone(0, 0);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+            await superHelper.connect(creator).approveMilestone(0, 1);
+
+            const remaining = total - amounts[0] - amounts[1];
+            const tx = superHelper.connect(creator).completeAndReviewJob(0, 5, false, 0);
+
+            await expect(tx)
+                .to.emit(superHelper, "JobCompletedAndPaid")
+                .withArgs(creator.address, worker.address, 0, remaining, 5);
+            await expect(tx).to.changeTokenBalances(helperToken, [worker, superHelper], [remaining, -remaining]);
+        });
+
+        it("Should only refund the unreleased milestones when cancelling an abandoned job", async function () {
+            const { superHelper, helperToken, user1: creator, user2: worker, amounts, total } = await loadFixture(takeMilestoneJobFixture);
+
+            await superHelper.connect(creator).approveMilestone(0, 0);
+            await superHelper.connect(worker).abandonJob(0);
+
+            await expect(superHelper.connect(creator).cancelJob(0))
+                .to.changeTokenBalances(helperToken, [creator, superHelper], [total - amounts[0], amounts[0] - total]);
+        });
+
+        it("Should only refund the unreleased milestones when reclaiming an expired job", async function () {
+            const { superHelper, helperToken, user1: creator, amounts, total } = await loadFixture(takeMilestoneJobFixture);
+
+            await superHelper.connect(creator).approveMilestone(0, 2);
+            await time.increaseTo((await superHelper.jobs(0)).deadline + 1n);
+
+            await expect(superHelper.connect(creator).reclaimExpiredJob(0))
+                .to.changeTokenBalance(helperToken, creator, total - amounts[2]);
+        });
+
+        it("Should only split the unreleased milestones when settling a dispute", async function () {
+            const { superHelper, helperToken, owner, user1: creator, user2: worker, amounts, total } = await loadFixture(takeMilestoneJobFixture);
+
+            await superHelper.connect(creator).approveMilestone(0, 0);
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+            await superHelper.connect(creator).completeAndReviewJob(0, 1, true, 0);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+
+            const remaining = total - amounts[0];
+            await expect(superHelper.connect(owner).settleDisputedJob(0, 5_000))
+                .to.changeTokenBalances(helperToken, [worker, creator], [remaining / 2n, remaining / 2n]);
+        });
+
+        it("Should revert if called by another address than the creator", async function () {
+            const { superHelper, user2: worker } = await loadFixture(takeMilestoneJobFixture);
+
+            await expect(superHelper.connect(worker).approveMilestone(0, 0))
+                .to.be.revertedWith("Only the creator can approve a milestone");
+        });
+
+        it("Should revert if the job is not taken", async function () {
+            const { superHelper, user1: creator } = await loadFixture(createMilestoneJobFixture);
+
+            await expect(superHelper.connect(creator).approveMilestone(0, 0))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(0, 1); // current.CREATED vs expected.TAKEN
+        });
+
+        it("Should revert if the milestone does not exist or is already released", async function () {
+            const { superHelper, user1: creator } = await loadFixture(takeMilestoneJobFixture);
+
+            await expect(superHelper.connect(creator).approveMilestone(0, 3))
+                .to.be.revertedWith("Milestone does not exist");
+
+            await superHelper.connect(creator).approveMilestone(0, 0);
+            await expect(superHelper.connect(creator).approveMilestone(0, 0))
+                .to.be.revertedWith("Milestone already released");
+        });
+    });
+
+    describe("Job metadata: createJobWithMetadata", function () {
+
+        const CONTENT_URI = "ipfs://bafy-description";
+        const CONTENT_HASH = hre.ethers.id("{\"title\":\"Logo\"}");
+        const TAGS = ["design", "logo"].map(hre.ethers.encodeBytes32String);
+
+        async function registeredCreatorFixture() {
+            const {superHelper, helperToken, user1: creator, other} = await loadFixture(deployContractsFixture);
+            const reward = 10n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 2n * reward);
+
+            return {superHelper, helperToken, creator, other, reward};
+        }
+
+        it("Should store the URI as description with the category, content hash and tags", async function () {
+            const {superHelper, helperToken, creator, reward} = await loadFixture(registeredCreatorFixture);
+            const metadata = {category: 3, contentHash: CONTENT_HASH, tags: TAGS};
+
+            const tx = superHelper.connect(creator).createJobWithMetadata(CONTENT_URI, metadata, reward, JOB_DURATION);
+
+            await expect(tx).to.emit(superHelper, "JobAdded").withArgs(creator.address, CONTENT_URI, reward, 0);
+            await expect(tx).to.emit(superHelper, "JobMetadataSet").withArgs(0, 3, CONTENT_HASH, TAGS);
+            await expect(tx).to.changeTokenBalances(helperToken, [creator, superHelper], [-reward, reward]);
+
+            expect((await superHelper.jobs(0)).description).to.equal(CONTENT_URI);
+            const stored = await superHelper.getJobMetadata(0);
+            expect(stored.category).to.equal(3);
+            expect(stored.contentHash).to.equal(CONTENT_HASH);
+            expect(stored.tags).to.deep.equal(TAGS);
+        });
+
+        it("Should leave the metadata of a plain description empty", async function () {
+            const {superHelper, creator, reward} = await loadFixture(registeredCreatorFixture);
+
+            await superHelper.connect(creator).createJob("Plain description", reward, JOB_DURATION);
+
+            const stored = await superHelper.getJobMetadata(0);
+            expect((await superHelper.jobs(0)).description).to.equal("Plain description");
+            expect(stored.category).to.equal(0);
+            expect(stored.contentHash).to.equal(hre.ethers.ZeroHash);
+            expect(stored.tags).to.be.empty;
+        });
+
+        it("Should accept a job without tags", async function () {
+            const {superHelper, creator, reward} = await loadFixture(registeredCreatorFixture);
+
+            await superHelper.connect(creator).createJobWithMetadata(CONTENT_URI, {category: 0, contentHash: CONTENT_HASH, tags: []}, reward, JOB_DURATION);
+
+            expect((await superHelper.getJobMetadata(0)).contentHash).to.equal(CONTENT_HASH);
+        });
+
+        it("Should revert without content hash", async function () {
+            const {superHelper, creator, reward} = await loadFixture(registeredCreatorFixture);
+            const metadata = {category: 1, contentHash: hre.ethers.ZeroHash, tags: TAGS};
+
+            await expect(superHelper.connect(creator).createJobWithMetadata(CONTENT_URI, metadata, reward, JOB_DURATION))
+                .to.be.revertedWith("The content hash is required");
+        });
+
+        it("Should revert with more than MAX_TAGS tags", async function () {
+            const {superHelper, creator, reward} = await loadFixture(registeredCreatorFixture);
+            const maxTags = Number(await superHelper.MAX_TAGS());
+            const tags = Array.from({length: maxTags + 1}, (_, i) => hre.ethers.encodeBytes32String(`tag-${i}`));
+
+            await expect(superHelper.connect(creator).createJobWithMetadata(CONTENT_URI, {category: 1, contentHash: CONTENT_HASH, tags}, reward, JOB_DURATION))
+                .to.be.revertedWith("Too many tags");
+        });
+
+        it("Should revert if called by an unregistered user", async function () {
+            const {superHelper, other, reward} = await loadFixture(registeredCreatorFixture);
+            const metadata = {category: 1, contentHash: CONTENT_HASH, tags: TAGS};
+
+            await expect(superHelper.connect(other).createJobWithMetadata(CONTENT_URI, metadata, reward, JOB_DURATION))
+                .to.be.revertedWith("You're not registered");
+        });
+    });
+
+    describe("Ratings: rateCreator and average ratings", function () {
+
+        async function completeJobFixture() {
+            const { superHelper, helperToken, owner, user1, user2, other } = await loadFixture(deployContractsFixture);
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), 20n);
+            await superHelper.connect(user1).createJob("First job", 10n, JOB_DURATION);
+            await superHelper.connect(user1).createJob("Second job", 10n, JOB_DURATION);
+            for (const jobId of [0, 1]) {
+                await superHelper.connect(user2).takeJob(jobId);
+                await superHelper.connect(user2).submitJob(jobId, "ipfs://deliverable");
+            }
+            await superHelper.connect(user1).completeAndReviewJob(0, 5, false, 0);
+
+            return { superHelper, helperToken, owner, user1, user2, other };
+        }
+
+        it("Should let the worker rate the creator once the job is completed", async function () {
+            const { superHelper, user1: creator, user2: worker } = await loadFixture(completeJobFixture);
+
+            await expect(superHelper.connect(worker).rateCreator(0, 4))
+                .to.emit(superHelper, "CreatorRated")
+                .withArgs(worker.address, creator.address, 0, 4);
+
+            expect(await superHelper.creatorStars(0)).to.equal(4);
+            const rating = await superHelper.creatorRatings(creator.address);
+            expect(rating.totalStars).to.equal(4);
+            expect(rating.count).to.equal(1);
+        });
+
+        it("Should aggregate the ratings of each role", async function () {
+            const { superHelper, user1: creator, user2: worker } = await loadFixture(completeJobFixture);
+
+            await superHelper.connect(creator).completeAndReviewJob(1, 2, false, 0);
+            await superHelper.connect(worker).rateCreator(0, 5);
+            await superHelper.connect(worker).rateCreator(1, 2);
+
+            expect(await superHelper.averageWorkerRating(worker.address)).to.equal(350);
+            expect(await superHelper.averageCreatorRating(creator.address)).to.equal(350);
+            expect(await superHelper.averageWorkerRating(creator.address)).to.equal(0);
+            expect(await superHelper.averageCreatorRating(worker.address)).to.equal(0);
+        });
+
+        it("Should keep the rating of a disputed job out of the worker rating", async function () {
+            const { superHelper, user1: creator, user2: worker } = await loadFixture(completeJobFixture);
+
+            await superHelper.connect(creator).completeAndReviewJob(1, 0, true, 0);
+
+            expect((await superHelper.jobs(1)).stars).to.equal(0);
+            const rating = await superHelper.workerRatings(worker.address);
+            expect(rating.totalStars).to.equal(5);
+            expect(rating.count).to.equal(1);
+            expect(await superHelper.averageWorkerRating(worker.address)).to.equal(500);
+        });
+
+        it("Should let the worker rate the creator of a settled dispute", async function () {
+            const { superHelper, owner, user1: creator, user2: worker } = await loadFixture(completeJobFixture);
+
+            await superHelper.connect(creator).completeAndReviewJob(1, 0, true, 0);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+            await superHelper.connect(owner).settleDisputedJob(1, 0);
+
+            await expect(superHelper.connect(worker).rateCreator(1, 1))
+                .to.emit(superHelper, "CreatorRated")
+                .withArgs(worker.address, creator.address, 1, 1);
+        });
+
+        it("Should revert if called by another address than the worker", async function () {
+            const { superHelper, user1: creator } = await loadFixture(completeJobFixture);
+
+            await expect(superHelper.connect(creator).rateCreator(0, 4))
+                .to.be.revertedWith("Only the worker can rate the creator");
+        });
+
+        it("Should revert if the job is not over", async function () {
+            const { superHelper, user2: worker } = await loadFixture(completeJobFixture);
+
+            await expect(superHelper.connect(worker).rateCreator(1, 4))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(5, 2); // current.SUBMITTED vs expected.COMPLETED
+        });
+
+        it("Should revert if the rating is not between 1 and 5", async function () {
+            const { superHelper, user2: worker } = await loadFixture(completeJobFixture);
+
+            await expect(superHelper.connect(worker).rateCreator(0, 0))
+                .to.be.revertedWith("The rate has to be between 1 and 5");
+            await expect(superHelper.connect(worker).rateCreator(0, 6))
+                .to.be.revertedWith("The rate has to be between 1 and 5");
+        });
+
+        it("Should revert if the creator is already rated", async function () {
+            const { superHelper, user2: worker } = await loadFixture(completeJobFixture);
+
+            await superHelper.connect(worker).rateCreator(0, 4);
+
+            await expect(superHelper.connect(worker).rateCreator(0, 5))
+                .to.be.revertedWith("The creator is already rated");
+        });
+
+        it("Should reject 0 stars for a completed job but accept it for a dispute", async function () {
+            const { superHelper, user1: creator } = await loadFixture(completeJobFixture);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(1, 0, false, 0))
+                .to.be.revertedWith("A completed job must be rated at least 1 star");
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(1, 0, true, 0))
+                .to.emit(superHelper, "JobDisputed");
+        });
+
+        it("Should not upgrade the badge of a worker with a low average rating", async function () {
+            const { superHelper, helperToken, user1: creator, user2: worker } = await loadFixture(deployContractsFixture);
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+
+            for (let i = 0; i < 11; i++) {
+                await helperToken.connect(creator).approve(await superHelper.getAddress(), 1n);
+                await superHelper.connect(creator).createJob("Quick job", 1n, JOB_DURATION);
+                await superHelper.connect(worker).takeJob(i);
+                await superHelper.connect(worker).submitJob(i, "ipfs://deliverable");
+                await superHelper.connect(creator).completeAndReviewJob(i, i < 10 ? 2 : 5, false, 0);
+            }
+
+            // 10 ratings of 2 stars and 1 of 5 stars: 11 jobs completed but an average below 3 stars
+            const workerState = await superHelper.users(worker.address);
+            expect(workerState.nbJobCompleted).to.equal(11);
+            expect(await superHelper.averageWorkerRating(worker.address)).to.equal(227);
+            expect(workerState.badgeLevel).to.equal(0); // NONE
+        });
+    });
+
+    describe("Platform fee and tips: setPlatformFee and completeAndReviewJob", function () {
+
+        async function submittedJobWithFeeFixture() {
+            const {superHelper, helperToken, owner, user1, user2, other} = await loadFixture(deployContractsFixture);
+            const oneToken = await helperToken.ONE_TOKEN();
+            const reward = 50n * oneToken;
+
+            await superHelper.connect(owner).setPlatformFee(1_000); // 10%
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(user1).createJob("Fix a leak", reward, JOB_DURATION);
+            await superHelper.connect(user2).takeJob(0);
+            await superHelper.connect(user2).submitJob(0, "ipfs://deliverable");
+
+            return {superHelper, helperToken, owner, creator: user1, worker: user2, other, oneToken, reward};
+        }
+
+        it("Should deploy without platform fee", async function () {
+            const {superHelper, user2} = await loadFixture(deployContractsFixture);
+
+            expect(await superHelper.platformFeeBps()).to.equal(0);
+            expect(await superHelper.platformFee(user2.address, 1_000n)).to.equal(0);
+        });
+
+        it("Should let the owner set the platform fee", async function () {
+            const {superHelper, owner} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(owner).setPlatformFee(250))
+                .to.emit(superHelper, "PlatformFeeUpdated")
+                .withArgs(250);
+
+            expect(await superHelper.platformFeeBps()).to.equal(250);
+        });
+
+        it("Should revert if the platform fee is too high or not set by the owner", async function () {
+            const {superHelper, owner, other} = await loadFixture(deployContractsFixture);
+            const maxFee = await superHelper.MAX_PLATFORM_FEE_BPS();
+
+            await expect(superHelper.connect(owner).setPlatformFee(maxFee + 1n))
+                .to.be.revertedWith("Platform fee too high");
+            await expect(superHelper.connect(other).setPlatformFee(100))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+        });
+
+        it("Should deduct the platform fee from the reward and keep it in the treasury", async function () {
+            const {superHelper, helperToken, creator, worker, reward} = await loadFixture(submittedJobWithFeeFixture);
+            const fee = reward / 10n;
+            const treasuryBefore = await superHelper.treasuryBalance();
+
+            const tx = superHelper.connect(creator).completeAndReviewJob(0, 4, false, 0);
+            await expect(tx)
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, reward, fee, 0, reward - fee);
+            await expect(tx)
+                .to.emit(superHelper, "JobCompletedAndPaid")
+                .withArgs(creator.address, worker.address, 0, reward, 4);
+            await expect(tx)
+                .to.changeTokenBalances(helperToken, [worker, superHelper], [reward - fee, fee - reward]);
+
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+            expect(await superHelper.treasuryBalance()).to.equal(treasuryBefore + fee);
+        });
+
+        it("Should waive part of the fee for each badge level of the worker", async function () {
+            const {superHelper, helperToken, owner, creator, worker, oneToken, reward} = await loadFixture(submittedJobWithFeeFixture);
+
+            await superHelper.connect(owner).setBadgeThresholds(1, 2, 3);
+            await superHelper.connect(creator).completeAndReviewJob(0, 4, false, 0);
+            expect((await superHelper.users(worker.address)).badgeLevel).to.equal(1); // BRONZE
+
+            expect(await superHelper.platformFee(worker.address, reward)).to.equal(375n * oneToken / 100n); // 10% - 25%
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(creator).createJob("Fix another leak", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(1);
+            await superHelper.connect(worker).submitJob(1, "ipfs://deliverable");
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(1, 4, false, 0))
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 1, reward, 375n * oneToken / 100n, 0, reward - 375n * oneToken / 100n);
+        });
+
+        it("Should pay a tip with a 5-star review on top of the reward", async function () {
+            const {superHelper, helperToken, creator, worker, oneToken, reward} = await loadFixture(submittedJobWithFeeFixture);
+            const fee = reward / 10n;
+            const tip = 5n * oneToken;
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), tip);
+
+            const tx = superHelper.connect(creator).completeAndReviewJob(0, 5, false, tip);
+            await expect(tx)
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, reward, fee, tip, reward - fee + tip);
+            await expect(tx)
+                .to.changeTokenBalances(helperToken, [creator, worker, superHelper], [-tip, reward - fee + tip, fee - reward]);
+
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+        });
+
+        it("Should revert if the tip comes without a 5-star review", async function () {
+            const {superHelper, helperToken, creator, oneToken} = await loadFixture(submittedJobWithFeeFixture);
+            const tip = 5n * oneToken;
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), tip);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 4, false, tip))
+                .to.be.revertedWith("Only a 5-star review can come with a tip");
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 5, true, tip))
+                .to.be.revertedWith("Only a 5-star review can come with a tip");
+        });
+
+        it("Should revert if the tip is not approved", async function () {
+            const {superHelper, creator, oneToken} = await loadFixture(submittedJobWithFeeFixture);
+            const tip = 5n * oneToken;
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 5, false, tip))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                .withArgs(tip);
+        });
+
+        it("Should deduct the platform fee when a dispute is resolved for the worker", async function () {
+            const {superHelper, helperToken, owner, creator, worker, reward} = await loadFixture(submittedJobWithFeeFixture);
+            const fee = reward / 10n;
+
+            await superHelper.connect(creator).completeAndReviewJob(0, 2, true, 0);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+
+            const tx = superHelper.connect(owner).handleDisputedJob(0, true);
+            await expect(tx)
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, reward, fee, 0, reward - fee);
+            await expect(tx)
+                .to.changeTokenBalances(helperToken, [worker, superHelper], [reward - fee, fee - reward]);
+        });
+
+        it("Should deduct the platform fee from a claimed payment", async function () {
+            const {superHelper, helperToken, worker, reward} = await loadFixture(submittedJobWithFeeFixture);
+            const fee = reward / 10n;
+
+            await time.increase(await superHelper.REVIEW_PERIOD());
+
+            await expect(superHelper.connect(worker).claimPayment(0))
+                .to.changeTokenBalances(helperToken, [worker, superHelper], [reward - fee, fee - reward]);
+        });
+
+        it("Should deduct the platform fee from each released milestone", async function () {
+            const {superHelper, helperToken, owner, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+            const oneToken = await helperToken.ONE_TOKEN();
+            const amounts = [20n * oneToken, 30n * oneToken];
+
+            await superHelper.connect(owner).setPlatformFee(1_000); // 10%
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 50n * oneToken);
+            await superHelper.connect(creator).createJobWithMilestones("Build a shed", ["Floor", "Roof"], amounts, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+            const treasuryBefore = await superHelper.treasuryBalance();
+
+            const tx = superHelper.connect(creator).approveMilestone(0, 0);
+            await expect(tx)
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, amounts[0], 2n * oneToken, 0, 18n * oneToken);
+            await expect(tx)
+                .to.emit(superHelper, "MilestoneReleased")
+                .withArgs(creator.address, worker.address, 0, 0, amounts[0]);
+            await expect(tx)
+                .to.changeTokenBalances(helperToken, [worker, superHelper], [18n * oneToken, -18n * oneToken]);
+
+            // The rest of the reward is charged once, when the job is completed.
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 4, false, 0))
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, amounts[1], 3n * oneToken, 0, 27n * oneToken);
+
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+            expect(await superHelper.treasuryBalance()).to.equal(treasuryBefore + 5n * oneToken);
+        });
+
+        it("Should deduct the platform fee from the worker share of a settled dispute", async function () {
+            const {superHelper, helperToken, owner, creator, worker, reward} = await loadFixture(submittedJobWithFeeFixture);
+            const workerAmount = (reward * 6_000n) / 10_000n;
+            const fee = workerAmount / 10n;
+            const treasuryBefore = await superHelper.treasuryBalance();
+
+            await superHelper.connect(creator).completeAndReviewJob(0, 2, true, 0);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+
+            const tx = superHelper.connect(owner).settleDisputedJob(0, 6_000);
+            await expect(tx)
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, workerAmount, fee, 0, workerAmount - fee);
+            await expect(tx)
+                .to.emit(superHelper, "JobSettled")
+                .withArgs(creator.address, worker.address, 0, workerAmount, reward - workerAmount, 0);
+            await expect(tx).to.changeTokenBalances(
+                helperToken,
+                [worker, creator, superHelper],
+                [workerAmount - fee, reward - workerAmount, fee - reward]
+            );
+
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+            expect(await superHelper.treasuryBalance()).to.equal(treasuryBefore + fee);
+        });
+
+    });
+
+    describe("Payment tokens: setPaymentToken and createJobWithToken", function () {
+
+        const NATIVE_TOKEN = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+        async function deployWithPaymentTokensFixture() {
+            const {superHelper, helperToken, owner, user1, user2, other} = await loadFixture(deployContractsFixture);
+            const MockERC20 = await hre.ethers.getContractFactory("MockERC20", owner);
+            const usdc = await MockERC20.deploy("USD Coin", "USDC");
+            const reward = 50n * 10n ** 6n;
+            const ethReward = hre.ethers.parseEther("1");
+
+            await superHelper.connect(owner).setPaymentToken(await usdc.getAddress(), true);
+            await superHelper.connect(owner).setPaymentToken(NATIVE_TOKEN, true);
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+            await usdc.mint(user1.address, 1_000n * 10n ** 6n);
+            await usdc.connect(user1).approve(await superHelper.getAddress(), reward);
+
+            return {superHelper, helperToken, usdc, owner, creator: user1, worker: user2, other, reward, ethReward};
+        }
+
+        async function submittedTokenJobsFixture() {
+            const fixture = await loadFixture(deployWithPaymentTokensFixture);
+            const {superHelper, usdc, creator, worker, reward, ethReward} = fixture;
+
+            await superHelper.connect(creator).createJobWithToken("Translate a contract", await usdc.getAddress(), reward, JOB_DURATION);
+            await superHelper.connect(creator).createJobWithToken("Proofread it", NATIVE_TOKEN, ethReward, JOB_DURATION, {value: ethReward});
+            for (const jobId of [0, 1]) {
+                await superHelper.connect(worker).takeJob(jobId);
+                await superHelper.connect(worker).submitJob(jobId, "ipfs://deliverable");
+            }
+
+            return fixture;
+        }
+
+        it("Should let the owner allow and disallow payment tokens", async function () {
+            const {superHelper, usdc, owner, other} = await loadFixture(deployWithPaymentTokensFixture);
+            const usdcAddress = await usdc.getAddress();
+
+            expect(await superHelper.paymentTokens(usdcAddress)).to.be.true;
+
+            await expect(superHelper.connect(owner).setPaymentToken(usdcAddress, false))
+                .to.emit(superHelper, "PaymentTokenUpdated")
+                .withArgs(usdcAddress, false);
+            expect(await superHelper.paymentTokens(usdcAddress)).to.be.false;
+
+            await expect(superHelper.connect(other).setPaymentToken(usdcAddress, true))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+        });
+
+        it("Should revert if the payment token is not allowed", async function () {
+            const {superHelper, usdc, owner, creator, reward} = await loadFixture(deployWithPaymentTokensFixture);
+
+            await superHelper.connect(owner).setPaymentToken(await usdc.getAddress(), false);
+
+            await expect(superHelper.connect(creator).createJobWithToken("Translate a contract", await usdc.getAddress(), reward, JOB_DURATION))
+                .to.be.revertedWith("Payment token not allowed");
+        });
+
+        it("Should escrow the reward in the token of the job", async function () {
+            const {superHelper, helperToken, usdc, creator, reward} = await loadFixture(deployWithPaymentTokensFixture);
+            const usdcAddress = await usdc.getAddress();
+
+            const tx = superHelper.connect(creator).createJobWithToken("Translate a contract", usdcAddress, reward, JOB_DURATION);
+            await expect(tx)
+                .to.emit(superHelper, "JobTokenSet")
+                .withArgs(0, usdcAddress);
+            await expect(tx)
+                .to.emit(superHelper, "JobAdded")
+                .withArgs(creator.address, "Translate a contract", reward, 0);
+            await expect(tx)
+                .to.changeTokenBalances(usdc, [creator, superHelper], [-reward, reward]);
+            await expect(tx)
+                .to.changeTokenBalances(helperToken, [creator, superHelper], [0, 0]);
+
+            expect(await superHelper.jobTokens(0)).to.equal(usdcAddress);
+            expect(await superHelper.escrowedTokens(usdcAddress)).to.equal(reward);
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+        });
+
+        it("Should keep HELP as the token of the other jobs", async function () {
+            const {superHelper, helperToken, creator} = await loadFixture(deployWithPaymentTokensFixture);
+            const reward = 10n * await helperToken.ONE_TOKEN();
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await expect(superHelper.connect(creator).createJob("Paid in HELP", reward, JOB_DURATION))
+                .not.to.emit(superHelper, "JobTokenSet");
+
+            expect(await superHelper.jobTokens(0)).to.equal(hre.ethers.ZeroAddress);
+            expect(await superHelper.totalEscrowed()).to.equal(reward);
+        });
+
+        it("Should escrow an ETH reward sent with the call", async function () {
+            const {superHelper, creator, ethReward} = await loadFixture(deployWithPaymentTokensFixture);
+
+            await expect(superHelper.connect(creator).createJobWithToken("Proofread", NATIVE_TOKEN, ethReward, JOB_DURATION, {value: ethReward}))
+                .to.changeEtherBalances([creator, superHelper], [-ethReward, ethReward]);
+
+            expect(await superHelper.escrowedTokens(NATIVE_TOKEN)).to.equal(ethReward);
+        });
+
+        it("Should revert if the ETH sent does not match the amount escrowed", async function () {
+            const {superHelper, usdc, creator, reward, ethReward} = await loadFixture(deployWithPaymentTokensFixture);
+
+            await expect(superHelper.connect(creator).createJobWithToken("Proofread", NATIVE_TOKEN, ethReward, JOB_DURATION, {value: ethReward - 1n}))
+                .to.be.revertedWithCustomError(superHelper, "IncorrectValue")
+                .withArgs(ethReward - 1n, ethReward);
+            await expect(superHelper.connect(creator).createJobWithToken("Translate", await usdc.getAddress(), reward, JOB_DURATION, {value: 1}))
+                .to.be.revertedWithCustomError(superHelper, "IncorrectValue")
+                .withArgs(1, 0);
+        });
+
+        it("Should pay the worker in the token of the job and keep the platform fee", async function () {
+            const {superHelper, usdc, owner, creator, worker, reward, ethReward} = await loadFixture(submittedTokenJobsFixture);
+            const usdcAddress = await usdc.getAddress();
+
+            await superHelper.connect(owner).setPlatformFee(1_000); // 10%
+
+            const tx = superHelper.connect(creator).completeAndReviewJob(0, 4, false, 0);
+            await expect(tx)
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, reward, reward / 10n, 0, reward - reward / 10n);
+            await expect(tx)
+                .to.changeTokenBalances(usdc, [worker, superHelper], [reward - reward / 10n, -(reward - reward / 10n)]);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(1, 4, false, 0))
+                .to.changeEtherBalances([worker, superHelper], [ethReward - ethReward / 10n, -(ethReward - ethReward / 10n)]);
+
+            expect(await superHelper.escrowedTokens(usdcAddress)).to.equal(0);
+            expect(await superHelper.escrowedTokens(NATIVE_TOKEN)).to.equal(0);
+        });
+
+        it("Should let the owner withdraw the fees collected in other tokens", async function () {
+            const {superHelper, usdc, owner, creator, reward} = await loadFixture(submittedTokenJobsFixture);
+            const usdcAddress = await usdc.getAddress();
+            const fee = reward / 10n;
+
+            await superHelper.connect(owner).setPlatformFee(1_000); // 10%
+            await superHelper.connect(creator).completeAndReviewJob(0, 4, false, 0);
+
+            const tx = superHelper.connect(owner).withdrawTokenTreasury(usdcAddress, owner.address, fee);
+            await expect(tx)
+                .to.emit(superHelper, "TokenTreasuryWithdrawn")
+                .withArgs(usdcAddress, owner.address, fee);
+            await expect(tx)
+                .to.changeTokenBalances(usdc, [owner, superHelper], [fee, -fee]);
+        });
+
+        it("Should not withdraw escrowed rewards or HELP from the token treasury", async function () {
+            const {superHelper, helperToken, usdc, owner, other} = await loadFixture(submittedTokenJobsFixture);
+
+            await expect(superHelper.connect(owner).withdrawTokenTreasury(await usdc.getAddress(), owner.address, 1))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientFunds")
+                .withArgs(1);
+            await expect(superHelper.connect(owner).withdrawTokenTreasury(NATIVE_TOKEN, owner.address, 1))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientFunds")
+                .withArgs(1);
+            await expect(superHelper.connect(owner).withdrawTokenTreasury(await helperToken.getAddress(), owner.address, 1))
+                .to.be.revertedWith("Use withdrawTreasury for HELP");
+            await expect(superHelper.connect(other).withdrawTokenTreasury(NATIVE_TOKEN, other.address, 0))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+        });
+
+        it("Should pay a tip in the token of the job", async function () {
+            const {superHelper, creator, worker, ethReward} = await loadFixture(submittedTokenJobsFixture);
+            const tip = ethReward / 20n;
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(1, 5, false, tip))
+                .to.be.revertedWithCustomError(superHelper, "IncorrectValue")
+                .withArgs(0, tip);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(1, 5, false, tip, {value: tip}))
+                .to.changeEtherBalances([creator, worker, superHelper], [-tip, ethReward + tip, -ethReward]);
+        });
+
+        it("Should reject ETH sent with a call that escrows nothing", async function () {
+            const {superHelper, creator} = await loadFixture(submittedTokenJobsFixture);
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(1, 2, true, 0, {value: 1}))
+                .to.be.revertedWithCustomError(superHelper, "IncorrectValue")
+                .withArgs(1, 0);
+        });
+
+        it("Should refund a cancelled job in its token", async function () {
+            const {superHelper, usdc, creator, reward} = await loadFixture(deployWithPaymentTokensFixture);
+
+            await superHelper.connect(creator).createJobWithToken("Translate a contract", await usdc.getAddress(), reward, JOB_DURATION);
+
+            await expect(superHelper.connect(creator).cancelJob(0))
+                .to.changeTokenBalances(usdc, [creator, superHelper], [reward, -reward]);
+            expect(await superHelper.escrowedTokens(await usdc.getAddress())).to.equal(0);
+        });
+
+        it("Should escrow or refund the reward difference of an updated job in its token", async function () {
+            const {superHelper, creator, ethReward} = await loadFixture(deployWithPaymentTokensFixture);
+            const increase = ethReward / 2n;
+
+            await superHelper.connect(creator).createJobWithToken("Proofread", NATIVE_TOKEN, ethReward, JOB_DURATION, {value: ethReward});
+
+            await expect(superHelper.connect(creator).updateJob(0, "Proofread twice", ethReward + increase, {value: increase}))
+                .to.changeEtherBalances([creator, superHelper], [-increase, increase]);
+            await expect(superHelper.connect(creator).updateJob(0, "Proofread once", ethReward, {value: 1}))
+                .to.be.revertedWithCustomError(superHelper, "IncorrectValue")
+                .withArgs(1, 0);
+            await expect(superHelper.connect(creator).updateJob(0, "Proofread once", ethReward))
+                .to.changeEtherBalances([creator, superHelper], [increase, -increase]);
+
+            expect(await superHelper.escrowedTokens(NATIVE_TOKEN)).to.equal(ethReward);
+        });
+
+        it("Should refund the price difference of an accepted applicant in the token of the job", async function () {
+            const {superHelper, usdc, creator, worker, reward} = await loadFixture(deployWithPaymentTokensFixture);
+            const price = reward - 10n * 10n ** 6n;
+
+            await superHelper.connect(creator).createJobWithToken("Translate a contract", await usdc.getAddress(), reward, JOB_DURATION);
+            await superHelper.connect(worker).applyForJob(0, hre.ethers.ZeroHash, price);
+
+            await expect(superHelper.connect(creator).acceptApplicant(0, worker.address))
+                .to.changeTokenBalances(usdc, [creator, superHelper], [reward - price, price - reward]);
+            expect(await superHelper.escrowedTokens(await usdc.getAddress())).to.equal(price);
+        });
+
+        it("Should settle a dispute in the token of the job", async function () {
+            const {superHelper, usdc, owner, creator, worker, reward} = await loadFixture(submittedTokenJobsFixture);
+
+            await superHelper.connect(creator).completeAndReviewJob(0, 2, true, 0);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+
+            await expect(superHelper.connect(owner).settleDisputedJob(0, 4_000))
+                .to.changeTokenBalances(usdc, [worker, creator, superHelper], [reward * 4n / 10n, reward * 6n / 10n, -reward]);
+            expect(await superHelper.escrowedTokens(await usdc.getAddress())).to.equal(0);
+        });
+
+        it("Should refund a disputed ETH job to its creator", async function () {
+            const {superHelper, owner, creator, ethReward} = await loadFixture(submittedTokenJobsFixture);
+
+            await superHelper.connect(creator).completeAndReviewJob(1, 2, true, 0);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+
+            await expect(superHelper.connect(owner).handleDisputedJob(1, false))
+                .to.changeEtherBalances([creator, superHelper], [ethReward, -ethReward]);
+        });
+
+        it("Should not let a worker paid in ETH re-enter the contract", async function () {
+            const {superHelper, owner, creator, ethReward} = await loadFixture(deployWithPaymentTokensFixture);
+            const ReentrantReceiver = await hre.ethers.getContractFactory("ReentrantReceiver", owner);
+            const worker = await ReentrantReceiver.deploy();
+
+            await superHelper.connect(creator).createJobWithToken("Proofread it", NATIVE_TOKEN, ethReward, JOB_DURATION, {value: ethReward});
+            await worker.execute(superHelper, superHelper.interface.encodeFunctionData("distributeToNewUser"));
+            await worker.execute(superHelper, superHelper.interface.encodeFunctionData("takeJob", [0]));
+            await worker.execute(superHelper, superHelper.interface.encodeFunctionData("submitJob", [0, "ipfs://deliverable"]));
+            await worker.setReentry(superHelper, superHelper.interface.encodeFunctionData("claimPayment", [0]));
+
+            await expect(superHelper.connect(creator).completeAndReviewJob(0, 5, false, 0))
+                .to.changeEtherBalances([worker, superHelper], [ethReward, -ethReward]);
+
+            const [reason] = hre.ethers.AbiCoder.defaultAbiCoder().decode(["string"], hre.ethers.dataSlice(await worker.reentryResult(), 4));
+            expect(await worker.reentrySucceeded()).to.be.false;
+            expect(reason).to.equal("Reentrant call");
+        });
+
+    });
+
+    describe("Update Job: updateJob", function () {
+
+        async function createJobToUpdateFixture() {
+            const {superHelper, helperToken, user1, user2, other} = await loadFixture(deployContractsFixture);
+            const oneToken = await helperToken.ONE_TOKEN();
+            const reward = 40n * oneToken;
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(user1).createJob("Paint a wall", reward, JOB_DURATION);
+
+            return {superHelper, helperToken, creator: user1, worker: user2, other, oneToken, reward};
+        }
+
+        it("Should escrow the difference when the reward increases", async function () {
+            const {superHelper, helperToken, creator, oneToken, reward} = await loadFixture(createJobToUpdateFixture);
+            const newReward = 60n * oneToken;
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), newReward - reward);
+
+            const tx = superHelper.connect(creator).updateJob(0, "Paint two walls", newReward);
+            await expect(tx)
+                .to.emit(superHelper, "JobUpdated")
+                .withArgs(creator.address, 0, "Paint two walls", newReward);
+            await expect(tx)
+                .to.changeTokenBalances(helperToken, [creator, superHelper], [reward - newReward, newReward - reward]);
+
+            const job = await superHelper.jobs(0);
+            expect(job.description).to.equal("Paint two walls");
+            expect(job.reward).to.equal(newReward);
+            expect(job.status).to.equal(0); // CREATED
+            expect(await superHelper.totalEscrowed()).to.equal(newReward);
+        });
+
+        it("Should refund the difference when the reward decreases", async function () {
+            const {superHelper, helperToken, creator, oneToken, reward} = await loadFixture(createJobToUpdateFixture);
+            const newReward = 25n * oneToken;
+
+            await expect(superHelper.connect(creator).updateJob(0, "Paint a small wall", newReward))
+                .to.changeTokenBalances(helperToken, [creator, superHelper], [reward - newReward, newReward - reward]);
+
+            expect((await superHelper.jobs(0)).reward).to.equal(newReward);
+            expect(await superHelper.totalEscrowed()).to.equal(newReward);
+        });
+
+        it("Should only update the description when the reward is unchanged", async function () {
+            const {superHelper, helperToken, creator, reward} = await loadFixture(createJobToUpdateFixture);
+
+            await expect(superHelper.connect(creator).updateJob(0, "Paint a wall in blue", reward))
+                .to.changeTokenBalances(helperToken, [creator, superHelper], [0, 0]);
+
+            expect((await superHelper.jobs(0)).description).to.equal("Paint a wall in blue");
+            expect(await superHelper.totalEscrowed()).to.equal(reward);
+        });
+
+        it("Should revert with InsufficientAllowance if the increase is not approved", async function () {
+            const {superHelper, helperToken, creator, oneToken, reward} = await loadFixture(createJobToUpdateFixture);
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 10n * oneToken);
+
+            await expect(superHelper.connect(creator).updateJob(0, "Paint two walls", reward + 20n * oneToken))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                .withArgs(20n * oneToken);
+        });
+
+        it("Should revert with InsufficientFunds if the creator can't pay the increase", async function () {
+            const {superHelper, helperToken, creator, oneToken, reward} = await loadFixture(createJobToUpdateFixture);
+            const extra = 100n * oneToken;
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), extra);
+
+            await expect(superHelper.connect(creator).updateJob(0, "Paint a house", reward + extra))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientFunds")
+                .withArgs(extra);
+        });
+
+        it("Should revert if called by another address than the creator", async function () {
+            const {superHelper, worker, reward} = await loadFixture(createJobToUpdateFixture);
+
+            await expect(superHelper.connect(worker).updateJob(0, "Paint nothing", reward))
+                .to.be.revertedWith("Only the creator can update the job");
+        });
+
+        it("Should revert if the job is already taken", async function () {
+            const {superHelper, creator, worker, reward} = await loadFixture(createJobToUpdateFixture);
+
+            await superHelper.connect(worker).takeJob(0);
+
+            await expect(superHelper.connect(creator).updateJob(0, "Paint a wall", reward / 2n))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(1, 0); // current.TAKEN vs expected.CREATED
+        });
+
+        it("Should revert if the job is cancelled", async function () {
+            const {superHelper, creator, reward} = await loadFixture(createJobToUpdateFixture);
+
+            await superHelper.connect(creator).cancelJob(0);
+
+            await expect(superHelper.connect(creator).updateJob(0, "Paint a wall", reward))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(3, 0); // current.CANCELLED vs expected.CREATED
+        });
+
+        it("Should keep the price of a milestone job", async function () {
+            const {superHelper, helperToken, creator, oneToken} = await loadFixture(createJobToUpdateFixture);
+            const amounts = [10n * oneToken, 20n * oneToken];
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 30n * oneToken);
+            await superHelper.connect(creator).createJobWithMilestones("Paint a house", ["Walls", "Roof"], amounts, JOB_DURATION);
+
+            await expect(superHelper.connect(creator).updateJob(1, "Paint a house", 40n * oneToken))
+                .to.be.revertedWith("Milestone jobs have a fixed price");
+
+            await superHelper.connect(creator).updateJob(1, "Paint a blue house", 30n * oneToken);
+            expect((await superHelper.jobs(1)).description).to.equal("Paint a blue house");
+        });
+    });
+
+    describe("Cancel Job: cancelJob", function () {
+
+        async function prepareJobWithoutTaking(superHelper: any, helperToken: any, creator: any, reward: bigint) {
+            await superHelper.connect(creator).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(creator).createJob("Cancel Job Test", reward, JOB_DURATION);
+        }
+
+        async function prepareAndTakeJob(superHelper: any, helperToken: any, creator: any, worker: any, reward: bigint) {
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(creator).createJob("Job Test", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+        }
+
+        it("Should allow job creator to cancel job if not yet taken", async function () {
+            const {superHelper, helperToken, user1: creator} = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareJobWithoutTaking(superHelper, helperToken, creator, reward);
+
+            await expect(superHelper.connect(creator).cancelJob(0))
+                .to.emit(superHelper, "JobCanceled")
+                .withArgs(creator.address, 0);
+
+            const job = await superHelper.jobs(0);
+            expect(job.status).to.equal(3); // CANCELLED
+
+            // tokens refunded
+            expect(await helperToken.balanceOf(creator.address)).to.be.equal(100n * await helperToken.ONE_TOKEN());
+        });
+
+        it("Should revert cancellation if job already taken", async function () {
+            const {
+                superHelper,
+                helperToken,
+                user1: creator,
+                user2: worker
+            } = await loadFixture(deployContractsFixture);
+            const reward = 100n * await helperToken.ONE_TOKEN();
+
+            await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+
+            await expect(superHelper.connect(creator).cancelJob(0))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(1, 0); // current.TAKEN vs expected.CREATED
+        });
+
+        it("Should revert cancellation if user is not creator of the job", async function () {
+            const {superHelper, helperToken, user1: creator, other} = await loadFixture(deployContractsFixture);
+            const reward = 70n * await helperToken.ONE_TOKEN();
+
+            await prepareJobWithoutTaking(superHelper, helperToken, creator, reward);
+
+            await superHelper.connect(other).distributeToNewUser();
+
+            await expect(superHelper.connect(other).cancelJob(0))
+                .to.be.revertedWith("Only the creator can cancel the job");
+        });
+
+    });
+
+    describe("Job Dispute Handling: handleDisputedJob", function () {
+
+        it("Should resolve dispute positively, rewarding worker", async function () {
+            const { superHelper, helperToken, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(createAndDisputeJobFixture);
+
+            const workerBalanceBefore = await helperToken.balanceOf(worker.address);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+
+            await expect(superHelper.connect(owner).handleDisputedJob(0, true))
+                .to.emit(superHelper, "JobCompletedAndPaid")
+                .withArgs(
+                    creator.address,
+                    worker.address,
+                    0,
+                    rewardAmount,
+                    2
+                );
+
+            const jobAfter = await superHelper.jobs(0);
+            expect(jobAfter.status).to.equal(2); // COMPLETED
+
+            const workerBalanceAfter = await helperToken.balanceOf(worker.address);
+            expect(workerBalanceAfter).to.equal(workerBalanceBefore + rewardAmount);
+
+            const userWorker = await superHelper.users(worker.address);
+            expect(userWorker.nbJobCompleted).to.equal(1);
+        });
+
+        it("Should resolve dispute negatively, refunding creator", async function () {
+            const { superHelper, helperToken, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(createAndDisputeJobFixture);
+
+            const creatorBalanceBefore = await helperToken.balanceOf(creator.address);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+
+            await expect(superHelper.connect(owner).handleDisputedJob(0, false))
+                .to.emit(superHelper, "JobCompletedButNotPaid")
+                .withArgs(
+                    creator.address,
+                    worker.address,
+                    0,
+                    rewardAmount,
+                    2
+                );
+
+            const jobAfter = await superHelper.jobs(0);
+            expect(jobAfter.status).to.equal(6); // REFUNDED
+
+            const creatorBalanceAfter = await helperToken.balanceOf(creator.address);
+            expect(creatorBalanceAfter).to.equal(creatorBalanceBefore + rewardAmount);
+
+            const userWorker = await superHelper.users(worker.address);
+            expect(userWorker.nbJobCompleted).to.equal(0);
+        });
+
+        it("Should revert if called by non-owner", async function () {
+            const { superHelper, user1 } = await loadFixture(createAndDisputeJobFixture);
+
+            await expect(superHelper.connect(user1).handleDisputedJob(0, true))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+        });
+
+        it("Should fail if job is not disputed", async function () {
+            const { superHelper, helperToken, owner, user1 } = await loadFixture(deployContractsFixture);
+            const ONE_TOKEN = await helperToken.ONE_TOKEN();
+            const rewardAmount = 50n * ONE_TOKEN;
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), rewardAmount);
+            await superHelper.connect(user1).createJob("Test Job Not Disputed", rewardAmount, JOB_DURATION);
+
+            await expect(superHelper.connect(owner).handleDisputedJob(0, true))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(0, 4); // current.CREATED vs expected.Disputed
+        });
+
+        it("Should revert before the dispute timeout", async function () {
+            const { superHelper, owner } = await loadFixture(createAndDisputeJobFixture);
+            const timeoutEnd = (await superHelper.jobs(0)).disputedAt + await superHelper.DISPUTE_TIMEOUT();
+
+            await expect(superHelper.connect(owner).handleDisputedJob(0, true))
+                .to.be.revertedWithCustomError(superHelper, "DisputeTimeoutNotReached")
+                .withArgs(timeoutEnd);
+        });
+    });
+
+    describe("Job Dispute Settlement: settleDisputedJob", function () {
+
+        async function disputeTimedOutFixture() {
+            const fixture = await loadFixture(createAndDisputeJobFixture);
+            await time.increase(await fixture.superHelper.DISPUTE_TIMEOUT());
+
+            return fixture;
+        }
+
+        it("Should split the reward and mark the job as settled", async function () {
+            const { superHelper, helperToken, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(disputeTimedOutFixture);
+            const workerAmount = (rewardAmount * 3_000n) / 10_000n;
+            const creatorAmount = rewardAmount - workerAmount;
+
+            const tx = superHelper.connect(owner).settleDisputedJob(0, 3_000);
+
+            await expect(tx)
+                .to.emit(superHelper, "JobSettled")
+                .withArgs(creator.address, worker.address, 0, workerAmount, creatorAmount, 0);
+            await expect(tx).to.changeTokenBalances(helperToken, [worker, creator], [workerAmount, creatorAmount]);
+
+            expect((await superHelper.jobs(0)).status).to.equal(7); // SETTLED
+            expect((await superHelper.users(worker.address)).nbJobCompleted).to.equal(0);
+        });
+
+        it("Should mark the job as completed when the worker gets the whole reward", async function () {
+            const { superHelper, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(disputeTimedOutFixture);
+
+            await expect(superHelper.connect(owner).settleDisputedJob(0, 10_000))
+                .to.emit(superHelper, "JobSettled")
+                .withArgs(creator.address, worker.address, 0, rewardAmount, 0, 0);
+
+            expect((await superHelper.jobs(0)).status).to.equal(2); // COMPLETED
+            expect((await superHelper.users(worker.address)).nbJobCompleted).to.equal(1);
+        });
+
+        it("Should mark the job as refunded when the creator gets the whole reward", async function () {
+            const { superHelper, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(disputeTimedOutFixture);
+
+            await expect(superHelper.connect(owner).settleDisputedJob(0, 0))
+                .to.emit(superHelper, "JobSettled")
+                .withArgs(creator.address, worker.address, 0, 0, rewardAmount, 0);
+
+            expect((await superHelper.jobs(0)).status).to.equal(6); // REFUNDED
+        });
+
+        it("Should revert if called by non-owner", async function () {
+            const { superHelper, user1 } = await loadFixture(disputeTimedOutFixture);
+
+            await expect(superHelper.connect(user1).settleDisputedJob(0, 5_000))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+        });
+
+        it("Should revert before the dispute timeout", async function () {
+            const { superHelper, owner } = await loadFixture(createAndDisputeJobFixture);
+            const timeoutEnd = (await superHelper.jobs(0)).disputedAt + await superHelper.DISPUTE_TIMEOUT();
+
+            await expect(superHelper.connect(owner).settleDisputedJob(0, 5_000))
+                .to.be.revertedWithCustomError(superHelper, "DisputeTimeoutNotReached")
+                .withArgs(timeoutEnd);
+        });
+
+        it("Should revert if the worker share exceeds 100%", async function () {
+            const { superHelper, owner } = await loadFixture(disputeTimedOutFixture);
+
+            await expect(superHelper.connect(owner).settleDisputedJob(0, 10_001))
+                .to.be.revertedWith("Worker share can't exceed 100%");
+        });
+
+        it("Should revert if the job is already settled", async function () {
+            const { superHelper, owner } = await loadFixture(disputeTimedOutFixture);
+
+            await superHelper.connect(owner).settleDisputedJob(0, 5_000);
+
+            await expect(superHelper.connect(owner).settleDisputedJob(0, 5_000))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(7, 4); // current.SETTLED vs expected.DISPUTED
+        });
+    });
+
+    describe("Dispute Module: setDisputeModule and resolveDispute", function () {
+
+        // The owner account plays the dispute module so the split can be checked without a voting round.
+        async function disputeWithModuleFixture() {
+            const fixture = await loadFixture(createAndDisputeJobFixture);
+            await fixture.superHelper.connect(fixture.owner).setDisputeModule(fixture.owner.address);
+
+            return fixture;
+        }
+
+        it("Should let the owner set the dispute module", async function () {
+            const { superHelper, owner, user1 } = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(owner).setDisputeModule(user1.address))
+                .to.emit(superHelper, "DisputeModuleUpdated")
+                .withArgs(user1.address);
+            expect(await superHelper.disputeModule()).to.equal(user1.address);
+
+            await expect(superHelper.connect(user1).setDisputeModule(user1.address))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+        });
+
+        it("Should split the reward between the arbiters, the worker and the creator", async function () {
+            const { superHelper, helperToken, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(disputeWithModuleFixture);
+            const [, , , arbiter1, arbiter2] = await hre.ethers.getSigners();
+
+            const arbitersFee = (rewardAmount * 200n) / 10_000n; // 2%
+            const workerAmount = ((rewardAmount - arbitersFee) * 6_000n) / 10_000n; // 60%
+            const creatorAmount = rewardAmount - arbitersFee - workerAmount;
+
+            const tx = superHelper.connect(owner).resolveDispute(0, 6_000, [arbiter1.address, arbiter2.address], 200);
+
+            await expect(tx)
+                .to.emit(superHelper, "JobSettled")
+                .withArgs(creator.address, worker.address, 0, workerAmount, creatorAmount, arbitersFee);
+            await expect(tx).to.changeTokenBalances(
+                helperToken,
+                [worker, creator, arbiter1, arbiter2],
+                [workerAmount, creatorAmount, arbitersFee / 2n, arbitersFee / 2n]
+            );
+
+            expect((await superHelper.jobs(0)).status).to.equal(7); // SETTLED
+            expect((await superHelper.users(worker.address)).nbJobCompleted).to.equal(1);
+        });
+
+        it("Should deduct the platform fee from the worker share only", async function () {
+            const { superHelper, helperToken, owner, user1: creator, user2: worker, rewardAmount } = await loadFixture(disputeWithModuleFixture);
+            const [, , , arbiter] = await hre.ethers.getSigners();
+
+            await superHelper.connect(owner).setPlatformFee(1_000); // 10%
+            const arbitersFee = (rewardAmount * 200n) / 10_000n; // 2%
+            const workerAmount = ((rewardAmount - arbitersFee) * 6_000n) / 10_000n; // 60%
+            const creatorAmount = rewardAmount - arbitersFee - workerAmount;
+            const fee = workerAmount / 10n;
+
+            const tx = superHelper.connect(owner).resolveDispute(0, 6_000, [arbiter.address], 200);
+
+            await expect(tx)
+                .to.emit(superHelper, "JobPaid")
+                .withArgs(worker.address, 0, workerAmount, fee, 0, workerAmount - fee);
+            await expect(tx).to.changeTokenBalances(
+                helperToken,
+                [worker, creator, arbiter],
+                [workerAmount - fee, creatorAmount, arbitersFee]
+            );
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+        });
+
+        it("Should not count the job for the worker's badge when the worker gets less than half", async function () {
+            const { superHelper, owner, user2: worker } = await loadFixture(disputeWithModuleFixture);
+
+            await superHelper.connect(owner).resolveDispute(0, 4_999, [], 0);
+
+            expect((await superHelper.users(worker.address)).nbJobCompleted).to.equal(0);
+        });
+
+        it("Should revert if called by another address than the dispute module", async function () {
+            const { superHelper, user1 } = await loadFixture(disputeWithModuleFixture);
+
+            await expect(superHelper.connect(user1).resolveDispute(0, 5_000, [], 0))
+                .to.be.revertedWith("Only the dispute module can resolve disputes");
+        });
+
+        it("Should revert if the worker share or the arbiters fee are out of bounds", async function () {
+            const { superHelper, owner } = await loadFixture(disputeWithModuleFixture);
+
+            await expect(superHelper.connect(owner).resolveDispute(0, 10_001, [], 0))
+                .to.be.revertedWith("Worker share can't exceed 100%");
+            await expect(superHelper.connect(owner).resolveDispute(0, 5_000, [owner.address], 1_001))
+                .to.be.revertedWith("Arbiters fee too high");
+        });
+
+        it("Should revert if the job is not disputed", async function () {
+            const { superHelper, owner } = await loadFixture(disputeWithModuleFixture);
+
+            await superHelper.connect(owner).resolveDispute(0, 5_000, [], 0);
+
+            await expect(superHelper.connect(owner).resolveDispute(0, 5_000, [], 0))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(7, 4); // current.SETTLED vs expected.DISPUTED
+        });
+    });
+    describe("Stalled jobs: claimPayment and reclaimExpiredJob", function () {
+
+        const REVIEW_PERIOD = 7 * 24 * 60 * 60;
+
+        async function prepareAndTakeJob(superHelper: any, helperToken: any, creator: any, worker: any, reward: bigint) {
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(creator).createJob("Job Test", reward, JOB_DURATION);
+            await superHelper.connect(worker).takeJob(0);
+        }
+
+        describe("claimPayment", function () {
+
+            it("Should pay the worker once the review period is over", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+                await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+                const submittedAt = (await superHelper.jobs(0)).submittedAt;
+                await time.increaseTo(submittedAt + BigInt(REVIEW_PERIOD));
+
+                const workerBalanceBefore = await helperToken.balanceOf(worker.address);
+
+                await expect(superHelper.connect(worker).claimPayment(0))
+                    .to.emit(superHelper, "JobPaymentClaimed")
+                    .withArgs(creator.address, worker.address, 0, reward);
+
+                expect((await superHelper.jobs(0)).status).to.equal(2); // COMPLETED
+                expect(await helperToken.balanceOf(worker.address)).to.equal(workerBalanceBefore + reward);
+                expect((await superHelper.users(worker.address)).nbJobCompleted).to.equal(1);
+            });
+
+            it("Should revert during the review period", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+                await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+                const submittedAt = (await superHelper.jobs(0)).submittedAt;
+
+                await expect(superHelper.connect(worker).claimPayment(0))
+                    .to.be.revertedWithCustomError(superHelper, "ReviewPeriodNotOver")
+                    .withArgs(submittedAt + BigInt(REVIEW_PERIOD));
+            });
+
+            it("Should revert if the job is not submitted", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+
+                await expect(superHelper.connect(worker).claimPayment(0))
+                    .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                    .withArgs(1, 5); // current.TAKEN vs expected.SUBMITTED
+            });
+
+            it("Should revert if called by another address than the worker", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+                await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+                await time.increase(REVIEW_PERIOD);
+
+                await expect(superHelper.connect(creator).claimPayment(0))
+                    .to.be.revertedWith("Only the worker can claim the payment");
+            });
+
+        });
+
+        describe("reclaimExpiredJob", function () {
+
+            it("Should refund the creator once the deadline is missed", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+                await time.increaseTo((await superHelper.jobs(0)).deadline + 1n);
+
+                await expect(superHelper.connect(creator).reclaimExpiredJob(0))
+                    .to.emit(superHelper, "JobExpired")
+                    .withArgs(creator.address, worker.address, 0);
+
+                expect((await superHelper.jobs(0)).status).to.equal(3); // CANCELLED
+                expect(await helperToken.balanceOf(creator.address)).to.equal(reward);
+            });
+
+            it("Should revert before the deadline", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+                const deadline = (await superHelper.jobs(0)).deadline;
+
+                await expect(superHelper.connect(creator).reclaimExpiredJob(0))
+                    .to.be.revertedWithCustomError(superHelper, "DeadlineNotReached")
+                    .withArgs(deadline);
+            });
+
+            it("Should revert once the worker submitted the job", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+                await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+                await time.increase(JOB_DURATION + 1);
+
+                await expect(superHelper.connect(creator).reclaimExpiredJob(0))
+                    .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                    .withArgs(5, 1); // current.SUBMITTED vs expected.TAKEN
+            });
+
+            it("Should revert if called by another address than the creator", async function () {
+                const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+                const reward = 100n * await helperToken.ONE_TOKEN();
+
+                await prepareAndTakeJob(superHelper, helperToken, creator, worker, reward);
+                await time.increase(JOB_DURATION + 1);
+
+                await expect(superHelper.connect(worker).reclaimExpiredJob(0))
+                    .to.be.revertedWith("Only the creator can reclaim the job");
+            });
+
+        });
+
+    });
+
+    describe("Gasless actions: permits and trusted forwarder", function () {
+
+        async function signPermit(helperToken: any, owner: any, spender: string, value: bigint) {
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const {name, version, chainId, verifyingContract} = await helperToken.eip712Domain();
+            const signature = hre.ethers.Signature.from(await owner.signTypedData(
+                {name, version, chainId, verifyingContract},
+                {
+                    Permit: [
+                        {name: "owner", type: "address"},
+                        {name: "spender", type: "address"},
+                        {name: "value", type: "uint256"},
+                        {name: "nonce", type: "uint256"},
+                        {name: "deadline", type: "uint256"},
+                    ],
+                },
+                {owner: owner.address, spender, value, nonce: await helperToken.nonces(owner.address), deadline}
+            ));
+
+            return {value, deadline, v: signature.v, r: signature.r, s: signature.s};
+        }
+
+        async function deployForwarderFixture() {
+            const fixture = await loadFixture(deployContractsFixture);
+
+            const SuperHelperForwarder = await hre.ethers.getContractFactory("SuperHelperForwarder");
+            const forwarder = await SuperHelperForwarder.deploy();
+            await fixture.superHelper.connect(fixture.owner).setTrustedForwarder(await forwarder.getAddress());
+
+            return {...fixture, forwarder};
+        }
+
+        async function signRequest(forwarder: any, signer: any, to: string, data: string) {
+            const request = {
+                from: signer.address,
+                to,
+                value: 0n,
+                gas: 1_000_000n,
+                nonce: await forwarder.nonces(signer.address),
+                deadline: BigInt(await time.latest()) + 3600n,
+                data,
+            };
+            const {name, version, chainId, verifyingContract} = await forwarder.eip712Domain();
+            const signature = await signer.signTypedData(
+                {name, version, chainId, verifyingContract},
+                {
+                    ForwardRequest: [
+                        {name: "from", type: "address"},
+                        {name: "to", type: "address"},
+                        {name: "value", type: "uint256"},
+                        {name: "gas", type: "uint256"},
+                        {name: "nonce", type: "uint256"},
+                        {name: "deadline", type: "uint48"},
+                        {name: "data", type: "bytes"},
+                    ],
+                },
+                request
+            );
+
+            return {...request, signature};
+        }
+
+        it("Should support EIP-2612 permits on HelperToken", async function () {
+            const {superHelper, helperToken, user1} = await loadFixture(deployContractsFixture);
+            const spender = await superHelper.getAddress();
+            const permit = await signPermit(helperToken, user1, spender, 42n);
+
+            await helperToken.permit(user1.address, spender, permit.value, permit.deadline, permit.v, permit.r, permit.s);
+
+            expect(await helperToken.allowance(user1.address, spender)).to.equal(42n);
+            expect(await helperToken.nonces(user1.address)).to.equal(1);
+        });
+
+        it("Should create a job with a permit instead of an approve", async function () {
+            const {superHelper, helperToken, user1} = await loadFixture(deployContractsFixture);
+            const reward = 10n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(user1).distributeToNewUser();
+            const permit = await signPermit(helperToken, user1, await superHelper.getAddress(), reward);
+
+            const tx = superHelper.connect(user1).createJobWithPermit("Permit job", reward, JOB_DURATION, permit);
+
+            await expect(tx)
+                .to.emit(superHelper, "JobAdded")
+                .withArgs(user1.address, "Permit job", reward, 0);
+            await expect(tx).to.changeTokenBalances(helperToken, [user1, superHelper], [-reward, reward]);
+        });
+
+        it("Should create a job when the permit was front-run", async function () {
+            const {superHelper, helperToken, user1, other} = await loadFixture(deployContractsFixture);
+            const spender = await superHelper.getAddress();
+
+            await superHelper.connect(user1).distributeToNewUser();
+            const permit = await signPermit(helperToken, user1, spender, 10n);
+            await helperToken.connect(other).permit(user1.address, spender, permit.value, permit.deadline, permit.v, permit.r, permit.s);
+
+            await expect(superHelper.connect(user1).createJobWithPermit("Permit job", 10n, JOB_DURATION, permit))
+                .to.emit(superHelper, "JobAdded");
+        });
+
+        it("Should revert with InsufficientAllowance if the permit is invalid", async function () {
+            const {superHelper, helperToken, user1, other} = await loadFixture(deployContractsFixture);
+
+            await superHelper.connect(user1).distributeToNewUser();
+            const permit = await signPermit(helperToken, other, await superHelper.getAddress(), 10n);
+
+            await expect(superHelper.connect(user1).createJobWithPermit("Permit job", 10n, JOB_DURATION, permit))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                .withArgs(10n);
+        });
+
+        it("Should take a job with a permit covering the depreciation", async function () {
+            const {superHelper, helperToken, user1, user2, ONE_TOKEN} = await loadFixture(deployAndPrepareDepreciationFixture);
+            const depreciation = (100n * ONE_TOKEN * 5n) / 100n;
+
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), 20n * ONE_TOKEN);
+            await superHelper.connect(user1).createJob("Job", 10n * ONE_TOKEN, JOB_DURATION);
+            const permit = await signPermit(helperToken, user2, await superHelper.getAddress(), depreciation);
+
+            const tx = superHelper.connect(user2).takeJobWithPermit(0, permit);
+
+            await expect(tx).to.emit(superHelper, "JobTaken").withArgs(user2.address, 0);
+            await expect(tx).to.changeTokenBalance(helperToken, user2, -depreciation);
+            expect(await superHelper.deferredDepreciation(user2.address)).to.equal(0);
+        });
+
+        it("Should act on behalf of the signer of a forwarded request", async function () {
+            const {superHelper, helperToken, forwarder, owner: relayer, user1} = await loadFixture(deployForwarderFixture);
+            const data = superHelper.interface.encodeFunctionData("distributeToNewUser");
+            const request = await signRequest(forwarder, user1, await superHelper.getAddress(), data);
+
+            const tx = forwarder.connect(relayer).execute(request);
+
+            await expect(tx)
+                .to.emit(superHelper, "FirstRegistration")
+                .withArgs(user1.address);
+            await expect(tx).to.changeEtherBalance(user1, 0);
+            await expect(tx).to.changeTokenBalance(helperToken, user1, await superHelper.welcomeGrant());
+            expect(await superHelper.isTrustedForwarder(await forwarder.getAddress())).to.be.true;
+        });
+
+        it("Should ignore the forwarder once it is no longer trusted", async function () {
+            const {superHelper, forwarder, owner, user1} = await loadFixture(deployForwarderFixture);
+
+            await expect(superHelper.connect(owner).setTrustedForwarder(hre.ethers.ZeroAddress))
+                .to.emit(superHelper, "TrustedForwarderUpdated")
+                .withArgs(hre.ethers.ZeroAddress);
+
+            const data = superHelper.interface.encodeFunctionData("distributeToNewUser");
+            const request = await signRequest(forwarder, user1, await superHelper.getAddress(), data);
+
+            await expect(forwarder.execute(request))
+                .to.be.revertedWithCustomError(forwarder, "ERC2771UntrustfulTarget");
+        });
+
+        it("Should revert setTrustedForwarder if called by another address than the owner", async function () {
+            const {superHelper, forwarder, user1} = await loadFixture(deployForwarderFixture);
+
+            await expect(superHelper.connect(user1).setTrustedForwarder(await forwarder.getAddress()))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+        });
+    });
+
+    describe("Economics: setBadgeThresholds, setDepreciation and setWelcomeGrant", function () {
+
+        async function completeJobs(superHelper: any, helperToken: any, creator: any, worker: any, count: number) {
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), BigInt(count));
+            for (let i = 0; i < count; i++) {
+                const jobId = await superHelper.jobCount();
+                await superHelper.connect(creator).createJob("Job", 1n, JOB_DURATION);
+                await superHelper.connect(worker).takeJob(jobId);
+                await superHelper.connect(worker).submitJob(jobId, "ipfs://deliverable");
+                await superHelper.connect(creator).completeAndReviewJob(jobId, 4, false, 0);
+            }
+        }
+
+        it("Should deploy with the default economics", async function () {
+            const {superHelper, helperToken} = await loadFixture(deployContractsFixture);
+
+            expect(await superHelper.bronzeThreshold()).to.equal(10);
+            expect(await superHelper.silverThreshold()).to.equal(30);
+            expect(await superHelper.goldThreshold()).to.equal(50);
+            expect(await superHelper.inactivityPeriod()).to.equal(30 * 24 * 60 * 60);
+            expect(await superHelper.depreciationRates(0)).to.equal(5);
+            expect(await superHelper.depreciationRates(3)).to.equal(1);
+            expect(await superHelper.welcomeGrant()).to.equal(100n * await helperToken.ONE_TOKEN());
+        });
+
+        it("Should award badges at the configured thresholds", async function () {
+            const {superHelper, helperToken, owner, user1: creator, user2: worker} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(owner).setBadgeThresholds(1, 2, 3))
+                .to.emit(superHelper, "BadgeThresholdsUpdated")
+                .withArgs(1, 2, 3);
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+
+            await completeJobs(superHelper, helperToken, creator, worker, 1);
+            expect((await superHelper.users(worker.address)).badgeLevel).to.equal(1); // BRONZE
+
+            await completeJobs(superHelper, helperToken, creator, worker, 1);
+            expect((await superHelper.users(worker.address)).badgeLevel).to.equal(2); // SILVER
+
+            await completeJobs(superHelper, helperToken, creator, worker, 1);
+            expect((await superHelper.users(worker.address)).badgeLevel).to.equal(3); // GOLD
+        });
+
+        it("Should revert if the badge thresholds are not increasing or too high", async function () {
+            const {superHelper, owner} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(owner).setBadgeThresholds(0, 2, 3))
+                .to.be.revertedWith("Badge thresholds must be increasing");
+            await expect(superHelper.connect(owner).setBadgeThresholds(5, 5, 6))
+                .to.be.revertedWith("Badge thresholds must be increasing");
+            await expect(superHelper.connect(owner).setBadgeThresholds(10, 30, 1_001))
+                .to.be.revertedWith("Badge threshold too high");
+        });
+
+        it("Should depreciate balances with the configured period and rates", async function () {
+            const {superHelper, helperToken, owner, user1} = await loadFixture(deployContractsFixture);
+            const ONE_TOKEN = await helperToken.ONE_TOKEN();
+            const sevenDays = 7 * 24 * 60 * 60;
+
+            await expect(superHelper.connect(owner).setDepreciation(sevenDays, [10, 5, 2, 1]))
+                .to.emit(superHelper, "DepreciationUpdated")
+                .withArgs(sevenDays, [10, 5, 2, 1]);
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await time.increase(sevenDays);
+
+            const reward = 10n * ONE_TOKEN;
+            const depreciation = (100n * ONE_TOKEN * 10n) / 100n;
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), reward + depreciation);
+
+            await expect(superHelper.connect(user1).createJob("Job", reward, JOB_DURATION))
+                .to.changeTokenBalance(helperToken, user1, -(reward + depreciation));
+        });
+
+        it("Should revert if the depreciation is out of bounds", async function () {
+            const {superHelper, owner} = await loadFixture(deployContractsFixture);
+            const thirtyDays = 30 * 24 * 60 * 60;
+
+            await expect(superHelper.connect(owner).setDepreciation(24 * 60 * 60, [5, 3, 2, 1]))
+                .to.be.revertedWith("Inactivity period out of bounds");
+            await expect(superHelper.connect(owner).setDepreciation(366 * 24 * 60 * 60, [5, 3, 2, 1]))
+                .to.be.revertedWith("Inactivity period out of bounds");
+            await expect(superHelper.connect(owner).setDepreciation(thirtyDays, [21, 3, 2, 1]))
+                .to.be.revertedWith("Depreciation rate too high");
+            await expect(superHelper.connect(owner).setDepreciation(thirtyDays, [5, 3, 4, 1]))
+                .to.be.revertedWith("Depreciation rates can't increase with the badge");
+        });
+
+        it("Should send the configured welcome grant to new users", async function () {
+            const {superHelper, helperToken, owner, user1} = await loadFixture(deployContractsFixture);
+            const grant = 25n * await helperToken.ONE_TOKEN();
+
+            await expect(superHelper.connect(owner).setWelcomeGrant(grant))
+                .to.emit(superHelper, "WelcomeGrantUpdated")
+                .withArgs(grant);
+
+            await expect(superHelper.connect(user1).distributeToNewUser())
+                .to.changeTokenBalance(helperToken, user1, grant);
+        });
+
+        it("Should revert if the welcome grant is out of bounds", async function () {
+            const {superHelper, helperToken, owner} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(owner).setWelcomeGrant(0))
+                .to.be.revertedWith("Welcome grant out of bounds");
+            await expect(superHelper.connect(owner).setWelcomeGrant(1_001n * await helperToken.ONE_TOKEN()))
+                .to.be.revertedWith("Welcome grant out of bounds");
+        });
+
+        it("Should revert if called by another address than the owner", async function () {
+            const {superHelper, user1} = await loadFixture(deployContractsFixture);
+
+            await expect(superHelper.connect(user1).setBadgeThresholds(1, 2, 3))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+            await expect(superHelper.connect(user1).setDepreciation(30 * 24 * 60 * 60, [5, 3, 2, 1]))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+            await expect(superHelper.connect(user1).setWelcomeGrant(1))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+        });
+    });
+
+    describe("Treasury: escrow accounting, withdrawTreasury and depreciation pool", function () {
+
+        async function escrowJobFixture() {
+            const {superHelper, helperToken, owner, user1, user2, other} = await loadFixture(deployContractsFixture);
+            const ONE_TOKEN = await helperToken.ONE_TOKEN();
+            const reward = 40n * ONE_TOKEN;
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(user1).createJob("Escrowed job", reward, JOB_DURATION);
+
+            return {superHelper, helperToken, owner, user1, user2, other, ONE_TOKEN, reward};
+        }
+
+        it("Should track the escrowed rewards through the job lifecycle", async function () {
+            const {superHelper, helperToken, user1, user2, reward} = await loadFixture(escrowJobFixture);
+            const balance = await helperToken.balanceOf(await superHelper.getAddress());
+
+            expect(await superHelper.totalEscrowed()).to.equal(reward);
+            expect(await superHelper.freeFunds()).to.equal(balance - reward);
+            expect(await superHelper.treasuryBalance()).to.equal(balance - reward);
+
+            await superHelper.connect(user2).takeJob(0);
+            await superHelper.connect(user2).submitJob(0, "ipfs://deliverable");
+            await superHelper.connect(user1).completeAndReviewJob(0, 5, false, 0);
+
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+            expect(await superHelper.freeFunds()).to.equal(balance - reward);
+        });
+
+        it("Should release the escrow of cancelled and milestone jobs", async function () {
+            const {superHelper, helperToken, user1, user2, ONE_TOKEN, reward} = await loadFixture(escrowJobFixture);
+
+            await superHelper.connect(user1).cancelJob(0);
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), reward);
+            await superHelper.connect(user1).createJobWithMilestones(
+                "Milestone job", ["Draft", "Final"], [10n * ONE_TOKEN, 30n * ONE_TOKEN], JOB_DURATION
+            );
+            await superHelper.connect(user2).takeJob(1);
+            await superHelper.connect(user1).approveMilestone(1, 0);
+
+            expect(await superHelper.totalEscrowed()).to.equal(30n * ONE_TOKEN);
+        });
+
+        it("Should never pay welcome grants out of escrowed rewards", async function () {
+            const {superHelper, helperToken, owner, other, ONE_TOKEN, reward} = await loadFixture(escrowJobFixture);
+
+            // Leaves less than a welcome grant in the treasury, the escrowed reward covering the difference.
+            const treasury = await superHelper.treasuryBalance();
+            await superHelper.connect(owner).withdrawTreasury(owner.address, treasury - 90n * ONE_TOKEN);
+
+            expect(await superHelper.remainingWelcomeGrants()).to.equal(0);
+            expect(await helperToken.balanceOf(await superHelper.getAddress()))
+                .to.equal(90n * ONE_TOKEN + reward);
+            await expect(superHelper.connect(other).distributeToNewUser())
+                .to.be.revertedWith("Not enough funds in the contract");
+        });
+
+        it("Should report the number of welcome grants left", async function () {
+            const {superHelper, helperToken, owner} = await loadFixture(escrowJobFixture);
+
+            await superHelper.connect(owner).withdrawTreasury(owner.address, await superHelper.treasuryBalance());
+            await helperToken.connect(owner).approve(await superHelper.getAddress(), 250n * await helperToken.ONE_TOKEN());
+            await superHelper.connect(owner).fundTreasury(250n * await helperToken.ONE_TOKEN());
+
+            expect(await superHelper.remainingWelcomeGrants()).to.equal(2);
+        });
+
+        it("Should let anyone fund the treasury", async function () {
+            const {superHelper, helperToken, user1, ONE_TOKEN} = await loadFixture(escrowJobFixture);
+            const amount = 20n * ONE_TOKEN;
+            const treasury = await superHelper.treasuryBalance();
+
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), amount);
+            const tx = superHelper.connect(user1).fundTreasury(amount);
+
+            await expect(tx).to.emit(superHelper, "TreasuryFunded").withArgs(user1.address, amount);
+            await expect(tx).to.changeTokenBalances(helperToken, [user1, superHelper], [-amount, amount]);
+            expect(await superHelper.treasuryBalance()).to.equal(treasury + amount);
+        });
+
+        it("Should revert fundTreasury without enough allowance", async function () {
+            const {superHelper, user1, ONE_TOKEN} = await loadFixture(escrowJobFixture);
+
+            await expect(superHelper.connect(user1).fundTreasury(10n * ONE_TOKEN))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientAllowance")
+                .withArgs(10n * ONE_TOKEN);
+        });
+
+        it("Should let the owner withdraw the treasury but not the escrow", async function () {
+            const {superHelper, helperToken, owner, other} = await loadFixture(escrowJobFixture);
+            const treasury = await superHelper.treasuryBalance();
+
+            await expect(superHelper.connect(owner).withdrawTreasury(other.address, treasury + 1n))
+                .to.be.revertedWithCustomError(superHelper, "InsufficientFunds")
+                .withArgs(treasury + 1n);
+
+            const tx = superHelper.connect(owner).withdrawTreasury(other.address, treasury);
+            await expect(tx).to.emit(superHelper, "TreasuryWithdrawn").withArgs(other.address, treasury);
+            await expect(tx).to.changeTokenBalances(helperToken, [superHelper, other], [-treasury, treasury]);
+
+            expect(await helperToken.balanceOf(await superHelper.getAddress()))
+                .to.equal(await superHelper.totalEscrowed());
+        });
+
+        it("Should keep the depreciation pool out of the treasury until it is released", async function () {
+            const {superHelper, helperToken, owner, user1} = await loadFixture(escrowJobFixture);
+
+            await time.increase(30 * 24 * 60 * 60);
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), hre.ethers.MaxUint256);
+            await superHelper.connect(user1).settleDepreciation();
+
+            const pool = await superHelper.depreciationPool();
+            const treasury = await superHelper.treasuryBalance();
+            expect(pool).to.be.greaterThan(0);
+            expect(await superHelper.freeFunds()).to.equal(treasury + pool);
+
+            await expect(superHelper.connect(owner).releaseDepreciationPool(pool + 1n))
+                .to.be.revertedWith("Amount exceeds the depreciation pool");
+            await expect(superHelper.connect(owner).releaseDepreciationPool(pool))
+                .to.emit(superHelper, "DepreciationPoolReleased")
+                .withArgs(pool);
+
+            expect(await superHelper.depreciationPool()).to.equal(0);
+            expect(await superHelper.treasuryBalance()).to.equal(treasury + pool);
+        });
+
+        it("Should redistribute the depreciation pool to registered users", async function () {
+            const {superHelper, helperToken, owner, user1, user2, other} = await loadFixture(escrowJobFixture);
+
+            await time.increase(30 * 24 * 60 * 60);
+            await helperToken.connect(user1).approve(await superHelper.getAddress(), hre.ethers.MaxUint256);
+            await superHelper.connect(user1).settleDepreciation();
+            const pool = await superHelper.depreciationPool();
+            const share = pool / 2n;
+
+            await expect(superHelper.connect(owner).redistributeDepreciation([user1.address, other.address], share))
+                .to.be.revertedWith("Recipient is not registered");
+            await expect(superHelper.connect(owner).redistributeDepreciation([user1.address, user2.address], pool))
+                .to.be.revertedWith("Amount exceeds the depreciation pool");
+
+            const tx = superHelper.connect(owner).redistributeDepreciation([user1.address, user2.address], share);
+            await expect(tx).to.emit(superHelper, "DepreciationRedistributed").withArgs(user1.address, share);
+            await expect(tx).to.emit(superHelper, "DepreciationRedistributed").withArgs(user2.address, share);
+            await expect(tx).to.changeTokenBalances(helperToken, [user1, user2], [share, share]);
+
+            expect(await superHelper.depreciationPool()).to.equal(pool - 2n * share);
+        });
+
+        it("Should revert the treasury functions if called by another address than the owner", async function () {
+            const {superHelper, user1} = await loadFixture(escrowJobFixture);
+
+            await expect(superHelper.connect(user1).withdrawTreasury(user1.address, 1n))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+            await expect(superHelper.connect(user1).releaseDepreciationPool(0))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+            await expect(superHelper.connect(user1).redistributeDepreciation([user1.address], 0))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(user1.address);
+        });
+    });
+
+    describe("Circuit breaker: pause and emergency mode", function () {
+
+        async function jobsInEveryStateFixture() {
+            const {superHelper, helperToken, owner, user1: creator, user2: worker, other} = await loadFixture(deployContractsFixture);
+            const ONE_TOKEN = await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), 100n * ONE_TOKEN);
+
+            // 0: CREATED, 1: TAKEN with a released milestone, 2: SUBMITTED, 3: DISPUTED
+            await superHelper.connect(creator).createJob("Created job", 10n * ONE_TOKEN, JOB_DURATION);
+            await superHelper.connect(creator).createJobWithMilestones(
+                "Milestone job", ["Draft", "Final"], [5n * ONE_TOKEN, 15n * ONE_TOKEN], JOB_DURATION
+            );
+            await superHelper.connect(worker).takeJob(1);
+            await superHelper.connect(creator).approveMilestone(1, 0);
+            for (const jobId of [2, 3]) {
+                await superHelper.connect(creator).createJob("Delivered job", 20n * ONE_TOKEN, JOB_DURATION);
+                await superHelper.connect(worker).takeJob(jobId);
+                await superHelper.connect(worker).submitJob(jobId, "ipfs://deliverable");
+            }
+            await superHelper.connect(creator).completeAndReviewJob(3, 1, true, 0);
+
+            return {superHelper, helperToken, owner, creator, worker, other, ONE_TOKEN};
+        }
+
+        async function emergencyFixture() {
+            const fixture = await loadFixture(jobsInEveryStateFixture);
+
+            await fixture.superHelper.connect(fixture.owner).pause();
+            await fixture.superHelper.connect(fixture.owner).setEmergencyMode(true);
+
+            return fixture;
+        }
+
+        async function expectEscrowConsistent(superHelper: SuperHelper, helperToken: HelperToken) {
+            let escrowed = 0n;
+            for (let jobId = 0n; jobId < await superHelper.jobCount(); jobId++) {
+                const job = await superHelper.jobs(jobId);
+                if ([0n, 1n, 4n, 5n].includes(job.status)) { // CREATED, TAKEN, DISPUTED, SUBMITTED
+                    escrowed += job.reward - job.released;
+                }
+            }
+
+            expect(await superHelper.totalEscrowed()).to.equal(escrowed);
+            expect(await helperToken.balanceOf(await superHelper.getAddress()))
+                .to.equal(escrowed + await superHelper.freeFunds());
+        }
+
+        it("Should stop the actions of the users while paused", async function () {
+            const {superHelper, owner, creator, worker, other} = await loadFixture(jobsInEveryStateFixture);
+
+            await expect(superHelper.connect(owner).pause())
+                .to.emit(superHelper, "Paused")
+                .withArgs(owner.address);
+
+            await expect(superHelper.connect(other).distributeToNewUser())
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+            await expect(superHelper.connect(creator).createJob("Paused job", 1n, JOB_DURATION))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+            await expect(superHelper.connect(worker).takeJob(0))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+            await expect(superHelper.connect(creator).completeAndReviewJob(2, 5, false, 0))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+            await expect(superHelper.connect(creator).cancelJob(0))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+            await expect(superHelper.connect(creator).fundTreasury(1n))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+        });
+
+        it("Should freeze the payments of the owner while paused but keep the configuration", async function () {
+            const {superHelper, owner} = await loadFixture(jobsInEveryStateFixture);
+
+            await superHelper.connect(owner).pause();
+
+            await expect(superHelper.connect(owner).handleDisputedJob(3, true))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+            await expect(superHelper.connect(owner).withdrawTreasury(owner.address, 1n))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+            await expect(superHelper.connect(owner).setWelcomeGrant(50n))
+                .to.emit(superHelper, "WelcomeGrantUpdated");
+        });
+
+        it("Should resume the marketplace on unpause", async function () {
+            const {superHelper, owner, creator} = await loadFixture(jobsInEveryStateFixture);
+
+            await superHelper.connect(owner).pause();
+            await expect(superHelper.connect(owner).unpause())
+                .to.emit(superHelper, "Unpaused")
+                .withArgs(owner.address);
+
+            await expect(superHelper.connect(creator).cancelJob(0))
+                .to.emit(superHelper, "JobCanceled");
+        });
+
+        it("Should only enable the emergency mode while paused", async function () {
+            const {superHelper, owner} = await loadFixture(jobsInEveryStateFixture);
+
+            await expect(superHelper.connect(owner).setEmergencyMode(true))
+                .to.be.revertedWithCustomError(superHelper, "ExpectedPause");
+
+            await superHelper.connect(owner).pause();
+            await expect(superHelper.connect(owner).setEmergencyMode(true))
+                .to.emit(superHelper, "EmergencyModeUpdated")
+                .withArgs(true);
+        });
+
+        it("Should not unpause before the emergency mode is disabled", async function () {
+            const {superHelper, owner} = await loadFixture(emergencyFixture);
+
+            await expect(superHelper.connect(owner).unpause())
+                .to.be.revertedWith("Emergency mode is active");
+
+            await superHelper.connect(owner).setEmergencyMode(false);
+            await superHelper.connect(owner).unpause();
+            expect(await superHelper.paused()).to.be.false;
+        });
+
+        it("Should refund the escrow of created and taken jobs to their creator", async function () {
+            const {superHelper, helperToken, creator, ONE_TOKEN} = await loadFixture(emergencyFixture);
+
+            let tx = superHelper.connect(creator).emergencyWithdraw(0);
+            await expect(tx).to.emit(superHelper, "EmergencyWithdrawal").withArgs(creator.address, 0, 10n * ONE_TOKEN);
+            await expect(tx).to.changeTokenBalances(helperToken, [creator, superHelper], [10n * ONE_TOKEN, -10n * ONE_TOKEN]);
+
+            // Only the milestone left unreleased goes back to the creator.
+            tx = superHelper.connect(creator).emergencyWithdraw(1);
+            await expect(tx).to.emit(superHelper, "EmergencyWithdrawal").withArgs(creator.address, 1, 15n * ONE_TOKEN);
+            await expect(tx).to.changeTokenBalances(helperToken, [creator, superHelper], [15n * ONE_TOKEN, -15n * ONE_TOKEN]);
+
+            expect((await superHelper.jobs(0)).status).to.equal(3); // CANCELLED
+            expect((await superHelper.jobs(1)).status).to.equal(3); // CANCELLED
+            await expect(superHelper.connect(creator).emergencyWithdraw(0))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(3, 0);
+        });
+
+        it("Should keep submitted and disputed funds frozen", async function () {
+            const {superHelper, owner, creator} = await loadFixture(emergencyFixture);
+
+            await expect(superHelper.connect(creator).emergencyWithdraw(2))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(5, 0); // SUBMITTED
+            await expect(superHelper.connect(creator).emergencyWithdraw(3))
+                .to.be.revertedWithCustomError(superHelper, "JobStatusIncorrect")
+                .withArgs(4, 0); // DISPUTED
+            await expect(superHelper.connect(owner).settleDisputedJob(3, 5_000))
+                .to.be.revertedWithCustomError(superHelper, "EnforcedPause");
+        });
+
+        it("Should revert emergencyWithdraw outside of the emergency mode or for another user", async function () {
+            const {superHelper, owner, creator, worker} = await loadFixture(jobsInEveryStateFixture);
+
+            await superHelper.connect(owner).pause();
+            await expect(superHelper.connect(creator).emergencyWithdraw(0))
+                .to.be.revertedWith("Emergency mode is not active");
+
+            await superHelper.connect(owner).setEmergencyMode(true);
+            await expect(superHelper.connect(worker).emergencyWithdraw(0))
+                .to.be.revertedWith("Only the creator can withdraw the escrow");
+        });
+
+        it("Should keep the escrow accounting consistent through the emergency", async function () {
+            const {superHelper, helperToken, owner, creator, ONE_TOKEN} = await loadFixture(jobsInEveryStateFixture);
+
+            await expectEscrowConsistent(superHelper, helperToken);
+            expect(await superHelper.totalEscrowed()).to.equal(65n * ONE_TOKEN);
+
+            await superHelper.connect(owner).pause();
+            await superHelper.connect(owner).setEmergencyMode(true);
+            await superHelper.connect(creator).emergencyWithdraw(0);
+            await superHelper.connect(creator).emergencyWithdraw(1);
+            await expectEscrowConsistent(superHelper, helperToken);
+            expect(await superHelper.totalEscrowed()).to.equal(40n * ONE_TOKEN);
+
+            await superHelper.connect(owner).setEmergencyMode(false);
+            await superHelper.connect(owner).unpause();
+            await superHelper.connect(creator).completeAndReviewJob(2, 5, false, 0);
+            await time.increase(await superHelper.DISPUTE_TIMEOUT());
+            await superHelper.connect(owner).handleDisputedJob(3, false);
+            await expectEscrowConsistent(superHelper, helperToken);
+            expect(await superHelper.totalEscrowed()).to.equal(0);
+        });
+
+        it("Should revert if called by another address than the owner", async function () {
+            const {superHelper, other} = await loadFixture(jobsInEveryStateFixture);
+
+            for (const action of [
+                () => superHelper.connect(other).pause(),
+                () => superHelper.connect(other).unpause(),
+                () => superHelper.connect(other).setEmergencyMode(true),
+            ]) {
+                await expect(action())
+                    .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                    .withArgs(other.address);
+            }
+        });
+    });
+
+    describe("Deployment: SuperHelperModule", function () {
+
+        async function deployModuleFixture() {
+            const [owner, user1, user2] = await hre.ethers.getSigners();
+
+            const deployment = await hre.ignition.deploy(SuperHelperModule);
+            const superHelper = await hre.ethers.getContractAt("SuperHelper", await deployment.superHelper.getAddress(), owner);
+            const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+            const disputeModule = await hre.ethers.getContractAt("DisputeModule", await deployment.disputeModule.getAddress(), owner);
+            const badgeNFT = await hre.ethers.getContractAt("BadgeNFT", await deployment.badgeNFT.getAddress(), owner);
+            const forwarder = await hre.ethers.getContractAt("SuperHelperForwarder", await deployment.forwarder.getAddress(), owner);
+            const registrationModule = await hre.ethers.getContractAt("RegistrationModule", await deployment.registrationModule.getAddress(), owner);
+            const jobLens = await hre.ethers.getContractAt("JobLens", await deployment.jobLens.getAddress(), owner);
+
+            return {superHelper, helperToken, disputeModule, badgeNFT, forwarder, registrationModule, jobLens, owner, user1, user2};
+        }
+
+        it("Should wire the dispute module with GOLD arbiters", async function () {
+            const {superHelper, disputeModule} = await loadFixture(deployModuleFixture);
+
+            expect(await superHelper.disputeModule()).to.equal(await disputeModule.getAddress());
+            expect(await disputeModule.superHelper()).to.equal(await superHelper.getAddress());
+            expect(await disputeModule.minArbiterBadge()).to.equal(3); // GOLD
+        });
+
+        it("Should wire the badge token", async function () {
+            const {superHelper, badgeNFT} = await loadFixture(deployModuleFixture);
+
+            expect(await superHelper.badgeNFT()).to.equal(await badgeNFT.getAddress());
+            expect(await badgeNFT.superHelper()).to.equal(await superHelper.getAddress());
+        });
+
+        it("Should trust the deployed forwarder", async function () {
+            const {superHelper, forwarder} = await loadFixture(deployModuleFixture);
+
+            expect(await superHelper.trustedForwarder()).to.equal(await forwarder.getAddress());
+        });
+
+        it("Should wire the registration module with an open registration", async function () {
+            const {superHelper, registrationModule} = await loadFixture(deployModuleFixture);
+
+            expect(await superHelper.registrationModule()).to.equal(await registrationModule.getAddress());
+            expect(await registrationModule.superHelper()).to.equal(await superHelper.getAddress());
+            expect(await superHelper.registrationMode()).to.equal(0); // OPEN
+            expect(await registrationModule.invitationQuota()).to.equal(3);
+        });
+
+        it("Should deploy the job lens", async function () {
+            const {superHelper, jobLens} = await loadFixture(deployModuleFixture);
+
+            expect(await jobLens.superHelper()).to.equal(await superHelper.getAddress());
+        });
+
+        it("Should deploy with the economics of a parameter file", async function () {
+            const [owner] = await hre.ethers.getSigners();
+            const parameters = localhostParameters.SuperHelperModule;
+
+            const deployment = await hre.ignition.deploy(SuperHelperModule, {parameters: localhostParameters});
+            const superHelper = await hre.ethers.getContractAt("SuperHelper", await deployment.superHelper.getAddress(), owner);
+            const disputeModule = await hre.ethers.getContractAt("DisputeModule", await deployment.disputeModule.getAddress(), owner);
+
+            expect(await superHelper.bronzeThreshold()).to.equal(parameters.bronzeThreshold);
+            expect(await superHelper.silverThreshold()).to.equal(parameters.silverThreshold);
+            expect(await superHelper.goldThreshold()).to.equal(parameters.goldThreshold);
+            expect(await superHelper.inactivityPeriod()).to.equal(parameters.inactivityPeriod);
+            for (const [badge, rate] of parameters.depreciationRates.entries()) {
+                expect(await superHelper.depreciationRates(badge)).to.equal(rate);
+            }
+            expect(await superHelper.welcomeGrant()).to.equal(parameters.welcomeGrant);
+            expect(await disputeModule.minArbiterBadge()).to.equal(parameters.minArbiterBadge);
+            expect(await superHelper.registrationMode()).to.equal(parameters.registrationMode);
+
+            const registrationModule = await hre.ethers.getContractAt("RegistrationModule", await deployment.registrationModule.getAddress(), owner);
+            expect(await registrationModule.invitationQuota()).to.equal(parameters.invitationQuota);
+        });
+
+        it("Should deploy a contract going through every job transition", async function () {
+            const {superHelper, helperToken, user1: creator, user2: worker} = await loadFixture(deployModuleFixture);
+            const reward = 10n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(creator).distributeToNewUser();
+            await superHelper.connect(worker).distributeToNewUser();
+            await helperToken.connect(creator).approve(await superHelper.getAddress(), reward);
+
+            await superHelper.connect(creator).createJob("Module job", reward, JOB_DURATION);
+            expect((await superHelper.jobs(0)).status).to.equal(0); // CREATED
+
+            await superHelper.connect(worker).takeJob(0);
+            expect((await superHelper.jobs(0)).status).to.equal(1); // TAKEN
+
+            await superHelper.connect(worker).submitJob(0, "ipfs://deliverable");
+            expect((await superHelper.jobs(0)).status).to.equal(5); // SUBMITTED
+
+            await superHelper.connect(creator).completeAndReviewJob(0, 5, false, 0);
+            expect((await superHelper.jobs(0)).status).to.equal(2); // COMPLETED
+        });
+    });
+
+    describe("Deployment: proxy and upgrades", function () {
+
+        const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+        async function implementationOf(proxy: string) {
+            const slot = await hre.ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT);
+            return hre.ethers.getAddress(hre.ethers.dataSlice(slot, 12));
+        }
+
+        async function populatedProxyFixture() {
+            const [owner, user1, user2, other] = await hre.ethers.getSigners();
+
+            const deployment = await hre.ignition.deploy(SuperHelperProxyModule);
+            const proxy = await deployment.proxy.getAddress();
+            const superHelper = await hre.ethers.getContractAt("SuperHelper", proxy, owner);
+            const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+            const proxyAdmin = await hre.ethers.getContractAt("ProxyAdmin", await deployment.proxyAdmin.getAddress(), owner);
+            const implementation = await deployment.implementation.getAddress();
+            const reward = 10n * await helperToken.ONE_TOKEN();
+
+            await superHelper.connect(user1).distributeToNewUser();
+            await superHelper.connect(user2).distributeToNewUser();
+            await helperToken.connect(user1).approve(proxy, 2n * reward);
+            await superHelper.connect(user1).createJob("Taken job", reward, JOB_DURATION);
+            await superHelper.connect(user1).createJob("Open job", reward, JOB_DURATION);
+            await superHelper.connect(user2).takeJob(0);
+            await superHelper.setBadgeThresholds(5, 15, 25);
+
+            return {superHelper, helperToken, proxyAdmin, proxy, implementation, owner, user1, user2, other, reward};
+        }
+
+        async function upgrade(proxy: string, proxyAdmin: string) {
+            const deployment = await hre.ignition.deploy(SuperHelperUpgradeModule, {
+                parameters: {SuperHelperUpgradeModule: {proxy, proxyAdmin}},
+            });
+            return deployment.implementation.getAddress();
+        }
+
+        // Empties the job indexes of the fixture users and sets the proxy back to version 1 (ERC-7201 slot of Initializable),
+        // as on a proxy deployed before getCreatorJobIds and getWorkerJobIds.
+        // creatorJobIds is the mapping holding the IDs 0 and 1 for user1, workerJobIds is declared right after it.
+        async function clearJobIds(proxy: string, creator: string, worker: string) {
+            const initializableSlot = "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+            await hre.network.provider.send("hardhat_setStorageAt", [proxy, initializableSlot, hre.ethers.toBeHex(1, 32)]);
+
+            const coder = hre.ethers.AbiCoder.defaultAbiCoder();
+            const arraySlot = (user: string, slot: number) => hre.ethers.keccak256(coder.encode(["address", "uint256"], [user, slot]));
+
+            for (let slot = 0; slot < 100; slot++) {
+                const ids = BigInt(hre.ethers.keccak256(arraySlot(creator, slot)));
+                if (BigInt(await hre.ethers.provider.getStorage(proxy, arraySlot(creator, slot))) === 2n
+                    && BigInt(await hre.ethers.provider.getStorage(proxy, ids + 1n)) === 1n) {
+                    await hre.network.provider.send("hardhat_setStorageAt", [proxy, arraySlot(creator, slot), hre.ethers.ZeroHash]);
+                    await hre.network.provider.send("hardhat_setStorageAt", [proxy, arraySlot(worker, slot + 1), hre.ethers.ZeroHash]);
+                    return;
+                }
+            }
+            throw new Error("Job indexes not found");
+        }
+
+        it("Should deploy the token separately and hand its supply to the proxy", async function () {
+            const {superHelper, helperToken, proxyAdmin, proxy, implementation, owner} = await loadFixture(populatedProxyFixture);
+
+            expect(await helperToken.owner()).to.equal(owner.address);
+            expect(await helperToken.balanceOf(owner.address)).to.equal(0);
+            expect(await superHelper.owner()).to.equal(owner.address);
+            expect(await proxyAdmin.owner()).to.equal(owner.address);
+            expect(await implementationOf(proxy)).to.equal(implementation);
+        });
+
+        it("Should not initialize the proxy or the implementation twice", async function () {
+            const {superHelper, helperToken, implementation, other} = await loadFixture(populatedProxyFixture);
+            const implementationContract = await hre.ethers.getContractAt("SuperHelper", implementation);
+
+            for (const target of [superHelper, implementationContract]) {
+                await expect(target.connect(other).initialize(await helperToken.getAddress(), other.address))
+                    .to.be.revertedWithCustomError(superHelper, "InvalidInitialization");
+            }
+        });
+
+        it("Should keep users, jobs and jobCount through an upgrade", async function () {
+            const {superHelper, helperToken, proxyAdmin, proxy, implementation, user1, user2, reward} = await loadFixture(populatedProxyFixture);
+            const usersBefore = [await superHelper.users(user1.address), await superHelper.users(user2.address)];
+            const jobsBefore = [await superHelper.jobs(0), await superHelper.jobs(1)];
+
+            const newImplementation = await upgrade(proxy, await proxyAdmin.getAddress());
+
+            expect(newImplementation).to.not.equal(implementation);
+            expect(await implementationOf(proxy)).to.equal(newImplementation);
+            expect(await superHelper.users(user1.address)).to.deep.equal(usersBefore[0]);
+            expect(await superHelper.users(user2.address)).to.deep.equal(usersBefore[1]);
+            expect(await superHelper.jobs(0)).to.deep.equal(jobsBefore[0]);
+            expect(await superHelper.jobs(1)).to.deep.equal(jobsBefore[1]);
+            expect(await superHelper.jobCount()).to.equal(2);
+            expect(await superHelper.totalEscrowed()).to.equal(2n * reward);
+            expect(await superHelper.bronzeThreshold()).to.equal(5);
+            expect(await superHelper.helperToken()).to.equal(await helperToken.getAddress());
+
+            await superHelper.connect(user2).submitJob(0, "ipfs://deliverable");
+            await expect(superHelper.connect(user1).completeAndReviewJob(0, 5, false, 0))
+                .to.changeTokenBalances(helperToken, [superHelper, user2], [-reward, reward]);
+        });
+
+        it("Should backfill the job indexes of a proxy deployed before them", async function () {
+            const {superHelper, helperToken, proxyAdmin, proxy, user1, user2, reward} = await loadFixture(populatedProxyFixture);
+
+            await superHelper.pause();
+            await clearJobIds(proxy, user1.address, user2.address);
+            await upgrade(proxy, await proxyAdmin.getAddress());
+            expect(await superHelper.jobIdsBackfill()).to.deep.equal([0n, 2n]);
+            expect(await superHelper.getCreatorJobIds(user1.address)).to.deep.equal([]);
+            expect(await superHelper.getWorkerJobIds(user2.address)).to.deep.equal([]);
+
+            await superHelper.backfillJobIds(1);
+            await superHelper.backfillJobIds(2);
+            await expect(superHelper.backfillJobIds(1)).to.be.revertedWith("Invalid job range");
+            await superHelper.unpause();
+
+            expect(await superHelper.jobIdsBackfill()).to.deep.equal([2n, 2n]);
+            expect(await superHelper.getCreatorJobIds(user1.address)).to.deep.equal([0n, 1n]);
+            expect(await superHelper.getWorkerJobIds(user2.address)).to.deep.equal([0n]);
+
+            await helperToken.connect(user1).approve(proxy, reward);
+            await superHelper.connect(user1).createJob("Job created after the upgrade", reward, JOB_DURATION);
+            await superHelper.pause();
+            await expect(superHelper.backfillJobIds(3)).to.be.revertedWith("Invalid job range");
+            expect(await superHelper.getCreatorJobIds(user1.address)).to.deep.equal([0n, 1n, 2n]);
+        });
+
+        it("Should have no job indexes to backfill on a new deployment", async function () {
+            const {superHelper, proxyAdmin, proxy, user1, user2} = await loadFixture(populatedProxyFixture);
+
+            await upgrade(proxy, await proxyAdmin.getAddress());
+            await superHelper.migrate();
+            expect(await superHelper.jobIdsBackfill()).to.deep.equal([0n, 0n]);
+
+            await superHelper.pause();
+            await expect(superHelper.backfillJobIds(2)).to.be.revertedWith("Invalid job range");
+            await superHelper.backfillJobIds(0);
+
+            expect(await superHelper.getCreatorJobIds(user1.address)).to.deep.equal([0n, 1n]);
+            expect(await superHelper.getWorkerJobIds(user2.address)).to.deep.equal([0n]);
+        });
+
+        it("Should only let the owner backfill the job indexes while paused", async function () {
+            const {superHelper, other} = await loadFixture(populatedProxyFixture);
+
+            await expect(superHelper.backfillJobIds(0))
+                .to.be.revertedWithCustomError(superHelper, "ExpectedPause");
+
+            await superHelper.pause();
+            await expect(superHelper.connect(other).backfillJobIds(0))
+                .to.be.revertedWithCustomError(superHelper, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
+        });
+
+        it("Should only let the owner of the ProxyAdmin upgrade", async function () {
+            const {proxyAdmin, proxy, implementation, other} = await loadFixture(populatedProxyFixture);
+
+            await expect(proxyAdmin.connect(other).upgradeAndCall(proxy, implementation, "0x"))
+                .to.be.revertedWithCustomError(proxyAdmin, "OwnableUnauthorizedAccount")
+                .withArgs(other.address);
         });
     });
 });
@@ -0,0 +1,734 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import hre from "hardhat";
+
+import {id, parseEther} from "ethers";
+
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+import {
+    AllowlistTree,
+    AlreadyRegisteredError,
+    Badge,
+    BadgeTooLowError,
+    DisputeTimeoutNotReachedError,
+    formatHelp,
+    GaslessRelayer,
+    hashJobDescription,
+    InsufficientFundsError,
+    JobDescription,
+    JobDescriptionError,
+    JobStatus,
+    JobStatusIncorrectError,
+    IncorrectValueError,
+    MarketplacePausedError,
+    matchesContentHash,
+    NATIVE_TOKEN,
+    NotRegisteredError,
+    parseHelp,
+    prepareJobDescription,
+    RATING_PRECISION,
+    RegistrationMode,
+    RegistrationModeIncorrectError,
+    ReviewPeriodNotOverError,
+    SuperHelperClient,
+    SuperHelperRevertError,
+    toSuperHelperError,
+    UnauthorizedError,
+    validateJobDescription
+} from "../sdk";
+
+describe("SuperHelper SDK Client", function () {
+
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+
+    async function deployClientsFixture() {
+        const [owner, user1, user2, other] = await hre.ethers.getSigners();
+
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+        const address = await superHelper.getAddress();
+
+        const ownerClient = await SuperHelperClient.connect(address, owner);
+        const creator = await SuperHelperClient.connect(address, user1);
+        const worker = await SuperHelperClient.connect(address, user2);
+        const outsider = await SuperHelperClient.connect(address, other);
+
+        return {superHelper, ownerClient, creator, worker, outsider, user1, user2, other};
+    }
+
+    async function registeredClientsFixture() {
+        const fixture = await loadFixture(deployClientsFixture);
+
+        await fixture.creator.register();
+        await fixture.worker.register();
+
+        return fixture;
+    }
+
+    describe("Units", function () {
+
+        it("Should convert HELP amounts using 2 decimals", async function () {
+            expect(parseHelp("12.5")).to.equal(1250n);
+            expect(formatHelp(1250n)).to.equal("12.5");
+        });
+
+        it("Should scale the ratings like the contract", async function () {
+            const {superHelper} = await loadFixture(deployClientsFixture);
+
+            expect(await superHelper.RATING_PRECISION()).to.equal(RATING_PRECISION);
+        });
+
+    });
+
+    describe("Job lifecycle", function () {
+
+        it("Should register a user", async function () {
+            const {creator, user1} = await loadFixture(deployClientsFixture);
+
+            await creator.register();
+
+            const user = await creator.getUser();
+            expect(user.isRegistered).to.be.true;
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("100"));
+        });
+
+        it("Should create a job without a manual approval and return its id", async function () {
+            const {creator} = await loadFixture(registeredClientsFixture);
+
+            const first = await creator.createJob("Help me build a fence", "10", JOB_DURATION);
+            const second = await creator.createJob("Paint the fence", 500n, JOB_DURATION);
+
+            expect(first.jobId).to.equal(0n);
+            expect(second.jobId).to.equal(1n);
+
+            const job = await creator.getJob(second.jobId);
+            expect(job.description).to.equal("Paint the fence");
+            expect(job.reward).to.equal(parseHelp("5"));
+            expect(job.status).to.equal(JobStatus.CREATED);
+        });
+
+        it("Should take, complete and pay a job", async function () {
+            const {creator, worker, user2} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Clean house", "25", JOB_DURATION);
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 5);
+
+            const job = await creator.getJob(jobId);
+            expect(job.status).to.equal(JobStatus.COMPLETED);
+            expect(job.stars).to.equal(5);
+            expect(job.deliverable).to.equal("ipfs://deliverable");
+            expect(await worker.helperToken.balanceOf(user2.address)).to.equal(parseHelp("125"));
+        });
+
+        it("Should approve and pay a tip with a 5-star review", async function () {
+            const {creator, worker, user2} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Clean house", "25", JOB_DURATION);
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 5, false, "2.5");
+
+            expect(await worker.helperToken.balanceOf(user2.address)).to.equal(parseHelp("127.5"));
+        });
+
+        it("Should rate both parties and expose their average ratings", async function () {
+            const {creator, worker, user1, user2} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Mow the lawn", "10", JOB_DURATION);
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 4);
+            await worker.rateCreator(jobId, 3);
+
+            expect((await creator.getJob(jobId)).creatorStars).to.equal(3);
+            expect((await creator.getUser(user2.address)).averageWorkerRating).to.equal(400n);
+            expect((await worker.getUser(user1.address)).averageCreatorRating).to.equal(300n);
+        });
+
+        it("Should create a milestone job and release its milestones", async function () {
+            const {creator, worker, user2} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJobWithMilestones("Staged job", [
+                {description: "Draft", amount: "10"},
+                {description: "Final", amount: 1500n},
+            ], JOB_DURATION);
+            await worker.takeJob(jobId);
+            await creator.approveMilestone(jobId, 0);
+
+            const job = await creator.getJob(jobId);
+            expect(job.reward).to.equal(parseHelp("25"));
+            expect(job.released).to.equal(parseHelp("10"));
+            expect((await creator.getMilestones(jobId)).map((milestone) => milestone.released)).to.deep.equal([true, false]);
+            expect(await worker.helperToken.balanceOf(user2.address)).to.equal(parseHelp("110"));
+        });
+
+        it("Should apply for a job and be accepted at the proposed price", async function () {
+            const {creator, worker, user2} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Job with applications", "10", JOB_DURATION);
+            await creator.setJobRequirements(jobId, {minBadge: Badge.NONE, minAverageRating: 0n, applicationsOnly: true});
+            await worker.applyForJob(jobId, "I can do it", "12");
+
+            expect(await creator.getApplications(jobId)).to.deep.equal([
+                {applicant: user2.address, messageHash: id("I can do it"), proposedPrice: parseHelp("12")},
+            ]);
+
+            await creator.acceptApplicant(jobId, user2.address);
+
+            const job = await creator.getJob(jobId);
+            expect(job.worker).to.equal(user2.address);
+            expect(job.reward).to.equal(parseHelp("12"));
+        });
+
+        it("Should update an open job, approving a reward increase", async function () {
+            const {creator, user1} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Logo", "10", JOB_DURATION);
+            await creator.updateJob(jobId, "Logo and favicon", "15");
+
+            const job = await creator.getJob(jobId);
+            expect(job.description).to.equal("Logo and favicon");
+            expect(job.reward).to.equal(parseHelp("15"));
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("85"));
+        });
+
+        it("Should abandon a taken job", async function () {
+            const {creator, worker} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Too hard", "15", JOB_DURATION);
+            await worker.takeJob(jobId);
+            await worker.abandonJob(jobId);
+
+            expect((await creator.getJob(jobId)).status).to.equal(JobStatus.CREATED);
+            expect((await worker.getUser()).nbJobAbandoned).to.equal(1n);
+        });
+
+        it("Should cancel a job and refund the creator", async function () {
+            const {creator, user1} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Cancel me", "40", JOB_DURATION);
+            await creator.cancelJob(jobId);
+
+            expect((await creator.getJob(jobId)).status).to.equal(JobStatus.CANCELLED);
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("100"));
+        });
+
+        it("Should let the owner settle a dispute after the dispute timeout", async function () {
+            const {ownerClient, creator, worker, user1} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Disputed job", "30", JOB_DURATION);
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 1, true);
+            expect((await creator.getJob(jobId)).status).to.equal(JobStatus.DISPUTED);
+
+            const error = await ownerClient.handleDisputedJob(jobId, false).catch((e) => e);
+            expect(error).to.be.instanceOf(DisputeTimeoutNotReachedError);
+
+            await time.increaseTo(error.timeoutEnd);
+            await ownerClient.handleDisputedJob(jobId, false);
+
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("100"));
+        });
+
+    });
+
+    describe("Job descriptions", function () {
+
+        const DESCRIPTION: JobDescription = {
+            version: 1,
+            title: "Logo for a bakery",
+            details: "A vector logo in two colors.",
+            category: 2,
+            tags: ["design", "logo"],
+            deliverables: ["logo.svg"],
+        };
+
+        it("Should hash a description whatever the order of its keys", async function () {
+            const reordered: JobDescription = {
+                deliverables: ["logo.svg"],
+                tags: ["design", "logo"],
+                category: 2,
+                details: DESCRIPTION.details,
+                title: DESCRIPTION.title,
+                version: 1,
+            };
+            const {content, metadata} = prepareJobDescription(DESCRIPTION);
+
+            expect(hashJobDescription(reordered)).to.equal(hashJobDescription(DESCRIPTION));
+            expect(metadata).to.deep.equal({category: 2n, contentHash: hashJobDescription(DESCRIPTION), tags: ["design", "logo"]});
+            expect(JSON.parse(content)).to.deep.equal(DESCRIPTION);
+            expect(matchesContentHash(content, metadata.contentHash)).to.be.true;
+            expect(matchesContentHash(JSON.stringify(DESCRIPTION, null, 2), metadata.contentHash)).to.be.false;
+        });
+
+        it("Should list every problem of an invalid description", async function () {
+            const invalid = {version: 2, title: "", category: -1, tags: ["Logo", "svg", "svg", "a", "b", "c"], budget: 10};
+
+            try {
+                validateJobDescription(invalid);
+                expect.fail("The description should be rejected");
+            } catch (error) {
+                expect(error).to.be.instanceOf(JobDescriptionError);
+                expect((error as JobDescriptionError).problems).to.have.members([
+                    "details is required",
+                    "budget is not a known property",
+                    "version must be 1",
+                    "title must be a non-empty string",
+                    "category must be a non-negative integer",
+                    "at most 5 tags are allowed",
+                    "tags must be unique",
+                    "tags[0] must be lowercase letters, digits and dashes, up to 31 characters",
+                ]);
+            }
+        });
+
+        it("Should allow as many tags in the schema as on-chain", async function () {
+            const {superHelper} = await loadFixture(deployClientsFixture);
+            const tags = Array.from({length: Number(await superHelper.MAX_TAGS())}, (_, i) => `tag-${i}`);
+
+            expect(() => validateJobDescription({...DESCRIPTION, tags})).to.not.throw();
+            expect(() => validateJobDescription({...DESCRIPTION, tags: [...tags, "one-more"]})).to.throw(JobDescriptionError);
+        });
+
+        it("Should create a job described off-chain", async function () {
+            const {creator} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJobWithDescription(DESCRIPTION, "ipfs://bafy-logo", "10", JOB_DURATION);
+
+            const job = await creator.getJob(jobId);
+            expect(job.description).to.equal("ipfs://bafy-logo");
+            expect(job.reward).to.equal(parseHelp("10"));
+            expect(await creator.getJobMetadata(jobId)).to.deep.equal({
+                category: 2n,
+                contentHash: hashJobDescription(DESCRIPTION),
+                tags: ["design", "logo"],
+            });
+        });
+
+        it("Should keep creating jobs with a plain description", async function () {
+            const {creator} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Plain description", "10", JOB_DURATION);
+
+            expect((await creator.getJob(jobId)).description).to.equal("Plain description");
+            expect(await creator.getJobMetadata(jobId)).to.deep.equal({category: 0n, contentHash: hre.ethers.ZeroHash, tags: []});
+        });
+
+        it("Should reject an invalid description before sending a transaction", async function () {
+            const {superHelper, creator} = await loadFixture(registeredClientsFixture);
+            const invalid = {...DESCRIPTION, tags: ["Not A Tag"]};
+
+            await expect(creator.createJobWithDescription(invalid, "ipfs://bafy-logo", "10", JOB_DURATION))
+                .to.be.rejectedWith(JobDescriptionError);
+            expect(await superHelper.jobCount()).to.equal(0);
+        });
+
+    });
+
+    describe("Stalled jobs", function () {
+
+        it("Should let the worker claim an unreviewed job after the review period", async function () {
+            const {creator, worker, user2} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Forgotten job", "20", JOB_DURATION);
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+
+            const error = await worker.claimPayment(jobId).catch((e) => e);
+            expect(error).to.be.instanceOf(ReviewPeriodNotOverError);
+
+            await time.increaseTo(error.reviewEnd);
+            await worker.claimPayment(jobId);
+
+            expect(await worker.helperToken.balanceOf(user2.address)).to.equal(parseHelp("120"));
+        });
+
+        it("Should let the creator reclaim a job whose deadline is missed", async function () {
+            const {creator, worker, user1} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Abandoned job", "20", JOB_DURATION);
+            await worker.takeJob(jobId);
+
+            await time.increaseTo((await creator.getJob(jobId)).deadline + 1n);
+            await creator.reclaimExpiredJob(jobId);
+
+            expect((await creator.getJob(jobId)).status).to.equal(JobStatus.CANCELLED);
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("100"));
+        });
+
+    });
+
+    describe("Depreciation", function () {
+
+        it("Should estimate the depreciation charged by the next action", async function () {
+            const {superHelper, creator, worker, user1, user2} = await loadFixture(registeredClientsFixture);
+            const user = await creator.getUser();
+
+            await time.increaseTo(user.lastActivity + 30n * 24n * 60n * 60n);
+
+            const depreciation = await creator.estimateDepreciation();
+            expect(depreciation).to.equal((parseHelp("100") * 5n) / 100n);
+
+            const {jobId} = await creator.createJob("Job with depreciation", "10", JOB_DURATION);
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("100") - parseHelp("10") - depreciation);
+
+            await worker.takeJob(jobId);
+            expect((await worker.getJob(jobId)).status).to.equal(JobStatus.TAKEN);
+            expect(await creator.helperToken.balanceOf(user2.address)).to.equal(parseHelp("100") - depreciation);
+            expect(await superHelper.deferredDepreciation(user2.address)).to.equal(0n);
+        });
+
+        it("Should not charge anything to an active user", async function () {
+            const {creator} = await loadFixture(registeredClientsFixture);
+
+            expect(await creator.estimateDepreciation()).to.equal(0n);
+        });
+
+        it("Should settle the depreciation without any other action", async function () {
+            const {creator, user1} = await loadFixture(registeredClientsFixture);
+
+            await time.increaseTo((await creator.getUser()).lastActivity + 60n * 24n * 60n * 60n);
+            const depreciation = await creator.estimateDepreciation();
+            expect(depreciation).to.equal(parseHelp("100") - (parseHelp("100") * 95n * 95n) / 10_000n);
+
+            await creator.settleDepreciation();
+
+            expect(await creator.estimateDepreciation()).to.equal(0n);
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("100") - depreciation);
+        });
+
+        it("Should follow the depreciation configured by the owner", async function () {
+            const {superHelper, creator, user1} = await loadFixture(registeredClientsFixture);
+            const sevenDays = 7n * 24n * 60n * 60n;
+
+            await superHelper.setDepreciation(sevenDays, [10, 5, 2, 1]);
+            await time.increaseTo((await creator.getUser()).lastActivity + sevenDays);
+
+            const depreciation = await creator.estimateDepreciation();
+            expect(depreciation).to.equal((parseHelp("100") * 10n) / 100n);
+
+            await creator.createJob("Job with depreciation", "10", JOB_DURATION);
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("100") - parseHelp("10") - depreciation);
+        });
+
+    });
+
+    describe("Payment tokens", function () {
+
+        async function paymentTokensFixture() {
+            const fixture = await loadFixture(registeredClientsFixture);
+            const [owner] = await hre.ethers.getSigners();
+            const MockERC20 = await hre.ethers.getContractFactory("MockERC20", owner);
+            const usdc = await MockERC20.deploy("USD Coin", "USDC");
+
+            await fixture.superHelper.setPaymentToken(await usdc.getAddress(), true);
+            await fixture.superHelper.setPaymentToken(NATIVE_TOKEN, true);
+            await usdc.mint(fixture.user1.address, 100n * 10n ** 6n);
+
+            return {...fixture, usdc};
+        }
+
+        it("Should create and pay a job in another token, approving its reward and tip", async function () {
+            const {creator, worker, usdc, user2} = await loadFixture(paymentTokensFixture);
+            const usdcAddress = await usdc.getAddress();
+
+            const {jobId} = await creator.createJobWithToken("Translate a contract", usdcAddress, 30n * 10n ** 6n, JOB_DURATION);
+            expect((await creator.getJob(jobId)).token).to.equal(usdcAddress);
+
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 5, false, 2n * 10n ** 6n);
+
+            expect(await usdc.balanceOf(user2.address)).to.equal(32n * 10n ** 6n);
+            expect(await worker.helperToken.balanceOf(user2.address)).to.equal(parseHelp("100"));
+        });
+
+        it("Should send the ETH escrowed by a job paid in ETH", async function () {
+            const {superHelper, creator, worker} = await loadFixture(paymentTokensFixture);
+            const address = await superHelper.getAddress();
+
+            const {jobId} = await creator.createJobWithToken("Proofread", NATIVE_TOKEN, parseEther("1"), JOB_DURATION);
+            expect((await creator.getJob(jobId)).token).to.equal(NATIVE_TOKEN);
+
+            await creator.updateJob(jobId, "Proofread twice", parseEther("1.5"));
+            expect(await hre.ethers.provider.getBalance(address)).to.equal(parseEther("1.5"));
+
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 5, false, parseEther("0.1"));
+
+            expect(await hre.ethers.provider.getBalance(address)).to.equal(0n);
+        });
+
+        it("Should parse the amounts of a job in the decimals of its token", async function () {
+            const {superHelper, creator, worker, usdc, user2} = await loadFixture(paymentTokensFixture);
+
+            const {jobId: ethJobId} = await creator.createJobWithToken("Proofread", NATIVE_TOKEN, "1", JOB_DURATION);
+            expect((await creator.getJob(ethJobId)).reward).to.equal(parseEther("1"));
+            await creator.updateJob(ethJobId, "Proofread twice", "1.5");
+            expect((await creator.getJob(ethJobId)).reward).to.equal(parseEther("1.5"));
+            expect(await hre.ethers.provider.getBalance(await superHelper.getAddress())).to.equal(parseEther("1.5"));
+
+            const {jobId} = await creator.createJobWithToken("Translate a contract", await usdc.getAddress(), "30", JOB_DURATION);
+            expect((await creator.getJob(jobId)).reward).to.equal(30n * 10n ** 6n);
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 5, false, "2");
+
+            expect(await usdc.balanceOf(user2.address)).to.equal(32n * 10n ** 6n);
+        });
+
+        it("Should keep HELP as the token of the other jobs", async function () {
+            const {creator} = await loadFixture(paymentTokensFixture);
+
+            const {jobId} = await creator.createJob("Paid in HELP", "10", JOB_DURATION);
+
+            expect((await creator.getJob(jobId)).token).to.equal(await creator.helperToken.getAddress());
+        });
+
+    });
+
+    describe("Permits", function () {
+
+        it("Should create a job without any approve transaction", async function () {
+            const {creator, user1} = await loadFixture(registeredClientsFixture);
+            const superHelperAddress = await creator.superHelper.getAddress();
+
+            const {jobId, receipt} = await creator.createJobWithPermit("Permit job", "10", JOB_DURATION);
+
+            expect((await creator.getJob(jobId)).status).to.equal(JobStatus.CREATED);
+            expect(await creator.helperToken.balanceOf(user1.address)).to.equal(parseHelp("90"));
+            expect(await creator.helperToken.allowance(user1.address, superHelperAddress)).to.equal(0n);
+            expect(receipt.from).to.equal(user1.address);
+        });
+
+        it("Should take a job with a permit for the depreciation", async function () {
+            const {creator, worker, user2} = await loadFixture(registeredClientsFixture);
+            const superHelperAddress = await creator.superHelper.getAddress();
+
+            const {jobId} = await creator.createJobWithPermit("Permit job", "10", JOB_DURATION);
+            await time.increaseTo((await worker.getUser()).lastActivity + 30n * 24n * 60n * 60n);
+            await worker.takeJobWithPermit(jobId);
+
+            expect((await worker.getJob(jobId)).status).to.equal(JobStatus.TAKEN);
+            expect(await worker.helperToken.balanceOf(user2.address)).to.equal(parseHelp("95"));
+            expect(await worker.helperToken.allowance(user2.address, superHelperAddress)).to.equal(0n);
+        });
+
+    });
+
+    describe("Gasless onboarding", function () {
+
+        async function deployGaslessFixture() {
+            const [owner] = await hre.ethers.getSigners();
+
+            const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+            const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+            const address = await superHelper.getAddress();
+
+            const SuperHelperForwarder = await hre.ethers.getContractFactory("SuperHelperForwarder", owner);
+            const forwarder = await SuperHelperForwarder.deploy();
+            await superHelper.setTrustedForwarder(await forwarder.getAddress());
+
+            // Fresh accounts without any ETH, the owner pays the gas as relayer.
+            const creatorWallet = hre.ethers.Wallet.createRandom(hre.ethers.provider);
+            const workerWallet = hre.ethers.Wallet.createRandom(hre.ethers.provider);
+            const relayer = await GaslessRelayer.connect(address, owner);
+
+            const creator = await SuperHelperClient.connect(address, creatorWallet, relayer);
+            const worker = await SuperHelperClient.connect(address, workerWallet, relayer);
+
+            return {superHelper, creator, worker, creatorWallet, workerWallet};
+        }
+
+        it("Should register, create, take and complete a job without the users holding ETH", async function () {
+            const {creator, worker, creatorWallet, workerWallet} = await loadFixture(deployGaslessFixture);
+
+            await creator.register();
+            await worker.register();
+
+            const {jobId} = await creator.createJob("Gasless job", "10", JOB_DURATION);
+            await worker.takeJob(jobId);
+            await worker.submitJob(jobId, "ipfs://deliverable");
+            await creator.completeAndReviewJob(jobId, 5);
+
+            const job = await creator.getJob(jobId);
+            expect(job.creator).to.equal(creatorWallet.address);
+            expect(job.worker).to.equal(workerWallet.address);
+            expect(job.status).to.equal(JobStatus.COMPLETED);
+            expect(await worker.helperToken.balanceOf(workerWallet.address)).to.equal(parseHelp("110"));
+            expect(await hre.ethers.provider.getBalance(creatorWallet.address)).to.equal(0n);
+            expect(await hre.ethers.provider.getBalance(workerWallet.address)).to.equal(0n);
+        });
+
+        it("Should have the relayer submit the permits of the user", async function () {
+            const {creator, creatorWallet} = await loadFixture(deployGaslessFixture);
+
+            await creator.register();
+            await time.increaseTo((await creator.getUser()).lastActivity + 30n * 24n * 60n * 60n);
+            const depreciation = await creator.estimateDepreciation();
+
+            await creator.createJob("Gasless job", "10", JOB_DURATION);
+
+            expect(await creator.helperToken.balanceOf(creatorWallet.address)).to.equal(parseHelp("90") - depreciation);
+            expect(await hre.ethers.provider.getBalance(creatorWallet.address)).to.equal(0n);
+        });
+
+        it("Should map the reverts of relayed calls to typed errors", async function () {
+            const {creator} = await loadFixture(deployGaslessFixture);
+
+            await creator.register();
+
+            await expect(creator.register()).to.be.rejectedWith(AlreadyRegisteredError);
+        });
+
+    });
+
+    describe("Registration", function () {
+
+        async function deployRegistrationFixture() {
+            const fixture = await loadFixture(deployClientsFixture);
+            const {superHelper} = fixture;
+
+            const RegistrationModule = await hre.ethers.getContractFactory("RegistrationModule");
+            const registrationModule = await RegistrationModule.deploy(await superHelper.getAddress(), 1);
+            await superHelper.setRegistrationModule(await registrationModule.getAddress());
+
+            return {...fixture, registrationModule};
+        }
+
+        it("Should register allowlisted users with their proof", async function () {
+            const {superHelper, registrationModule, creator, worker, user1, user2, other} = await loadFixture(deployRegistrationFixture);
+            const tree = new AllowlistTree([user1.address, user2.address, other.address]);
+
+            await registrationModule.setAllowlistRoot(tree.root);
+            await superHelper.setRegistrationMode(RegistrationMode.ALLOWLIST);
+
+            await creator.registerWithProof(tree.getProof(user1.address));
+            await worker.registerWithProof(tree.getProof(user2.address));
+
+            expect((await creator.getUser()).isRegistered).to.be.true;
+            expect((await worker.getUser()).isRegistered).to.be.true;
+            await expect(creator.register()).to.be.rejectedWith(RegistrationModeIncorrectError);
+        });
+
+        it("Should register users invited by the owner", async function () {
+            const {superHelper, ownerClient, creator, user1} = await loadFixture(deployRegistrationFixture);
+
+            await superHelper.setRegistrationMode(RegistrationMode.INVITATION);
+            const invitation = await ownerClient.signInvitation(user1.address);
+
+            await creator.registerWithInvitation(invitation);
+
+            expect((await creator.getUser()).isRegistered).to.be.true;
+        });
+
+        it("Should map the reverts of the registration module to typed errors", async function () {
+            const {superHelper, creator, worker, user2} = await loadFixture(deployRegistrationFixture);
+
+            await superHelper.setRegistrationMode(RegistrationMode.INVITATION);
+            const invitation = await creator.signInvitation(user2.address);
+
+            await expect(worker.registerWithInvitation(invitation)).to.be.rejectedWith(BadgeTooLowError);
+        });
+
+    });
+
+    describe("Typed errors", function () {
+
+        it("Should map unregistered calls to NotRegisteredError", async function () {
+            const {outsider} = await loadFixture(deployClientsFixture);
+
+            await expect(outsider.takeJob(0n)).to.be.rejectedWith(NotRegisteredError);
+        });
+
+        it("Should map double registration to AlreadyRegisteredError", async function () {
+            const {creator} = await loadFixture(registeredClientsFixture);
+
+            await expect(creator.register()).to.be.rejectedWith(AlreadyRegisteredError);
+        });
+
+        it("Should map actions of a paused marketplace to MarketplacePausedError", async function () {
+            const {superHelper, creator} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Job Test", "10", JOB_DURATION);
+            await superHelper.pause();
+
+            await expect(creator.cancelJob(jobId)).to.be.rejectedWith(MarketplacePausedError);
+
+            await superHelper.setEmergencyMode(true);
+            await creator.emergencyWithdraw(jobId);
+            expect((await creator.getJob(jobId)).status).to.equal(JobStatus.CANCELLED);
+        });
+
+        it("Should map JobStatusIncorrect with decoded statuses", async function () {
+            const {creator, worker} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Job Test", "10", JOB_DURATION);
+
+            const error = await creator.completeAndReviewJob(jobId, 3).catch((e) => e);
+            expect(error).to.be.instanceOf(JobStatusIncorrectError);
+            expect(error.current).to.equal(JobStatus.CREATED);
+            expect(error.expected).to.equal(JobStatus.SUBMITTED);
+
+            await worker.takeJob(jobId);
+            await expect(worker.takeJob(jobId)).to.be.rejectedWith(JobStatusIncorrectError);
+        });
+
+        it("Should map InsufficientFunds with the required amount", async function () {
+            const {creator} = await loadFixture(registeredClientsFixture);
+
+            const error = await creator.createJob("Too expensive", "101", JOB_DURATION).catch((e) => e);
+            expect(error).to.be.instanceOf(InsufficientFundsError);
+            expect(error.required).to.equal(parseHelp("101"));
+        });
+
+        it("Should map IncorrectValue with the sent and required amounts", async function () {
+            const {superHelper, user1} = await loadFixture(registeredClientsFixture);
+
+            await superHelper.setPaymentToken(NATIVE_TOKEN, true);
+            const revert = await superHelper.connect(user1)
+                .createJobWithToken("Proofread", NATIVE_TOKEN, parseEther("1"), JOB_DURATION, {value: 1n})
+                .catch((e) => e);
+
+            const error = toSuperHelperError(revert, superHelper.interface) as IncorrectValueError;
+            expect(error).to.be.instanceOf(IncorrectValueError);
+            expect(error.sent).to.equal(1n);
+            expect(error.required).to.equal(parseEther("1"));
+        });
+
+        it("Should map ownership errors to UnauthorizedError", async function () {
+            const {creator, user1} = await loadFixture(registeredClientsFixture);
+
+            const error = await creator.handleDisputedJob(0n, true).catch((e) => e);
+            expect(error).to.be.instanceOf(UnauthorizedError);
+            expect(error.account).to.equal(user1.address);
+        });
+
+        it("Should map requirement errors with the current and required values", async function () {
+            const {creator, worker} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Experts only", "10", JOB_DURATION);
+            await creator.setJobRequirements(jobId, {minBadge: Badge.SILVER, minAverageRating: 0n, applicationsOnly: false});
+
+            const error = await worker.applyForJob(jobId).catch((e) => e);
+            expect(error).to.be.instanceOf(BadgeTooLowError);
+            expect(error.current).to.equal(Badge.NONE);
+            expect(error.required).to.equal(Badge.SILVER);
+        });
+
+        it("Should keep other revert reasons", async function () {
+            const {creator} = await loadFixture(registeredClientsFixture);
+
+            const {jobId} = await creator.createJob("Own job", "10", JOB_DURATION);
+
+            const error = await creator.takeJob(jobId).catch((e) => e);
+            expect(error).to.be.instanceOf(SuperHelperRevertError);
+            expect(error.reason).to.equal("Worker can't be the creator");
+        });
+
+    });
+});
@@ -2,13 +2,15 @@ import {loadFixture} from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import {expect} from "chai";
 import hre from "hardhat";
 
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+
 describe("Token Helper Contract", function () {
 
     async function deployContractsFixture() {
         const [owner, user1, user2, other] = await hre.ethers.getSigners();
 
-        const SuperHelper = await hre.ethers.getContractFactory("SuperHelper", owner);
-        const superHelper = await SuperHelper.deploy();
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
 
         const helperTokenAddress = await superHelper.helperToken();
         const helperToken = await hre.ethers.getContractAt("HelperToken", helperTokenAddress, owner);
@@ -0,0 +1,194 @@
+import {loadFixture} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import hre from "hardhat";
+import {AddressInfo} from "net";
+
+import {createApiServer} from "../api";
+import SuperHelperModule from "../ignition/modules/SuperHelper";
+
+describe("JSON API", function () {
+
+    const JOB_DURATION = 7 * 24 * 60 * 60;
+
+    async function deployWithActivityFixture() {
+        const [owner, user1, user2, other] = await hre.ethers.getSigners();
+
+        const deployment = await hre.ignition.deploy(SuperHelperModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await deployment.superHelper.getAddress(), owner);
+        const helperToken = await hre.ethers.getContractAt("HelperToken", await superHelper.helperToken(), owner);
+        const ONE_TOKEN = await helperToken.ONE_TOKEN();
+        const superHelperAddress = await superHelper.getAddress();
+
+        for (const user of [user1, user2, other]) {
+            await superHelper.connect(user).distributeToNewUser();
+            await helperToken.connect(user).approve(superHelperAddress, 100n * ONE_TOKEN);
+        }
+
+        for (let i = 0; i < 3; i++) {
+            await superHelper.connect(user1).createJob(`Job ${i}`, 10n * ONE_TOKEN, JOB_DURATION);
+        }
+        await superHelper.connect(user2).takeJob(0);
+        await superHelper.connect(user2).submitJob(0, "ipfs://job-0");
+        await superHelper.connect(user1).completeAndReviewJob(0, 5, false, 0);
+        await superHelper.connect(user2).takeJob(1);
+        await superHelper.connect(user2).submitJob(1, "ipfs://job-1");
+        await superHelper.connect(user1).completeAndReviewJob(1, 4, false, 0);
+        await superHelper.connect(other).takeJob(2);
+
+        return {superHelper, helperToken, owner, user1, user2, other};
+    }
+
+    async function startServer(superHelper: any, helperToken: any) {
+        const server = createApiServer({superHelper, helperToken});
+        await new Promise<void>((resolve) => server.listen(0, resolve));
+        const {port} = server.address() as AddressInfo;
+
+        const get = async (route: string) => {
+            const response = await fetch(`http://127.0.0.1:${port}${route}`);
+            return {status: response.status, body: await response.json()};
+        };
+
+        return {server, get};
+    }
+
+    let api: Awaited<ReturnType<typeof startServer>>;
+    let fixture: Awaited<ReturnType<typeof deployWithActivityFixture>>;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployWithActivityFixture);
+        api = await startServer(fixture.superHelper, fixture.helperToken);
+    });
+
+    afterEach(async function () {
+        await new Promise((resolve) => api.server.close(resolve));
+    });
+
+    describe("GET /jobs", function () {
+
+        it("Should return jobs with decoded status and formatted reward", async function () {
+            const {status, body} = await api.get("/jobs");
+
+            const onChain = await fixture.superHelper.jobs(0);
+
+            expect(status).to.equal(200);
+            expect(body.total).to.equal(3);
+            expect(body.next).to.be.null;
+            expect(body.items[0]).to.deep.equal({
+                id: "0",
+                creator: fixture.user1.address,
+                worker: fixture.user2.address,
+                description: "Job 0",
+                stars: 5,
+                creatorStars: 0,
+                token: await fixture.superHelper.helperToken(),
+                reward: "10.0",
+                rewardUnits: "1000",
+                status: "COMPLETED",
+                deliverable: "ipfs://job-0",
+                duration: JOB_DURATION.toString(),
+                deadline: onChain.deadline.toString(),
+                submittedAt: onChain.submittedAt.toString(),
+                disputedAt: onChain.disputedAt.toString(),
+                released: "0.0",
+                releasedUnits: "0",
+                milestones: [],
+            });
+        });
+
+        it("Should filter by status", async function () {
+            const {body} = await api.get("/jobs?status=TAKEN");
+
+            expect(body.items.map((job: any) => job.id)).to.deep.equal(["2"]);
+        });
+
+        it("Should paginate over jobCount", async function () {
+            const first = await api.get("/jobs?offset=0&limit=2");
+            expect(first.body.items.map((job: any) => job.id)).to.deep.equal(["0", "1"]);
+            expect(first.body.next).to.equal(2);
+
+            const second = await api.get(`/jobs?offset=${first.body.next}&limit=2`);
+            expect(second.body.items.map((job: any) => job.id)).to.deep.equal(["2"]);
+            expect(second.body.next).to.be.null;
+        });
+
+        it("Should reject an unknown status or an invalid page", async function () {
+            expect((await api.get("/jobs?status=UNKNOWN")).status).to.equal(400);
+            expect((await api.get("/jobs?limit=1000")).status).to.equal(400);
+            expect((await api.get("/jobs?offset=-1")).status).to.equal(400);
+        });
+
+    });
+
+    describe("GET /jobs/:id", function () {
+
+        it("Should return a single job", async function () {
+            const {status, body} = await api.get("/jobs/2");
+
+            expect(status).to.equal(200);
+            expect(body.worker).to.equal(fixture.other.address);
+            expect(body.status).to.equal("TAKEN");
+        });
+
+        it("Should format the reward of a job paid in another token with its decimals", async function () {
+            const {superHelper, owner, user1} = fixture;
+            const usdc = await (await hre.ethers.getContractFactory("MockERC20", owner)).deploy("USD Coin", "USDC");
+            const usdcAddress = await usdc.getAddress();
+
+            await superHelper.connect(owner).setPaymentToken(usdcAddress, true);
+            await usdc.mint(user1.address, 12_500_000n);
+            await usdc.connect(user1).approve(await superHelper.getAddress(), 12_500_000n);
+            await superHelper.connect(user1).createJobWithToken("Job 3", usdcAddress, 12_500_000n, JOB_DURATION);
+
+            const {body} = await api.get("/jobs/3");
+
+            expect(body.token).to.equal(usdcAddress);
+            expect(body.reward).to.equal("12.5");
+            expect(body.rewardUnits).to.equal("12500000");
+        });
+
+        it("Should return 404 for a job that does not exist", async function () {
+            expect((await api.get("/jobs/3")).status).to.equal(404);
+            expect((await api.get("/jobs/abc")).status).to.equal(400);
+        });
+
+    });
+
+    describe("GET /users/:address", function () {
+
+        it("Should return the user with its badge name and balance", async function () {
+            const {status, body} = await api.get(`/users/${fixture.user2.address}`);
+
+            expect(status).to.equal(200);
+            expect(body.isRegistered).to.be.true;
+            expect(body.nbJobCompleted).to.equal("2");
+            expect(body.badgeLevel).to.equal("NONE");
+            expect(body.averageWorkerRating).to.equal(4.5);
+            expect(body.averageCreatorRating).to.equal(0);
+            expect(body.balance).to.equal("120.0");
+            expect(body.pendingDepreciation).to.equal("0.0");
+        });
+
+        it("Should reject an invalid address", async function () {
+            expect((await api.get("/users/0x1234")).status).to.equal(400);
+        });
+
+    });
+
+    describe("GET /leaderboard", function () {
+
+        it("Should rank registered users by completed jobs", async function () {
+            const {body} = await api.get("/leaderboard?limit=2");
+
+            expect(body.map((user: any) => user.address)).to.deep.equal([fixture.user2.address, fixture.user1.address]);
+        });
+
+    });
+
+    it("Should return 404 on unknown routes and 405 on other methods", async function () {
+        expect((await api.get("/unknown")).status).to.equal(404);
+
+        const {port} = api.server.address() as AddressInfo;
+        const response = await fetch(`http://127.0.0.1:${port}/jobs`, {method: "POST"});
+        expect(response.status).to.equal(405);
+    });
+});
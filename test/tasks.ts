@@ -0,0 +1,184 @@
+import {loadFixture, time} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {expect} from "chai";
+import hre from "hardhat";
+
+import {SuperHelperProxyModule} from "../ignition/modules/SuperHelper";
+import {NATIVE_TOKEN} from "../sdk/types";
+
+describe("Hardhat tasks", function () {
+
+    const consoleTable = console.table;
+    const consoleLog = console.log;
+
+    before(function () {
+        console.table = () => undefined;
+        console.log = () => undefined;
+    });
+
+    after(function () {
+        console.table = consoleTable;
+        console.log = consoleLog;
+    });
+
+    async function deployWithJobsFixture() {
+        const [owner, user1, user2] = await hre.ethers.getSigners();
+
+        const {proxy} = await hre.ignition.deploy(SuperHelperProxyModule);
+        const superHelper = await hre.ethers.getContractAt("SuperHelper", await proxy.getAddress(), owner);
+        const address = await superHelper.getAddress();
+
+        await superHelper.connect(user1).distributeToNewUser();
+        await superHelper.connect(user2).distributeToNewUser();
+
+        await hre.run("jobs:create", {description: "Open job", reward: "10", address, from: user1.address});
+        await hre.run("jobs:create", {description: "Disputed job", reward: "20.5", address, from: user1.address});
+        await hre.run("jobs:take", {id: 1n, address, from: user2.address});
+        await hre.run("jobs:submit", {id: 1n, deliverable: "ipfs://deliverable", address, from: user2.address});
+        await hre.run("jobs:complete", {id: 1n, rating: 1, disputed: true, address, from: user1.address});
+
+        return {superHelper, address, owner, user1, user2};
+    }
+
+    it("Should list jobs with formatted rewards and statuses", async function () {
+        const {address, user1, user2} = await loadFixture(deployWithJobsFixture);
+
+        const rows = await hre.run("jobs:list", {address});
+
+        expect(rows).to.deep.equal([
+            {id: 0, creator: user1.address, worker: "-", reward: "10.0 HELP", status: "CREATED", stars: 0, description: "Open job"},
+            {id: 1, creator: user1.address, worker: user2.address, reward: "20.5 HELP", status: "DISPUTED", stars: 1, description: "Disputed job"},
+        ]);
+    });
+
+    it("Should filter jobs by status", async function () {
+        const {address} = await loadFixture(deployWithJobsFixture);
+
+        const rows = await hre.run("jobs:list", {address, status: "created"});
+
+        expect(rows.map((row: any) => row.id)).to.deep.equal([0]);
+    });
+
+    it("Should show a single job", async function () {
+        const {address} = await loadFixture(deployWithJobsFixture);
+
+        const row = await hre.run("jobs:show", {id: 0n, address});
+
+        expect(row.description).to.equal("Open job");
+    });
+
+    it("Should create and list a job paid in ETH", async function () {
+        const {superHelper, address, owner, user1} = await loadFixture(deployWithJobsFixture);
+
+        await superHelper.connect(owner).setPaymentToken(NATIVE_TOKEN, true);
+        const jobId = await hre.run("jobs:create", {
+            description: "ETH job",
+            reward: hre.ethers.parseEther("0.5").toString(),
+            token: "eth",
+            address,
+            from: user1.address,
+        });
+
+        expect(await superHelper.jobTokens(jobId)).to.equal(NATIVE_TOKEN);
+        expect((await hre.run("jobs:show", {id: jobId, address})).reward).to.equal("0.5 ETH");
+    });
+
+    it("Should update the reward of a job and keep its description", async function () {
+        const {superHelper, address, user1} = await loadFixture(deployWithJobsFixture);
+
+        await hre.run("jobs:update", {id: 0n, reward: "12.5", address, from: user1.address});
+
+        const job = await superHelper.jobs(0);
+        expect(job.description).to.equal("Open job");
+        expect(job.reward).to.equal(1250n);
+    });
+
+    it("Should update the reward of a job paid in ETH in wei", async function () {
+        const {superHelper, address, owner, user1} = await loadFixture(deployWithJobsFixture);
+
+        await superHelper.connect(owner).setPaymentToken(NATIVE_TOKEN, true);
+        const reward = hre.ethers.parseEther("0.5").toString();
+        const jobId = await hre.run("jobs:create", {description: "ETH job", reward, token: "eth", address, from: user1.address});
+        await hre.run("jobs:update", {id: jobId, reward: hre.ethers.parseEther("0.75").toString(), address, from: user1.address});
+
+        expect((await superHelper.jobs(jobId)).reward).to.equal(hre.ethers.parseEther("0.75"));
+    });
+
+    it("Should apply for a job and accept the applicant", async function () {
+        const {superHelper, address, user1, user2} = await loadFixture(deployWithJobsFixture);
+
+        await hre.run("jobs:requirements", {id: 0n, badge: "none", rating: "0", applicationsOnly: true, address, from: user1.address});
+        await hre.run("jobs:apply", {id: 0n, message: "Available tomorrow", price: "8", address, from: user2.address});
+
+        const applications = await hre.run("jobs:applicants", {id: 0n, address});
+        expect(applications).to.deep.equal([
+            {applicant: user2.address, price: "8.0 HELP", messageHash: hre.ethers.id("Available tomorrow")},
+        ]);
+
+        await hre.run("jobs:accept", {id: 0n, applicant: user2.address, address, from: user1.address});
+
+        const job = await superHelper.jobs(0);
+        expect(job.worker).to.equal(user2.address);
+        expect(job.reward).to.equal(800n);
+    });
+
+    it("Should list and resolve disputes", async function () {
+        const {superHelper, address, owner} = await loadFixture(deployWithJobsFixture);
+
+        expect((await hre.run("disputes:list", {address})).map((row: any) => row.id)).to.deep.equal([1]);
+
+        await time.increase(await superHelper.DISPUTE_TIMEOUT());
+        await hre.run("disputes:resolve", {id: 1n, resolved: true, address, from: owner.address});
+
+        expect((await superHelper.jobs(1)).status).to.equal(2); // COMPLETED
+        expect(await hre.run("disputes:list", {address})).to.deep.equal([]);
+    });
+
+    it("Should settle a dispute with a worker share", async function () {
+        const {superHelper, address, owner} = await loadFixture(deployWithJobsFixture);
+
+        await time.increase(await superHelper.DISPUTE_TIMEOUT());
+        await hre.run("disputes:settle", {id: 1n, workerShare: 5_000, address, from: owner.address});
+
+        expect((await hre.run("jobs:show", {id: 1n, address})).status).to.equal("SETTLED");
+    });
+
+    it("Should show the marketplace parameters", async function () {
+        const {superHelper, address, owner} = await loadFixture(deployWithJobsFixture);
+
+        await superHelper.connect(owner).setBadgeThresholds(2, 4, 6);
+        await superHelper.connect(owner).setPlatformFee(250);
+
+        const row = await hre.run("params:show", {address});
+
+        expect(row.badgeThresholds).to.equal("2 / 4 / 6");
+        expect(row.inactivityDays).to.equal(30);
+        expect(row.depreciationRates).to.equal("5% / 3% / 2% / 1%");
+        expect(row.welcomeGrant).to.equal("100.0 HELP");
+        expect(row.platformFee).to.equal("2.5%");
+    });
+
+    it("Should report the treasury apart from the escrowed rewards", async function () {
+        const {address} = await loadFixture(deployWithJobsFixture);
+
+        const row = await hre.run("treasury:report", {address});
+
+        expect(row.balance).to.equal("999999830.5 HELP");
+        expect(row.escrowed).to.equal("30.5 HELP");
+        expect(row.depreciationPool).to.equal("0.0 HELP");
+        expect(row.treasury).to.equal("999999800.0 HELP");
+        expect(row.welcomeGrant).to.equal("100.0 HELP");
+        expect(row.remainingWelcomeGrants).to.equal(9999998);
+    });
+
+    it("Should show a user with badge and balance", async function () {
+        const {address, user2} = await loadFixture(deployWithJobsFixture);
+
+        const row = await hre.run("users:show", {user: user2.address, address});
+
+        expect(row.registered).to.be.true;
+        expect(row.badge).to.equal("NONE");
+        expect(row.balance).to.equal("100.0 HELP");
+        expect(row.pendingDepreciation).to.equal("0.0 HELP");
+    });
+
+});